@@ -3,15 +3,20 @@ import { Card, CardContent } from "@/components/ui/card";
 import { AlertCircle, Loader2 } from "lucide-react";
 import AuthPage from "./pages/AuthPage";
 import ChatPage from "./pages/ChatPage";
+import InvitePage from "./pages/InvitePage";
 import { useUser } from "./hooks/use-user";
+import { WebSocketProvider } from "./hooks/use-websocket";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { queryClient } from "./lib/queryClient";
 
-// App component wraps everything in QueryClientProvider
+// App component wraps everything in QueryClientProvider, and the routes in
+// the one WebSocket connection they share
 export default function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <AppRoutes />
+      <WebSocketProvider>
+        <AppRoutes />
+      </WebSocketProvider>
     </QueryClientProvider>
   );
 }
@@ -33,6 +38,7 @@ function AppRoutes() {
     return (
       <Switch>
         <Route path="/workspace/:id" component={AuthPage} />
+        <Route path="/invite/:token" component={AuthPage} />
         <Route path="/" component={AuthPage} />
       </Switch>
     );
@@ -42,6 +48,7 @@ function AppRoutes() {
   return (
     <Switch>
       <Route path="/workspace/:workspaceId" component={ChatPage} />
+      <Route path="/invite/:token" component={InvitePage} />
       <Route path="/" component={ChatPage} />
       <Route component={NotFound} />
     </Switch>
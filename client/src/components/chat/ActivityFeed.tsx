@@ -0,0 +1,160 @@
+import { formatDistanceToNowStrict } from "date-fns";
+import { AtSign, CheckCheck, Loader2, MessageSquare, SmilePlus } from "lucide-react";
+import { Avatar } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { useActivity, type ActivityItem } from "@/hooks/use-activity";
+import { cn } from "@/lib/utils";
+
+type ActivityFeedProps = {
+  workspaceId: number;
+  onSelectMessage: (message: ActivityItem["message"]) => void;
+};
+
+const KIND_ICONS = {
+  mention: AtSign,
+  reply: MessageSquare,
+  reaction: SmilePlus,
+};
+
+function describe(item: ActivityItem) {
+  const actor = item.actor?.username ?? "Someone";
+  const where = item.channel
+    ? ` in #${item.channel.name}`
+    : item.message.directMessageId
+      ? " in a direct message"
+      : "";
+
+  switch (item.kind) {
+    case "mention":
+      return item.detail === "user"
+        ? `${actor} mentioned you${where}`
+        : `${actor} mentioned @${item.detail}${where}`;
+    case "reply":
+      return `${actor} replied to a thread${where}`;
+    case "reaction":
+      return `${actor} reacted ${item.detail} to your message${where}`;
+  }
+}
+
+export default function ActivityFeed({
+  workspaceId,
+  onSelectMessage,
+}: ActivityFeedProps) {
+  const { toast } = useToast();
+  const {
+    items,
+    unreadCount,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+    markAllRead,
+  } = useActivity(workspaceId);
+
+  const handleMarkAllRead = () => {
+    markAllRead.mutate(undefined, {
+      onError: (error: Error) => {
+        toast({
+          title: "Error",
+          description: error.message || "Failed to mark activity read",
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  return (
+    <div className="w-full h-full border-r flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3 border-b">
+        <h2 className="font-semibold">Activity</h2>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7"
+          onClick={handleMarkAllRead}
+          disabled={unreadCount === 0 || markAllRead.isPending}
+        >
+          <CheckCheck className="h-4 w-4 mr-1" />
+          Mark all read
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-2 space-y-1">
+          {isLoading && (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          )}
+          {!isLoading && items.length === 0 && (
+            <div className="px-2 py-4 text-center text-sm text-muted-foreground">
+              Mentions, replies and reactions will show up here.
+            </div>
+          )}
+          {items.map((item) => {
+            const Icon = KIND_ICONS[item.kind];
+
+            return (
+              <button
+                key={item.id}
+                onClick={() => onSelectMessage(item.message)}
+                className={cn(
+                  "w-full flex items-start gap-3 px-2 py-2 rounded-md text-left text-sm",
+                  "hover:bg-accent hover:text-accent-foreground",
+                  item.isUnread && "bg-accent/40",
+                )}
+              >
+                <div className="relative shrink-0">
+                  <Avatar className="h-8 w-8">
+                    <div className="w-full h-full flex items-center justify-center bg-primary text-primary-foreground text-xs font-medium uppercase">
+                      {item.actor?.username[0] ?? "?"}
+                    </div>
+                  </Avatar>
+                  <span className="absolute -bottom-1 -right-1 rounded-full bg-background p-0.5">
+                    <Icon className="h-3 w-3 text-muted-foreground" />
+                  </span>
+                </div>
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-baseline gap-2">
+                    <span
+                      className={cn(
+                        "truncate flex-1",
+                        item.isUnread && "font-semibold",
+                      )}
+                    >
+                      {describe(item)}
+                    </span>
+                    {item.createdAt && (
+                      <span className="shrink-0 text-xs text-muted-foreground">
+                        {formatDistanceToNowStrict(new Date(item.createdAt))}
+                      </span>
+                    )}
+                  </div>
+                  <p className="truncate text-xs text-muted-foreground">
+                    {item.message.content || "Sent an attachment"}
+                  </p>
+                </div>
+                {item.isUnread && (
+                  <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-destructive" />
+                )}
+              </button>
+            );
+          })}
+          {hasNextPage && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full"
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+            >
+              {isFetchingNextPage ? "Loading..." : "Load more"}
+            </Button>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
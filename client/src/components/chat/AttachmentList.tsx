@@ -0,0 +1,187 @@
+import { useState } from "react";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  File,
+  FileText,
+  FileImage,
+} from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import type { Attachment } from "@db/schema";
+
+// Largest preview edge in the message list, in CSS pixels
+const PREVIEW_SIZE = 320;
+
+function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function fileIcon(attachment: Attachment) {
+  if (attachment.mimeType.startsWith("image/")) return FileImage;
+  if (
+    attachment.mimeType === "application/pdf" ||
+    attachment.mimeType.startsWith("text/") ||
+    /\.(pdf|docx?|txt)$/i.test(attachment.name)
+  ) {
+    return FileText;
+  }
+  return File;
+}
+
+// Fit an image into the preview box, keeping its aspect ratio, so the
+// layout doesn't jump while thumbnails load
+function previewSize({ width, height }: Attachment) {
+  if (!width || !height) return { width: PREVIEW_SIZE, height: PREVIEW_SIZE };
+  const scale = Math.min(1, PREVIEW_SIZE / Math.max(width, height));
+  return {
+    width: Math.round(width * scale),
+    height: Math.round(height * scale),
+  };
+}
+
+type AttachmentListProps = {
+  attachments: Attachment[];
+};
+
+// A message's attachments: inline previews for images, opening in a
+// lightbox, and file cards with type icon and size for everything else
+export default function AttachmentList({ attachments }: AttachmentListProps) {
+  const images = attachments.filter((attachment) => attachment.thumbnailUrl);
+  const files = attachments.filter((attachment) => !attachment.thumbnailUrl);
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const openImage = openIndex !== null ? images[openIndex] : null;
+
+  const step = (delta: number) =>
+    setOpenIndex((index) =>
+      index === null ? null : (index + delta + images.length) % images.length,
+    );
+
+  return (
+    <div className="mt-2 space-y-2">
+      {images.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {images.map((image, index) => (
+            <button
+              key={image.id}
+              type="button"
+              onClick={() => setOpenIndex(index)}
+              className="overflow-hidden rounded-md border bg-muted focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            >
+              <img
+                src={image.thumbnailUrl!}
+                alt={image.name}
+                loading="lazy"
+                style={previewSize(image)}
+                className="object-cover"
+              />
+            </button>
+          ))}
+        </div>
+      )}
+
+      {files.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {files.map((file) => {
+            const Icon = fileIcon(file);
+            return (
+              <a
+                key={file.id}
+                href={file.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex w-64 items-center gap-3 rounded-md border px-3 py-2 hover:bg-accent"
+              >
+                <Icon className="h-8 w-8 shrink-0 text-muted-foreground" />
+                <div className="min-w-0 flex-1">
+                  <div className="truncate text-sm font-medium" title={file.name}>
+                    {file.name}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {formatFileSize(file.size)}
+                  </div>
+                </div>
+                <Download className="h-4 w-4 shrink-0 text-muted-foreground" />
+              </a>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog
+        open={openImage !== null}
+        onOpenChange={(open) => !open && setOpenIndex(null)}
+      >
+        <DialogContent
+          className="max-w-4xl"
+          onKeyDown={(e) => {
+            if (e.key === "ArrowLeft") step(-1);
+            if (e.key === "ArrowRight") step(1);
+          }}
+        >
+          {openImage && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="truncate pr-6">{openImage.name}</DialogTitle>
+              </DialogHeader>
+              <div className="relative flex items-center justify-center">
+                <img
+                  src={openImage.url}
+                  alt={openImage.name}
+                  className="max-h-[75vh] max-w-full object-contain"
+                />
+                {images.length > 1 && (
+                  <>
+                    <Button
+                      variant="secondary"
+                      size="icon"
+                      className="absolute left-2"
+                      onClick={() => step(-1)}
+                    >
+                      <ChevronLeft className="h-4 w-4" />
+                      <span className="sr-only">Previous image</span>
+                    </Button>
+                    <Button
+                      variant="secondary"
+                      size="icon"
+                      className="absolute right-2"
+                      onClick={() => step(1)}
+                    >
+                      <ChevronRight className="h-4 w-4" />
+                      <span className="sr-only">Next image</span>
+                    </Button>
+                  </>
+                )}
+              </div>
+              <div className="flex items-center justify-between text-sm text-muted-foreground">
+                <span>
+                  {openImage.width && openImage.height
+                    ? `${openImage.width} × ${openImage.height} · `
+                    : ""}
+                  {formatFileSize(openImage.size)}
+                </span>
+                <a
+                  href={openImage.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-1 hover:text-foreground"
+                >
+                  <Download className="h-4 w-4" />
+                  Open original
+                </a>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Plus, Hash, Lock } from "lucide-react";
+import { Plus, Hash, Lock, Archive } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import {
@@ -14,6 +14,10 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
+import { useWebSocket } from "@/hooks/use-websocket";
+import { useUser } from "@/hooks/use-user";
+import { applyReadState } from "@/hooks/use-read-state";
+import { useWorkspacePermissions } from "@/hooks/use-workspace-permissions";
 import { cn } from "@/lib/utils";
 
 type Channel = {
@@ -21,8 +25,13 @@ type Channel = {
   name: string;
   workspaceId: number;
   isPrivate: boolean;
+  archivedAt?: string | null;
   createdById: number;
   createdAt?: string;
+  isMember?: boolean;
+  unreadCount?: number;
+  mentionCount?: number;
+  lastReadMessageId?: number | null;
   members?: Array<{
     userId: number;
     role: string;
@@ -43,14 +52,81 @@ export default function ChannelList({
   channels: initialChannels 
 }: ChannelListProps) {
   const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { addMessageHandler } = useWebSocket();
+  const { user } = useUser();
+  const { capabilities } = useWorkspacePermissions(workspaceId);
 
   const { data: channels = initialChannels } = useQuery<Channel[]>({
     queryKey: [`/api/workspaces/${workspaceId}/channels`],
     enabled: !!workspaceId,
   });
 
+  // Keep membership and unread counts live
+  useEffect(() => {
+    const channelsKey = [`/api/workspaces/${workspaceId}/channels`];
+    const updateChannel = (
+      channelId: number,
+      update: (channel: Channel) => Partial<Channel>,
+    ) =>
+      queryClient.setQueryData<Channel[]>(channelsKey, (old) =>
+        old?.map((channel) =>
+          channel.id === channelId ? { ...channel, ...update(channel) } : channel,
+        ),
+      );
+
+    return addMessageHandler((msg) => {
+      if (msg.type === "channel_membership" && msg.workspaceId === workspaceId) {
+        // Someone added us to, or removed us from, a channel
+        queryClient.invalidateQueries({ queryKey: channelsKey });
+        queryClient.invalidateQueries({
+          queryKey: [`/api/channels/${msg.channelId}/members`],
+        });
+      } else if (
+        msg.type === "channel_updated" &&
+        msg.workspaceId === workspaceId
+      ) {
+        // Renamed, new topic, or (un)archived
+        updateChannel(msg.channelId, () => msg.channel);
+      } else if (msg.type === "read_state" && msg.channelId) {
+        applyReadState(queryClient, workspaceId, {
+          channelId: msg.channelId,
+          unreadCount: msg.unreadCount,
+          mentionCount: msg.mentionCount,
+          lastReadMessageId: msg.lastReadMessageId,
+        });
+      } else if (
+        msg.type === "message" &&
+        msg.channelId !== selectedChannelId &&
+        msg.message?.userId !== user?.id
+      ) {
+        // The open channel is marked read as messages arrive instead
+        updateChannel(msg.channelId, (channel) => ({
+          unreadCount: (channel.unreadCount ?? 0) + 1,
+        }));
+      } else if (msg.type === "mention" && msg.channelId) {
+        const channel = queryClient
+          .getQueryData<Channel[]>(channelsKey)
+          ?.find((c) => c.id === msg.channelId);
+        if (!channel || msg.channelId === selectedChannelId) return;
+
+        // Unread counts only cover root messages, not thread replies
+        if (!msg.parentId) {
+          updateChannel(msg.channelId, (channel) => ({
+            mentionCount: (channel.mentionCount ?? 0) + 1,
+          }));
+        }
+
+        toast({
+          title: `${msg.message?.user?.username ?? "Someone"} mentioned you in #${channel.name}`,
+          description: msg.message?.content,
+        });
+      }
+    }, `channels-${workspaceId}`);
+  }, [workspaceId, selectedChannelId, user, queryClient, addMessageHandler, toast]);
+
   const createChannel = useMutation({
     mutationFn: async (data: { name: string; isPrivate: boolean }) => {
       const response = await fetch(`/api/workspaces/${workspaceId}/channels`, {
@@ -61,7 +137,7 @@ export default function ChannelList({
       });
 
       if (!response.ok) {
-        throw new Error(await response.text());
+        throw new Error((await response.json()).error);
       }
 
       return response.json();
@@ -83,6 +159,17 @@ export default function ChannelList({
     },
   });
 
+  // Archived channels stay hidden unless asked for, or open
+  const archivedCount =
+    channels?.filter((channel) => channel.archivedAt).length ?? 0;
+  const visibleChannels =
+    channels?.filter(
+      (channel) =>
+        !channel.archivedAt ||
+        showArchived ||
+        channel.id === selectedChannelId,
+    ) ?? [];
+
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     const formData = new FormData(e.currentTarget);
@@ -96,51 +183,78 @@ export default function ChannelList({
     <div>
       <div className="flex items-center justify-between mb-2">
         <h2 className="font-semibold text-sm">Channels</h2>
-        <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
-          <DialogTrigger asChild>
-            <Button variant="ghost" size="icon">
-              <Plus className="h-4 w-4" />
-            </Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Create Channel</DialogTitle>
-            </DialogHeader>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="name">Channel Name</Label>
-                <Input id="name" name="name" required />
-              </div>
-              <div className="flex items-center space-x-2">
-                <Switch id="private" name="private" />
-                <Label htmlFor="private">Private Channel</Label>
-              </div>
-              <Button type="submit" className="w-full" disabled={createChannel.isPending}>
-                {createChannel.isPending ? "Creating..." : "Create Channel"}
+        {capabilities.createChannels && (
+          <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+            <DialogTrigger asChild>
+              <Button variant="ghost" size="icon">
+                <Plus className="h-4 w-4" />
               </Button>
-            </form>
-          </DialogContent>
-        </Dialog>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Create Channel</DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="name">Channel Name</Label>
+                  <Input id="name" name="name" required />
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Switch id="private" name="private" />
+                  <Label htmlFor="private">Private Channel</Label>
+                </div>
+                <Button type="submit" className="w-full" disabled={createChannel.isPending}>
+                  {createChannel.isPending ? "Creating..." : "Create Channel"}
+                </Button>
+              </form>
+            </DialogContent>
+          </Dialog>
+        )}
       </div>
       <div className="space-y-1">
-        {channels?.map((channel) => (
+        {visibleChannels.map((channel) => (
           <button
             key={channel.id}
             onClick={() => onSelectChannel(channel.id)}
             className={cn(
               "w-full flex items-center space-x-2 px-2 py-1.5 rounded-md text-sm",
               "hover:bg-accent hover:text-accent-foreground",
-              selectedChannelId === channel.id && "bg-accent text-accent-foreground"
+              selectedChannelId === channel.id && "bg-accent text-accent-foreground",
+              channel.isMember === false && "text-muted-foreground"
             )}
           >
-            {channel.isPrivate ? (
+            {channel.archivedAt ? (
+              <Archive className="h-4 w-4" />
+            ) : channel.isPrivate ? (
               <Lock className="h-4 w-4" />
             ) : (
               <Hash className="h-4 w-4" />
             )}
-            <span>{channel.name}</span>
+            <span
+              className={cn(
+                "flex-1 text-left truncate",
+                (channel.unreadCount ?? 0) > 0 && "font-semibold text-foreground",
+              )}
+            >
+              {channel.name}
+            </span>
+            {(channel.mentionCount ?? 0) > 0 && (
+              <span className="rounded-full bg-destructive px-1.5 text-xs font-medium text-destructive-foreground">
+                {channel.mentionCount}
+              </span>
+            )}
           </button>
         ))}
+        {archivedCount > 0 && (
+          <button
+            onClick={() => setShowArchived((show) => !show)}
+            className="w-full px-2 py-1 text-left text-xs text-muted-foreground hover:text-foreground"
+          >
+            {showArchived
+              ? "Hide archived channels"
+              : `Show archived channels (${archivedCount})`}
+          </button>
+        )}
       </div>
     </div>
   );
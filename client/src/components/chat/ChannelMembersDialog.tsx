@@ -0,0 +1,252 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Hash, Lock, UserPlus, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useUser } from "@/hooks/use-user";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspacePermissions } from "@/hooks/use-workspace-permissions";
+
+type ChannelMember = {
+  id: number;
+  username: string;
+  avatar?: string | null;
+  status?: string | null;
+};
+
+type ChannelMembersDialogProps = {
+  channelId: number;
+  channelName: string;
+  workspaceId: number;
+  isPrivate: boolean;
+  // Channel creator, or a role that manages channels; may remove other
+  // members
+  canManage: boolean;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+export default function ChannelMembersDialog({
+  channelId,
+  channelName,
+  workspaceId,
+  isPrivate,
+  canManage,
+  open,
+  onOpenChange,
+}: ChannelMembersDialogProps) {
+  const { user } = useUser();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [inviteeId, setInviteeId] = useState<string>("");
+  const { capabilities } = useWorkspacePermissions(workspaceId);
+
+  const membersQueryKey = [`/api/channels/${channelId}/members`];
+
+  const { data: members = [], isLoading } = useQuery<ChannelMember[]>({
+    queryKey: membersQueryKey,
+    enabled: open,
+  });
+
+  const { data: workspaceUsers = [] } = useQuery<
+    { id: number; username: string }[]
+  >({
+    queryKey: [`/api/workspaces/${workspaceId}/users`],
+    enabled: open,
+  });
+
+  const isMember = members.some((member) => member.id === user?.id);
+  const invitable = workspaceUsers.filter(
+    (workspaceUser) =>
+      !members.some((member) => member.id === workspaceUser.id),
+  );
+
+  const onMembershipChange = () => {
+    queryClient.invalidateQueries({ queryKey: membersQueryKey });
+    queryClient.invalidateQueries({
+      queryKey: [`/api/workspaces/${workspaceId}/channels`],
+    });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update channel members",
+      variant: "destructive",
+    });
+  };
+
+  const inviteMember = useMutation({
+    mutationFn: async (userId: number) => {
+      const response = await fetch(`/api/channels/${channelId}/members`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userId }),
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        throw new Error((await response.json()).error);
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      setInviteeId("");
+      onMembershipChange();
+    },
+    onError,
+  });
+
+  const removeMember = useMutation({
+    mutationFn: async (userId: number) => {
+      const response = await fetch(
+        `/api/channels/${channelId}/members/${userId}`,
+        {
+          method: "DELETE",
+          credentials: "include",
+        },
+      );
+
+      if (!response.ok) {
+        throw new Error((await response.json()).error);
+      }
+
+      return response.json();
+    },
+    onSuccess: onMembershipChange,
+    onError,
+  });
+
+  const leaveChannel = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/channels/${channelId}/leave`, {
+        method: "POST",
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        throw new Error((await response.json()).error);
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      onMembershipChange();
+      onOpenChange(false);
+    },
+    onError,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-1">
+            {isPrivate ? <Lock className="h-4 w-4" /> : <Hash className="h-4 w-4" />}
+            {channelName} members
+          </DialogTitle>
+        </DialogHeader>
+
+        {isMember && capabilities.addChannelMembers && (
+          <div className="flex gap-2">
+            <Select value={inviteeId} onValueChange={setInviteeId}>
+              <SelectTrigger className="flex-1">
+                <SelectValue
+                  placeholder={
+                    invitable.length > 0
+                      ? "Add a workspace member..."
+                      : "Everyone is already here"
+                  }
+                />
+              </SelectTrigger>
+              <SelectContent>
+                {invitable.map((workspaceUser) => (
+                  <SelectItem
+                    key={workspaceUser.id}
+                    value={String(workspaceUser.id)}
+                  >
+                    {workspaceUser.username}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={() => inviteMember.mutate(parseInt(inviteeId))}
+              disabled={!inviteeId || inviteMember.isPending}
+            >
+              <UserPlus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </div>
+        )}
+
+        <ScrollArea className="max-h-80">
+          {isLoading ? (
+            <div className="py-4 text-center text-sm text-muted-foreground">
+              Loading members...
+            </div>
+          ) : (
+            <div className="space-y-1">
+              {members.map((member) => (
+                <div
+                  key={member.id}
+                  className="flex items-center gap-2 rounded-md px-2 py-1.5 hover:bg-accent"
+                >
+                  <Avatar className="h-6 w-6">
+                    <AvatarImage src={member.avatar || undefined} />
+                    <AvatarFallback>
+                      {member.username[0].toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <span className="flex-1 text-sm">
+                    {member.username}
+                    {member.id === user?.id && (
+                      <span className="text-muted-foreground"> (you)</span>
+                    )}
+                  </span>
+                  {canManage && member.id !== user?.id && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => removeMember.mutate(member.id)}
+                      disabled={removeMember.isPending}
+                    >
+                      <X className="h-3.5 w-3.5" />
+                      <span className="sr-only">Remove {member.username}</span>
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+
+        {isMember && (
+          <Button
+            variant="outline"
+            onClick={() => leaveChannel.mutate()}
+            disabled={leaveChannel.isPending}
+          >
+            Leave channel
+          </Button>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
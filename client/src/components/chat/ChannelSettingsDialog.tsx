@@ -0,0 +1,223 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Archive, ArchiveRestore } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+
+type ChannelSettings = {
+  name: string;
+  topic?: string | null;
+  description?: string | null;
+};
+
+type ChannelSettingsDialogProps = {
+  channelId: number;
+  workspaceId: number;
+  channel: ChannelSettings;
+  isArchived: boolean;
+  // Channel members can set the topic
+  isMember: boolean;
+  // Channel creator, or a role that manages channels; may rename, describe
+  // and archive the channel
+  canManage: boolean;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+export default function ChannelSettingsDialog({
+  channelId,
+  workspaceId,
+  channel,
+  isArchived,
+  isMember,
+  canManage,
+  open,
+  onOpenChange,
+}: ChannelSettingsDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState(channel.name);
+  const [topic, setTopic] = useState(channel.topic ?? "");
+  const [description, setDescription] = useState(channel.description ?? "");
+
+  // Start from the current settings each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setName(channel.name);
+    setTopic(channel.topic ?? "");
+    setDescription(channel.description ?? "");
+  }, [open, channel.name, channel.topic, channel.description]);
+
+  const onChannelChange = () => {
+    queryClient.invalidateQueries({
+      queryKey: [`/api/workspaces/${workspaceId}/channels`],
+    });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update channel",
+      variant: "destructive",
+    });
+  };
+
+  const updateChannel = useMutation({
+    mutationFn: async (changes: Partial<ChannelSettings>) => {
+      const response = await fetch(`/api/channels/${channelId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        throw new Error((await response.json()).error);
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      onChannelChange();
+      onOpenChange(false);
+    },
+    onError,
+  });
+
+  const setArchived = useMutation({
+    mutationFn: async (archive: boolean) => {
+      const response = await fetch(
+        `/api/channels/${channelId}/${archive ? "archive" : "unarchive"}`,
+        {
+          method: "POST",
+          credentials: "include",
+        },
+      );
+
+      if (!response.ok) {
+        throw new Error((await response.json()).error);
+      }
+
+      return response.json();
+    },
+    onSuccess: (_, archive) => {
+      onChannelChange();
+      onOpenChange(false);
+      toast({
+        description: archive ? "Channel archived" : "Channel unarchived",
+      });
+    },
+    onError,
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Only send what changed, and only what the user may change
+    const changes: Partial<ChannelSettings> = {};
+    if (canManage && name.trim() !== channel.name) changes.name = name;
+    if (isMember && topic.trim() !== (channel.topic ?? "")) {
+      changes.topic = topic;
+    }
+    if (canManage && description.trim() !== (channel.description ?? "")) {
+      changes.description = description;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      onOpenChange(false);
+      return;
+    }
+    updateChannel.mutate(changes);
+  };
+
+  const canEdit = !isArchived && (canManage || isMember);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Channel settings</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="channel-name">Name</Label>
+            <Input
+              id="channel-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={isArchived || !canManage}
+              required
+            />
+            <p className="text-xs text-muted-foreground">
+              Lowercase letters, numbers, - and _. Spaces become dashes.
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="channel-topic">Topic</Label>
+            <Input
+              id="channel-topic"
+              value={topic}
+              onChange={(e) => setTopic(e.target.value)}
+              placeholder="What's this channel about right now?"
+              maxLength={250}
+              disabled={isArchived || !isMember}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="channel-description">Description</Label>
+            <Textarea
+              id="channel-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What's this channel for?"
+              maxLength={1000}
+              disabled={isArchived || !canManage}
+            />
+          </div>
+          {canEdit && (
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={updateChannel.isPending}
+            >
+              {updateChannel.isPending ? "Saving..." : "Save changes"}
+            </Button>
+          )}
+        </form>
+
+        {canManage && (
+          <div className="border-t pt-4 space-y-2">
+            <p className="text-sm text-muted-foreground">
+              {isArchived
+                ? "This channel is archived. Unarchive it to allow new messages again."
+                : "Archiving hides the channel from the channel list and stops new messages. Its history stays searchable."}
+            </p>
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => setArchived.mutate(!isArchived)}
+              disabled={setArchived.isPending}
+            >
+              {isArchived ? (
+                <ArchiveRestore className="h-4 w-4 mr-1" />
+              ) : (
+                <Archive className="h-4 w-4 mr-1" />
+              )}
+              {isArchived ? "Unarchive channel" : "Archive channel"}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,9 +5,9 @@ import DirectMessagesList from "./DirectMessagesList";
 type ChatSidebarProps = {
   workspaceId: number;
   onSelectChannel: (channelId: number) => void;
-  onSelectDirectMessage: (userId: number) => void;
+  onSelectDirectMessage: (directMessageId: number) => void;
   selectedChannelId: number | null;
-  selectedUserId: number | null;
+  selectedDirectMessageId: number | null;
 };
 
 export default function ChatSidebar({ 
@@ -15,7 +15,7 @@ export default function ChatSidebar({
   onSelectChannel,
   onSelectDirectMessage,
   selectedChannelId,
-  selectedUserId,
+  selectedDirectMessageId,
 }: ChatSidebarProps) {
   return (
     <div className="w-full h-full border-r flex flex-col">
@@ -29,8 +29,8 @@ export default function ChatSidebar({
             />
             <DirectMessagesList
               workspaceId={workspaceId}
-              selectedUserId={selectedUserId}
-              onSelectUser={onSelectDirectMessage}
+              selectedDirectMessageId={selectedDirectMessageId}
+              onSelectConversation={onSelectDirectMessage}
             />
           </div>
         </div>
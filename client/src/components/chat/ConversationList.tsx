@@ -0,0 +1,259 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNowStrict } from "date-fns";
+import { Loader2, Plus, Users } from "lucide-react";
+import { Avatar } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useWebSocket } from "@/hooks/use-websocket";
+import { useUser } from "@/hooks/use-user";
+import {
+  getConversationName,
+  toSnippet,
+  useRecentConversations,
+  type ConversationActivity,
+} from "@/hooks/use-direct-messages";
+import { cn } from "@/lib/utils";
+import NewDirectMessageDialog from "./NewDirectMessageDialog";
+
+type ConversationListProps = {
+  workspaceId: number;
+  selectedDirectMessageId: number | null;
+  onSelectConversation: (directMessageId: number) => void;
+};
+
+function getPreview(conversation: ConversationActivity, currentUserId?: number) {
+  const { lastMessage } = conversation;
+  if (!lastMessage) return "No messages yet";
+
+  const text =
+    lastMessage.snippet ||
+    (lastMessage.attachmentCount === 1
+      ? "Sent an attachment"
+      : `Sent ${lastMessage.attachmentCount} attachments`);
+  if (lastMessage.userId === currentUserId) return `You: ${text}`;
+
+  // Name the sender in group conversations
+  const sender =
+    conversation.participants.length > 1 &&
+    conversation.participants.find((p) => p.id === lastMessage.userId);
+  return sender ? `${sender.username}: ${text}` : text;
+}
+
+export default function ConversationList({
+  workspaceId,
+  selectedDirectMessageId,
+  onSelectConversation,
+}: ConversationListProps) {
+  const queryClient = useQueryClient();
+  const { addMessageHandler } = useWebSocket();
+  const { user: currentUser } = useUser();
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const conversationsKey = [`/api/workspaces/${workspaceId}/conversations`];
+
+  const { data: conversations, isLoading } =
+    useRecentConversations(workspaceId);
+
+  const { data: users } = useQuery<{ id: number; username: string }[]>({
+    queryKey: [`/api/workspaces/${workspaceId}/users`],
+    enabled: isPickerOpen,
+  });
+
+  // Move conversations up as messages arrive, and keep previews and
+  // presence current
+  useEffect(() => {
+    return addMessageHandler((msg) => {
+      if (msg.type === "dm_message" && msg.message) {
+        // Conversations of the user's other workspaces aren't listed here
+        if (msg.workspaceId !== workspaceId) return;
+
+        const cached =
+          queryClient.getQueryData<ConversationActivity[]>(conversationsKey);
+        if (!cached?.some((c) => c.id === msg.directMessageId)) {
+          // A conversation we haven't loaded yet
+          queryClient.invalidateQueries({ queryKey: conversationsKey });
+          return;
+        }
+
+        const { id, userId, content, attachments, createdAt } = msg.message;
+        const isUnread =
+          userId !== currentUser?.id &&
+          msg.directMessageId !== selectedDirectMessageId;
+
+        queryClient.setQueryData<ConversationActivity[]>(
+          conversationsKey,
+          (old) => {
+            const conversation = old?.find((c) => c.id === msg.directMessageId);
+            if (!old || !conversation) return old;
+
+            return [
+              {
+                ...conversation,
+                lastMessage: {
+                  id,
+                  userId,
+                  snippet: toSnippet(content),
+                  attachmentCount: attachments?.length ?? 0,
+                  createdAt,
+                },
+                lastActivityAt: createdAt,
+                unreadCount: conversation.unreadCount + (isUnread ? 1 : 0),
+              },
+              ...old.filter((c) => c.id !== conversation.id),
+            ];
+          },
+        );
+      } else if (
+        (msg.type === "message_updated" || msg.type === "message_deleted") &&
+        msg.directMessageId &&
+        !msg.parentId
+      ) {
+        // Only matters if it was the message being previewed
+        const cached =
+          queryClient.getQueryData<ConversationActivity[]>(conversationsKey);
+        if (
+          cached?.some(
+            (c) =>
+              c.id === msg.directMessageId &&
+              c.lastMessage?.id === msg.message.id,
+          )
+        ) {
+          queryClient.invalidateQueries({ queryKey: conversationsKey });
+        }
+      } else if (msg.type === "userStatus") {
+        queryClient.setQueryData<ConversationActivity[]>(
+          conversationsKey,
+          (old) =>
+            old?.map((conversation) =>
+              conversation.participants.some((p) => p.id === msg.userId)
+                ? {
+                    ...conversation,
+                    participants: conversation.participants.map((p) =>
+                      p.id === msg.userId ? { ...p, status: msg.status } : p,
+                    ),
+                  }
+                : conversation,
+            ),
+        );
+      }
+    }, `conversations-${workspaceId}`);
+  }, [
+    workspaceId,
+    selectedDirectMessageId,
+    currentUser,
+    queryClient,
+    addMessageHandler,
+  ]);
+
+  return (
+    <div className="w-full h-full border-r flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3 border-b">
+        <h2 className="font-semibold">Direct Messages</h2>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => setIsPickerOpen(true)}
+          title="New message"
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-2 space-y-1">
+          {isLoading && (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          )}
+          {!isLoading && conversations?.length === 0 && (
+            <div className="px-2 py-4 text-center text-sm text-muted-foreground">
+              No conversations yet. Start one with the + button.
+            </div>
+          )}
+          {conversations?.map((conversation) => {
+            const isGroup = conversation.participants.length > 1;
+            const partner = isGroup ? null : conversation.participants[0];
+            const hasUnread = conversation.unreadCount > 0;
+
+            return (
+              <button
+                key={conversation.id}
+                onClick={() => onSelectConversation(conversation.id)}
+                className={cn(
+                  "w-full flex items-start gap-3 px-2 py-2 rounded-md text-left text-sm",
+                  "hover:bg-accent hover:text-accent-foreground",
+                  selectedDirectMessageId === conversation.id &&
+                    "bg-accent text-accent-foreground",
+                )}
+              >
+                <div className="relative shrink-0">
+                  <Avatar className="h-8 w-8">
+                    <div className="w-full h-full flex items-center justify-center bg-primary text-primary-foreground text-xs font-medium uppercase">
+                      {isGroup ? (
+                        <Users className="h-4 w-4" />
+                      ) : (
+                        partner?.username[0]
+                      )}
+                    </div>
+                  </Avatar>
+                  {partner && (
+                    <span
+                      className={cn(
+                        "absolute -bottom-0.5 -right-0.5 h-2.5 w-2.5 rounded-full border-2 border-background",
+                        partner.status === "online"
+                          ? "bg-green-500"
+                          : "bg-muted-foreground",
+                      )}
+                      title={partner.status === "online" ? "Online" : "Away"}
+                    />
+                  )}
+                </div>
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-baseline gap-2">
+                    <span
+                      className={cn("truncate flex-1", hasUnread && "font-semibold")}
+                    >
+                      {getConversationName(conversation)}
+                    </span>
+                    {conversation.lastActivityAt && (
+                      <span className="shrink-0 text-xs text-muted-foreground">
+                        {formatDistanceToNowStrict(
+                          new Date(conversation.lastActivityAt),
+                        )}
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span
+                      className={cn(
+                        "truncate flex-1 text-xs",
+                        hasUnread ? "text-foreground" : "text-muted-foreground",
+                      )}
+                    >
+                      {getPreview(conversation, currentUser?.id)}
+                    </span>
+                    {hasUnread && (
+                      <span className="rounded-full bg-destructive px-1.5 text-xs font-medium text-destructive-foreground">
+                        {conversation.unreadCount}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      </ScrollArea>
+
+      <NewDirectMessageDialog
+        workspaceId={workspaceId}
+        users={users?.filter((user) => user.id !== currentUser?.id) ?? []}
+        open={isPickerOpen}
+        onOpenChange={setIsPickerOpen}
+        onOpened={onSelectConversation}
+      />
+    </div>
+  );
+}
@@ -1,47 +1,49 @@
-import { Loader2, MessageSquare } from "lucide-react";
+import { Loader2, MessageSquare, Users } from "lucide-react";
 import { useEffect, useRef } from "react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Avatar } from "@/components/ui/avatar";
 import MessageInput from "./MessageInput";
-import { useDirectMessages } from "@/hooks/use-direct-messages";
+import MessageContent from "./MessageContent";
+import AttachmentList from "./AttachmentList";
+import {
+  useDirectMessages,
+  type Participant,
+} from "@/hooks/use-direct-messages";
 import { useUser } from "@/hooks/use-user";
-import FileUpload from "./FileUpload";
 import { useToast } from "@/hooks/use-toast";
-import type { Message } from "@db/schema";
+import { useMarkRead } from "@/hooks/use-read-state";
+import type { Attachment } from "@db/schema";
 
 type DirectMessageChatProps = {
-  userId: number;
-  username: string;
+  directMessageId: number;
+  // Everyone in the conversation except the current user
+  participants: Participant[];
   workspaceId: number;
-  messages: Array<{
-    message: Message & {
-      directMessageId?: number | null;
-    };
-    user: {
-      id: number;
-      username: string;
-      avatar?: string | null;
-    };
-  }>;
   onThreadSelect: (messageId: number) => void;
+  // Message to scroll to and highlight, e.g. from a search result
+  highlightMessageId?: number | null;
 };
 
 export default function DirectMessageChat({
-  userId,
-  username,
+  directMessageId,
+  participants,
   workspaceId,
-  messages,
   onThreadSelect,
+  highlightMessageId = null,
 }: DirectMessageChatProps) {
-  const { isLoading, sendMessage } = useDirectMessages(
-    workspaceId,
-    userId,
-  );
+  const { messages, isLoading, sendMessage } =
+    useDirectMessages(directMessageId);
   const scrollRef = useRef<HTMLDivElement>(null);
   const { user: currentUser } = useUser();
   const { toast } = useToast();
   const shouldScrollRef = useRef(true);
 
+  useMarkRead({
+    workspaceId,
+    directMessageId,
+    lastMessageId: messages.at(-1)?.message.id,
+  });
+
   // Auto-scroll when new messages arrive
   useEffect(() => {
     const scrollElement = scrollRef.current;
@@ -50,6 +52,17 @@ export default function DirectMessageChat({
     }
   }, [messages]);
 
+  useEffect(() => {
+    if (!highlightMessageId) return;
+    const element = scrollRef.current?.querySelector(
+      `[data-message-id="${highlightMessageId}"]`,
+    );
+    if (element) {
+      element.scrollIntoView({ block: "center" });
+      shouldScrollRef.current = false;
+    }
+  }, [highlightMessageId, messages]);
+
   // Handle scroll events to determine if we should auto-scroll
   const handleScroll = () => {
     const scrollElement = scrollRef.current;
@@ -60,11 +73,11 @@ export default function DirectMessageChat({
     }
   };
 
-  const handleSendMessage = async (content: string) => {
-    if (!content.trim()) return;
+  const handleSendMessage = async (content: string, attachments: Attachment[]) => {
+    if (!content.trim() && attachments.length === 0) return;
 
     try {
-      await sendMessage(content);
+      await sendMessage(content, attachments);
       // Enable auto-scroll when sending a new message
       shouldScrollRef.current = true;
     } catch (error) {
@@ -82,10 +95,16 @@ export default function DirectMessageChat({
       <div className="border-b px-4 py-2 flex items-center space-x-2">
         <Avatar className="h-6 w-6">
           <div className="w-full h-full flex items-center justify-center bg-primary text-primary-foreground text-xs uppercase">
-            {username[0]}
+            {participants.length > 1 ? (
+              <Users className="h-3.5 w-3.5" />
+            ) : (
+              participants[0]?.username[0]
+            )}
           </div>
         </Avatar>
-        <span className="font-medium">{username}</span>
+        <span className="font-medium truncate">
+          {participants.map((participant) => participant.username).join(", ")}
+        </span>
       </div>
 
       <ScrollArea
@@ -116,49 +135,42 @@ export default function DirectMessageChat({
                   {msg.message.userId !== currentUser?.id && (
                     <Avatar className="h-8 w-8">
                       <div className="w-full h-full flex items-center justify-center bg-primary text-primary-foreground text-xs uppercase">
-                        {msg.user.username[0]}
+                        {msg.user?.username[0]}
                       </div>
                     </Avatar>
                   )}
                   <div
+                    data-message-id={msg.message.id}
                     className={`max-w-[70%] ${
                       msg.message.userId === currentUser?.id
                         ? "bg-primary text-primary-foreground"
                         : "bg-secondary"
-                    } rounded-lg p-3`}
+                    } rounded-lg p-3 ${
+                      msg.message.id === highlightMessageId
+                        ? "ring-2 ring-ring ring-offset-2"
+                        : ""
+                    }`}
                   >
                     <div className="flex items-baseline gap-2">
                       <span className="font-semibold text-sm">
-                        {msg.user.username}
+                        {msg.user?.username}
                       </span>
                       <span className="text-xs text-muted-foreground">
                         {new Date(msg.message.createdAt!).toLocaleString()}
                       </span>
                     </div>
-                    <p className="mt-1">{msg.message.content}</p>
+                    <MessageContent content={msg.message.content} className="mt-1" />
                     <div className="mt-2 flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
                       <button
                         onClick={() => onThreadSelect(msg.message.id)}
                         className="text-xs text-muted-foreground hover:text-foreground flex items-center gap-1 transition-colors"
                       >
                         <MessageSquare className="h-4 w-4" />
-                        Thread {msg.message.replyCount > 0 && `(${msg.message.replyCount})`}
+                        Thread {(msg.message.replyCount ?? 0) > 0 && `(${msg.message.replyCount})`}
                       </button>
                     </div>
                     {msg.message.attachments && msg.message.attachments.length > 0 && (
-                      <div className="mt-2 flex gap-2">
-                        {msg.message.attachments.map((attachment, index) => (
-                          <a
-                            key={index}
-                            href={attachment.url}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="text-sm text-blue-500 hover:underline"
-                          >
-                            {attachment.name}
-                          </a>
-                        ))}
-                      </div>
+                      <AttachmentList attachments={msg.message.attachments} />
                     )}
                   </div>
                 </div>
@@ -171,12 +183,7 @@ export default function DirectMessageChat({
       <div className="p-4 border-t">
         <MessageInput
           onSendMessage={handleSendMessage}
-          fileUploadComponent={
-            <FileUpload 
-              channelId={0} 
-              directMessageId={messages[0]?.message?.directMessageId}
-            />
-          }
+          workspaceId={workspaceId}
         />
       </div>
     </div>
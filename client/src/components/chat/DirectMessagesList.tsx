@@ -1,7 +1,20 @@
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { Avatar } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
-import { MessageSquare } from "lucide-react";
+import { MessageSquare, Plus, Users } from "lucide-react";
+import { useWebSocket } from "@/hooks/use-websocket";
+import { useUser } from "@/hooks/use-user";
+import { useToast } from "@/hooks/use-toast";
+import { applyReadState } from "@/hooks/use-read-state";
+import {
+  getConversationName,
+  useConversations,
+  useOpenConversation,
+  type Conversation,
+} from "@/hooks/use-direct-messages";
+import NewDirectMessageDialog from "./NewDirectMessageDialog";
 
 type WorkspaceUser = {
   username: string;
@@ -9,15 +22,15 @@ type WorkspaceUser = {
 };
 
 type DirectMessagesListProps = {
-  selectedUserId: number | null;
-  onSelectUser: (userId: number) => void;
+  selectedDirectMessageId: number | null;
+  onSelectConversation: (directMessageId: number) => void;
   workspaceId: number;
 };
 
-export default function DirectMessagesList({ 
-  selectedUserId, 
-  onSelectUser,
-  workspaceId 
+export default function DirectMessagesList({
+  selectedDirectMessageId,
+  onSelectConversation,
+  workspaceId
 }: DirectMessagesListProps) {
   const { data: users, isLoading, error } = useQuery({
     queryKey: [`/api/workspaces/${workspaceId}/users`],
@@ -30,35 +43,165 @@ export default function DirectMessagesList({
     retry: false
   });
 
-  const displayedUsers = users || [];
+  const queryClient = useQueryClient();
+  const { addMessageHandler } = useWebSocket();
+  const { user: currentUser } = useUser();
+  const { toast } = useToast();
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const conversationsKey = [`/api/workspaces/${workspaceId}/direct-messages`];
+
+  const { data: conversations } = useConversations(workspaceId);
+  const openConversation = useOpenConversation(workspaceId);
+
+  // Keep unread counts live
+  useEffect(() => {
+    return addMessageHandler((msg) => {
+      if (msg.type === "read_state" && msg.directMessageId) {
+        applyReadState(queryClient, workspaceId, {
+          directMessageId: msg.directMessageId,
+          unreadCount: msg.unreadCount,
+          mentionCount: msg.mentionCount,
+          lastReadMessageId: msg.lastReadMessageId,
+        });
+      } else if (
+        msg.type === "dm_message" &&
+        msg.message?.userId !== currentUser?.id &&
+        msg.directMessageId !== selectedDirectMessageId
+      ) {
+        const cached = queryClient.getQueryData<Conversation[]>(conversationsKey);
+        if (!cached?.some((c) => c.id === msg.directMessageId)) {
+          // A conversation we haven't loaded yet
+          queryClient.invalidateQueries({ queryKey: conversationsKey });
+          return;
+        }
+
+        queryClient.setQueryData<Conversation[]>(conversationsKey, (old) =>
+          old?.map((conversation) =>
+            conversation.id === msg.directMessageId
+              ? { ...conversation, unreadCount: conversation.unreadCount + 1 }
+              : conversation,
+          ),
+        );
+      }
+    }, `direct-messages-${workspaceId}`);
+  }, [workspaceId, selectedDirectMessageId, currentUser, queryClient, addMessageHandler]);
+
+  // One-to-one conversations are listed by person, groups on their own
+  const conversationByUser = new Map(
+    conversations
+      ?.filter((c) => c.otherUserId !== null)
+      .map((c) => [c.otherUserId, c]),
+  );
+  const groupConversations =
+    conversations?.filter((c) => c.otherUserId === null) ?? [];
+
+  const displayedUsers =
+    users?.filter((user) => user.id !== currentUser?.id) || [];
+
+  const handleSelectUser = (userId: number) => {
+    const existing = conversationByUser.get(userId);
+    if (existing) {
+      onSelectConversation(existing.id);
+      return;
+    }
+
+    openConversation.mutate([userId], {
+      onSuccess: (conversation) => onSelectConversation(conversation.id),
+      onError: (error: Error) => {
+        toast({
+          title: "Error",
+          description: error.message || "Failed to open conversation",
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  const renderUnread = (unreadCount: number, Icon: typeof MessageSquare) =>
+    unreadCount > 0 ? (
+      <span className="rounded-full bg-destructive px-1.5 text-xs font-medium text-destructive-foreground">
+        {unreadCount}
+      </span>
+    ) : (
+      <Icon className="h-4 w-4 shrink-0 opacity-60" />
+    );
 
   return (
     <div>
       <div className="flex items-center justify-between mb-2">
         <h2 className="font-semibold text-sm">Direct Messages</h2>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={() => setIsPickerOpen(true)}
+          title="New message"
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
       </div>
       <div className="space-y-1">
-        {displayedUsers.map((user) => (
+        {groupConversations.map((conversation) => (
           <button
-            key={user.id}
-            onClick={() => onSelectUser(user.id)}
+            key={conversation.id}
+            onClick={() => onSelectConversation(conversation.id)}
             className={cn(
               "w-full flex items-center space-x-2 px-2 py-1.5 rounded-md text-sm",
               "hover:bg-accent hover:text-accent-foreground",
-              selectedUserId === user.id && "bg-accent text-accent-foreground"
+              selectedDirectMessageId === conversation.id &&
+                "bg-accent text-accent-foreground"
             )}
           >
             <div className="flex items-center gap-2 flex-1 min-w-0">
               <Avatar className="h-6 w-6 shrink-0">
-                <div className="w-full h-full flex items-center justify-center bg-primary text-primary-foreground text-xs font-medium uppercase">
-                  {user.username[0]}
+                <div className="w-full h-full flex items-center justify-center bg-primary text-primary-foreground text-xs font-medium">
+                  {conversation.participants.length}
                 </div>
               </Avatar>
-              <span className="truncate">{user.username}</span>
+              <span
+                className={cn(
+                  "truncate",
+                  conversation.unreadCount > 0 && "font-semibold",
+                )}
+              >
+                {getConversationName(conversation)}
+              </span>
             </div>
-            <MessageSquare className="h-4 w-4 shrink-0 opacity-60" />
+            {renderUnread(conversation.unreadCount, Users)}
           </button>
         ))}
+        {displayedUsers.map((user) => {
+          const conversation = conversationByUser.get(user.id);
+          const unreadCount = conversation?.unreadCount ?? 0;
+
+          return (
+            <button
+              key={user.id}
+              onClick={() => handleSelectUser(user.id)}
+              className={cn(
+                "w-full flex items-center space-x-2 px-2 py-1.5 rounded-md text-sm",
+                "hover:bg-accent hover:text-accent-foreground",
+                conversation &&
+                  selectedDirectMessageId === conversation.id &&
+                  "bg-accent text-accent-foreground"
+              )}
+            >
+              <div className="flex items-center gap-2 flex-1 min-w-0">
+                <Avatar className="h-6 w-6 shrink-0">
+                  <div className="w-full h-full flex items-center justify-center bg-primary text-primary-foreground text-xs font-medium uppercase">
+                    {user.username[0]}
+                  </div>
+                </Avatar>
+                <span
+                  className={cn("truncate", unreadCount > 0 && "font-semibold")}
+                >
+                  {user.username}
+                </span>
+              </div>
+              {renderUnread(unreadCount, MessageSquare)}
+            </button>
+          );
+        })}
         {isLoading && (
           <div className="px-2 py-1 text-sm text-muted-foreground">
             Loading users...
@@ -75,6 +218,14 @@ export default function DirectMessagesList({
           </div>
         )}
       </div>
+
+      <NewDirectMessageDialog
+        workspaceId={workspaceId}
+        users={displayedUsers}
+        open={isPickerOpen}
+        onOpenChange={setIsPickerOpen}
+        onOpened={onSelectConversation}
+      />
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,73 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+
+type EditMessageFormProps = {
+  initialContent: string;
+  onSave: (content: string) => Promise<void>;
+  onCancel: () => void;
+};
+
+export default function EditMessageForm({
+  initialContent,
+  onSave,
+  onCancel,
+}: EditMessageFormProps) {
+  const [content, setContent] = useState(initialContent);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!content.trim() || isSaving) return;
+
+    // Nothing changed, just leave edit mode
+    if (content === initialContent) {
+      onCancel();
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave(content);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      handleSave();
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      onCancel();
+    }
+  };
+
+  return (
+    <div className="mt-1 space-y-2">
+      <Textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        onKeyDown={handleKeyDown}
+        className="min-h-[20px] resize-none"
+        rows={2}
+        autoFocus
+      />
+      <div className="flex items-center gap-2">
+        <Button
+          size="sm"
+          onClick={handleSave}
+          disabled={!content.trim() || isSaving}
+        >
+          {isSaving ? "Saving..." : "Save"}
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+        <span className="text-xs text-muted-foreground">
+          Enter to save, Esc to cancel
+        </span>
+      </div>
+    </div>
+  );
+}
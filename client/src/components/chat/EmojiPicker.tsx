@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { EmojiMartData } from "@emoji-mart/data";
+import { Loader2 } from "lucide-react";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+
+const categoryLabels: Record<string, string> = {
+  people: "Smileys & People",
+  nature: "Animals & Nature",
+  foods: "Food & Drink",
+  activity: "Activity",
+  places: "Travel & Places",
+  objects: "Objects",
+  symbols: "Symbols",
+  flags: "Flags",
+};
+
+// The emoji dataset is large, so it is only loaded the first time a picker
+// opens
+async function loadEmojiData() {
+  const mod = await import("@emoji-mart/data");
+  return (mod as unknown as { default: EmojiMartData }).default;
+}
+
+type EmojiPickerProps = {
+  onSelect: (emoji: string) => void;
+  children: React.ReactNode;
+};
+
+export default function EmojiPicker({ onSelect, children }: EmojiPickerProps) {
+  const [open, setOpen] = useState(false);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["emoji-data"],
+    queryFn: loadEmojiData,
+    enabled: open,
+  });
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent className="w-80 p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search emoji..." />
+          <CommandList className="max-h-72">
+            {isLoading || !data ? (
+              <div className="flex items-center justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <>
+                <CommandEmpty>No emoji found.</CommandEmpty>
+                {data.categories.map((category) => (
+                  <CommandGroup
+                    key={category.id}
+                    heading={categoryLabels[category.id] ?? category.id}
+                    className="[&_[cmdk-group-items]]:grid [&_[cmdk-group-items]]:grid-cols-8"
+                  >
+                    {category.emojis.map((id) => {
+                      const emoji = data.emojis[id];
+                      if (!emoji) return null;
+                      const native = emoji.skins[0].native;
+
+                      return (
+                        <CommandItem
+                          key={id}
+                          value={id}
+                          keywords={[emoji.name, ...emoji.keywords]}
+                          onSelect={() => {
+                            onSelect(native);
+                            setOpen(false);
+                          }}
+                          className="justify-center p-1 text-xl"
+                          title={emoji.name}
+                        >
+                          {native}
+                        </CommandItem>
+                      );
+                    })}
+                  </CommandGroup>
+                ))}
+              </>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,88 +1,60 @@
-import { useState } from "react";
-import { Paperclip, Loader2 } from "lucide-react";
+import { useRef } from "react";
+import { Paperclip } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+
 type FileUploadProps = {
-  channelId: number;
-  directMessageId?: number | null;
+  // Called with the picked files that are within the size limit
+  onSelectFiles: (files: File[]) => void;
+  disabled?: boolean;
 };
 
-export default function FileUpload({ channelId, directMessageId }: FileUploadProps) {
-  const [isUploading, setIsUploading] = useState(false);
+// Paperclip button that picks files to attach. Uploading is left to the
+// caller so files can be staged with the message being written.
+export default function FileUpload({ onSelectFiles, disabled }: FileUploadProps) {
   const { toast } = useToast();
-  const fileInput = document.createElement("input");
-  fileInput.type = "file";
-  fileInput.multiple = true;
-  fileInput.accept = "image/*,.pdf,.doc,.docx,.txt";
-
-  const handleUpload = async (files: FileList) => {
-    setIsUploading(true);
-
-    try {
-      for (const file of Array.from(files)) {
-        if (file.size > 5 * 1024 * 1024) {
-          toast({
-            title: "Error",
-            description: "File size must be less than 5MB",
-            variant: "destructive",
-          });
-          continue;
-        }
-
-        const formData = new FormData();
-        formData.append("file", file);
-        formData.append("channelId", channelId.toString());
-        if (directMessageId) {
-          formData.append("directMessageId", directMessageId.toString());
-        }
-
-        const response = await fetch("/api/upload", {
-          method: "POST",
-          body: formData,
-          credentials: "include",
-        });
+  const fileInput = useRef<HTMLInputElement>(null);
 
-        if (!response.ok) {
-          throw new Error(await response.text());
-        }
-      }
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    // Allow picking the same file again after removing it
+    e.target.value = "";
 
-      toast({
-        title: "Success",
-        description: "Files uploaded successfully",
-      });
-    } catch (error) {
+    const accepted = files.filter((file) => file.size <= MAX_FILE_SIZE);
+    if (accepted.length < files.length) {
       toast({
         title: "Error",
-        description: "Failed to upload files",
+        description: "File size must be less than 5MB",
         variant: "destructive",
       });
-    } finally {
-      setIsUploading(false);
     }
-  };
-
-  fileInput.onchange = (e) => {
-    const files = (e.target as HTMLInputElement).files;
-    if (files) {
-      handleUpload(files);
+    if (accepted.length > 0) {
+      onSelectFiles(accepted);
     }
   };
 
   return (
-    <Button
-      type="button"
-      variant="ghost"
-      size="icon"
-      onClick={() => fileInput.click()}
-      disabled={isUploading}
-    >
-      {isUploading ? (
-        <Loader2 className="h-4 w-4 animate-spin" />
-      ) : (
+    <>
+      <input
+        ref={fileInput}
+        type="file"
+        multiple
+        accept="image/*,.pdf,.doc,.docx,.txt"
+        className="hidden"
+        onChange={handleChange}
+      />
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        onClick={() => fileInput.current?.click()}
+        disabled={disabled}
+      >
         <Paperclip className="h-4 w-4" />
-      )}
-    </Button>
+        <span className="sr-only">Attach files</span>
+      </Button>
+    </>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,240 @@
+import { useState } from "react";
+import { Copy, Link2, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import {
+  getInviteUrl,
+  useWorkspaceInvites,
+  type InviteStatus,
+  type WorkspaceInvite,
+} from "@/hooks/use-invites";
+import { cn } from "@/lib/utils";
+import type { WorkspaceRole } from "@db/schema";
+
+// Select values; "never"/"unlimited" are sent as null
+const EXPIRY_OPTIONS = [
+  { value: "24", label: "1 day" },
+  { value: "168", label: "7 days" },
+  { value: "720", label: "30 days" },
+  { value: "never", label: "Never" },
+];
+
+const MAX_USES_OPTIONS = [
+  { value: "1", label: "1 use" },
+  { value: "10", label: "10 uses" },
+  { value: "100", label: "100 uses" },
+  { value: "unlimited", label: "No limit" },
+];
+
+const STATUS_LABELS: Record<InviteStatus, string> = {
+  active: "Active",
+  expired: "Expired",
+  revoked: "Revoked",
+  used_up: "Used up",
+};
+
+type InviteManagerProps = {
+  workspaceId: number;
+  // Only load the invites while visible
+  enabled?: boolean;
+};
+
+// Create, copy and revoke a workspace's invite links. Also shown in the
+// workspace settings.
+export function InviteManager({ workspaceId, enabled = true }: InviteManagerProps) {
+  const { toast } = useToast();
+  const [role, setRole] = useState<WorkspaceRole>("member");
+  const [expiry, setExpiry] = useState("168");
+  const [maxUses, setMaxUses] = useState("unlimited");
+  const { invites, isLoading, createInvite, revokeInvite } =
+    useWorkspaceInvites(workspaceId, enabled);
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update invites",
+      variant: "destructive",
+    });
+  };
+
+  const copyLink = async (invite: WorkspaceInvite) => {
+    const url = getInviteUrl(invite.token);
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ description: "Invite link copied" });
+    } catch {
+      // Clipboard access needs a secure context; show the link instead
+      toast({ title: "Invite link", description: url });
+    }
+  };
+
+  const handleCreate = () => {
+    createInvite.mutate(
+      {
+        role,
+        expiresInHours: expiry === "never" ? null : parseInt(expiry),
+        maxUses: maxUses === "unlimited" ? null : parseInt(maxUses),
+      },
+      { onSuccess: copyLink, onError },
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-2">
+        <div className="space-y-1">
+          <Label>Role</Label>
+          <Select value={role} onValueChange={(value) => setRole(value as WorkspaceRole)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="member">Member</SelectItem>
+              <SelectItem value="guest">Guest</SelectItem>
+              <SelectItem value="admin">Admin</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Expires after</Label>
+          <Select value={expiry} onValueChange={setExpiry}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Uses</Label>
+          <Select value={maxUses} onValueChange={setMaxUses}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MAX_USES_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <Button onClick={handleCreate} disabled={createInvite.isPending}>
+        <Link2 className="h-4 w-4 mr-1" />
+        {createInvite.isPending ? "Creating..." : "Create and copy link"}
+      </Button>
+
+      <ScrollArea className="max-h-72">
+        {isLoading ? (
+          <div className="py-4 text-center text-sm text-muted-foreground">
+            Loading invites...
+          </div>
+        ) : invites.length === 0 ? (
+          <div className="py-4 text-center text-sm text-muted-foreground">
+            No invite links yet
+          </div>
+        ) : (
+          <div className="space-y-1">
+            {invites.map((invite) => {
+              const isActive = invite.status === "active";
+              return (
+                <div
+                  key={invite.id}
+                  className={cn(
+                    "flex items-center gap-2 rounded-md px-2 py-1.5 text-sm",
+                    !isActive && "text-muted-foreground",
+                  )}
+                >
+                  <div className="min-w-0 flex-1">
+                    <div className="font-medium capitalize">
+                      {invite.role}
+                      {!isActive && ` · ${STATUS_LABELS[invite.status]}`}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {invite.useCount}
+                      {invite.maxUses !== null ? `/${invite.maxUses}` : ""} used
+                      {" · "}
+                      {invite.expiresAt
+                        ? `expires ${new Date(invite.expiresAt).toLocaleString()}`
+                        : "never expires"}
+                      {" · by "}
+                      {invite.createdBy.username}
+                    </div>
+                  </div>
+                  {isActive && (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => copyLink(invite)}
+                      >
+                        <Copy className="h-4 w-4" />
+                        <span className="sr-only">Copy invite link</span>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() =>
+                          revokeInvite.mutate(invite.id, { onError })
+                        }
+                        disabled={revokeInvite.isPending}
+                      >
+                        <X className="h-4 w-4" />
+                        <span className="sr-only">Revoke invite link</span>
+                      </Button>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  );
+}
+
+type InvitesDialogProps = {
+  workspaceId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+export default function InvitesDialog({
+  workspaceId,
+  open,
+  onOpenChange,
+}: InvitesDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Invite people</DialogTitle>
+        </DialogHeader>
+        <InviteManager workspaceId={workspaceId} enabled={open} />
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,146 @@
+import { useMemo } from "react";
+import Markdown, { type Components, type Options } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import remarkBreaks from "remark-breaks";
+import rehypeHighlight from "rehype-highlight";
+import type { Root, RootContent, Text } from "mdast";
+import { useUser } from "@/hooks/use-user";
+import { cn } from "@/lib/utils";
+import "highlight.js/styles/github.css";
+
+// Same rules as the server's parser (server/mentions.ts)
+const MENTION_PATTERN = /(^|[^\w@])@(\w[\w.-]*)/g;
+
+// The Markdown subset messages support. Anything else (headings, tables,
+// images, raw HTML) is unwrapped to its text.
+const ALLOWED_ELEMENTS = [
+  "p",
+  "br",
+  "strong",
+  "em",
+  "del",
+  "code",
+  "pre",
+  "blockquote",
+  "ul",
+  "ol",
+  "li",
+  "a",
+  // Mentions and syntax-highlighted code
+  "span",
+];
+
+const rehypePlugins: Options["rehypePlugins"] = [
+  [rehypeHighlight, { detect: true }],
+];
+
+const components: Components = {
+  a: ({ node, ...props }) => (
+    <a
+      {...props}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="text-primary underline underline-offset-2"
+    />
+  ),
+};
+
+function splitMentions(node: Text, currentUsername?: string): Text[] {
+  const parts: Text[] = [];
+  let lastIndex = 0;
+
+  for (const match of Array.from(node.value.matchAll(MENTION_PATTERN))) {
+    const [, prefix, rawName] = match;
+    const name = rawName.replace(/[.-]+$/, "");
+    const start = match.index! + prefix.length;
+    const lowerName = name.toLowerCase();
+    const isForMe =
+      lowerName === "channel" ||
+      lowerName === "here" ||
+      lowerName === currentUsername?.toLowerCase();
+
+    parts.push({ type: "text", value: node.value.slice(lastIndex, start) });
+    parts.push({
+      type: "text",
+      value: `@${name}`,
+      data: {
+        hName: "span",
+        hProperties: {
+          className: [
+            "rounded",
+            "px-0.5",
+            "font-medium",
+            ...(isForMe
+              ? ["bg-primary", "text-primary-foreground"]
+              : ["bg-primary/10", "text-primary"]),
+          ],
+        },
+      },
+    });
+    lastIndex = start + name.length + 1;
+  }
+
+  if (parts.length === 0) return [node];
+  parts.push({ type: "text", value: node.value.slice(lastIndex) });
+  return parts.filter((part) => part.value.length > 0);
+}
+
+// Remark plugin that turns @mentions in plain text (not code or link text)
+// into highlighted spans
+function remarkMentions(options: { currentUsername?: string }) {
+  const visit = (nodes: RootContent[]): RootContent[] =>
+    nodes.flatMap((node): RootContent[] => {
+      if (node.type === "text") {
+        return splitMentions(node, options.currentUsername);
+      }
+      if ("children" in node && node.type !== "link") {
+        node.children = visit(node.children) as typeof node.children;
+      }
+      return [node];
+    });
+
+  return (tree: Root) => {
+    tree.children = visit(tree.children);
+  };
+}
+
+type MessageContentProps = {
+  content: string;
+  className?: string;
+};
+
+// Message text rendered as a safe Markdown subset with @mentions
+// highlighted. Mentions that reach the current user, including @channel and
+// @here, stand out more.
+export default function MessageContent({ content, className }: MessageContentProps) {
+  const { user } = useUser();
+  const remarkPlugins = useMemo<Options["remarkPlugins"]>(
+    // remarkBreaks keeps single newlines as line breaks, as expected in chat
+    () => [remarkGfm, remarkBreaks, [remarkMentions, { currentUsername: user?.username }]],
+    [user?.username],
+  );
+
+  return (
+    <div
+      className={cn(
+        "prose prose-sm max-w-none break-words text-foreground",
+        "prose-p:my-0 prose-ul:my-1 prose-ol:my-1 prose-li:my-0 prose-pre:my-1",
+        "prose-blockquote:my-1 prose-blockquote:font-normal prose-blockquote:text-muted-foreground",
+        "prose-code:rounded prose-code:bg-muted prose-code:px-1 prose-code:py-0.5 prose-code:font-normal prose-code:before:content-none prose-code:after:content-none",
+        "prose-pre:bg-muted prose-pre:text-foreground prose-pre:p-2 [&_pre_code]:bg-transparent [&_pre_code]:p-0",
+        className,
+      )}
+    >
+      <Markdown
+        remarkPlugins={remarkPlugins}
+        rehypePlugins={rehypePlugins}
+        allowedElements={ALLOWED_ELEMENTS}
+        unwrapDisallowed
+        skipHtml
+        components={components}
+      >
+        {content}
+      </Markdown>
+    </div>
+  );
+}
@@ -1,28 +1,241 @@
-import { useState, type FormEvent } from "react";
-import { Send, Bold, Italic, ChevronUp, ChevronDown } from "lucide-react";
+import { useRef, useState, type FormEvent } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Send,
+  Bold,
+  Italic,
+  Strikethrough,
+  Code,
+  SquareCode,
+  Quote,
+  List,
+  ListOrdered,
+  Link,
+  ChevronUp,
+  ChevronDown,
+  FileIcon,
+  Loader2,
+  X,
+  type LucideIcon,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Progress } from "@/components/ui/progress";
+import { useUser } from "@/hooks/use-user";
+import { useStagedAttachments } from "@/hooks/use-staged-attachments";
+import { cn } from "@/lib/utils";
+import type { Attachment } from "@db/schema";
+import FileUpload from "./FileUpload";
 
 type MessageInputProps = {
-  onSendMessage: (content: string, options?: { parentId?: number }) => void;
-  fileUploadComponent: React.ReactNode;
+  onSendMessage: (content: string, attachments: Attachment[]) => void;
+  // Enables @mention autocomplete for the workspace's members
+  workspaceId?: number;
 };
 
-export default function MessageInput({ onSendMessage, fileUploadComponent }: MessageInputProps) {
+type MentionSuggestion = {
+  name: string;
+  description?: string;
+};
+
+// An @mention being typed right before the caret
+const MENTION_QUERY_PATTERN = /(^|[^\w@])@([\w.-]*)$/;
+// Usernames that the server's mention parser can match
+const MENTIONABLE_PATTERN = /^\w[\w.-]*$/;
+const SPECIAL_MENTIONS: MentionSuggestion[] = [
+  { name: "channel", description: "Notify everyone in this conversation" },
+  { name: "here", description: "Notify everyone who is online" },
+];
+const MAX_SUGGESTIONS = 8;
+
+type Format =
+  | "bold"
+  | "italic"
+  | "strike"
+  | "code"
+  | "codeBlock"
+  | "quote"
+  | "bulletList"
+  | "orderedList"
+  | "link";
+
+const FORMAT_BUTTONS: Array<{ format: Format; label: string; icon: LucideIcon }> = [
+  { format: "bold", label: "Bold", icon: Bold },
+  { format: "italic", label: "Italic", icon: Italic },
+  { format: "strike", label: "Strikethrough", icon: Strikethrough },
+  { format: "code", label: "Inline code", icon: Code },
+  { format: "codeBlock", label: "Code block", icon: SquareCode },
+  { format: "quote", label: "Quote", icon: Quote },
+  { format: "bulletList", label: "Bulleted list", icon: List },
+  { format: "orderedList", label: "Numbered list", icon: ListOrdered },
+  { format: "link", label: "Link", icon: Link },
+];
+
+// Formats that apply to whole lines and must start on a new line
+const BLOCK_FORMATS: Format[] = ["codeBlock", "quote", "bulletList", "orderedList"];
+
+// Markdown replacing the selected text, and the part of it to select
+// afterwards so the user can keep typing over placeholders
+function formatSelection(format: Format, selected: string) {
+  const wrap = (prefix: string, suffix: string, placeholder: string) => {
+    const inner = selected || placeholder;
+    return {
+      text: prefix + inner + suffix,
+      select: [prefix.length, prefix.length + inner.length] as const,
+    };
+  };
+  const prefixLines = (prefix: (index: number) => string, placeholder: string) => {
+    const text = (selected || placeholder)
+      .split("\n")
+      .map((line, index) => prefix(index) + line)
+      .join("\n");
+    return { text, select: [0, text.length] as const };
+  };
+
+  switch (format) {
+    case "bold":
+      return wrap("**", "**", "bold text");
+    case "italic":
+      return wrap("_", "_", "italic text");
+    case "strike":
+      return wrap("~~", "~~", "strikethrough");
+    case "code":
+      return wrap("`", "`", "code");
+    case "codeBlock":
+      return wrap("```\n", "\n```", "code");
+    case "quote":
+      return prefixLines(() => "> ", "quote");
+    case "bulletList":
+      return prefixLines(() => "- ", "item");
+    case "orderedList":
+      return prefixLines((index) => `${index + 1}. `, "item");
+    case "link": {
+      const text = `[${selected || "link text"}](url)`;
+      return { text, select: [text.length - 4, text.length - 1] as const };
+    }
+  }
+}
+
+export default function MessageInput({
+  onSendMessage,
+  workspaceId,
+}: MessageInputProps) {
   const [content, setContent] = useState("");
   const [showToolbar, setShowToolbar] = useState(true);
-  const [format, setFormat] = useState<string[]>([]);
+  const [mention, setMention] = useState<{ start: number; query: string } | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const { user } = useUser();
+  const {
+    staged,
+    addFiles,
+    remove: removeAttachment,
+    clear: clearAttachments,
+    isUploading,
+    attachments,
+  } = useStagedAttachments(workspaceId);
+  // Attachment-only messages are allowed; wait for uploads to finish
+  const canSend = (!!content.trim() || attachments.length > 0) && !isUploading;
+
+  const { data: workspaceUsers = [] } = useQuery<{ id: number; username: string }[]>({
+    queryKey: [`/api/workspaces/${workspaceId}/users`],
+    enabled: !!workspaceId,
+  });
+
+  const suggestions: MentionSuggestion[] = mention
+    ? [
+        ...workspaceUsers
+          .filter(
+            (u) => u.id !== user?.id && MENTIONABLE_PATTERN.test(u.username),
+          )
+          .map((u) => ({ name: u.username })),
+        ...SPECIAL_MENTIONS,
+      ]
+        .filter((s) => s.name.toLowerCase().startsWith(mention.query.toLowerCase()))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+  const isSuggesting = suggestions.length > 0;
+
+  // Track the @mention under the caret, if any
+  const updateMention = (value: string, caret: number) => {
+    if (!workspaceId) return;
+    const match = value.slice(0, caret).match(MENTION_QUERY_PATTERN);
+    setMention(match ? { start: caret - match[2].length - 1, query: match[2] } : null);
+    setActiveIndex(0);
+  };
+
+  const insertMention = (name: string) => {
+    if (!mention) return;
+    const caret = mention.start + mention.query.length + 1;
+    const inserted = `@${name} `;
+    setContent(content.slice(0, mention.start) + inserted + content.slice(caret));
+    setMention(null);
+
+    const nextCaret = mention.start + inserted.length;
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  // Wrap or prefix the selection with Markdown syntax
+  const applyFormat = (format: Format) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const { selectionStart: start, selectionEnd: end } = textarea;
+    const { text, select } = formatSelection(format, content.slice(start, end));
+    const newline =
+      BLOCK_FORMATS.includes(format) && start > 0 && content[start - 1] !== "\n"
+        ? "\n"
+        : "";
+
+    setContent(content.slice(0, start) + newline + text + content.slice(end));
+    setMention(null);
+
+    const offset = start + newline.length;
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(offset + select[0], offset + select[1]);
+    });
+  };
 
   const handleSubmit = (e: FormEvent) => {
     e.preventDefault();
-    if (content.trim()) {
-      onSendMessage(content);
+    if (canSend) {
+      onSendMessage(content, attachments);
       setContent("");
+      setMention(null);
+      clearAttachments();
     }
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (isSuggesting) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setActiveIndex((index) => (index + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        insertMention(suggestions[Math.min(activeIndex, suggestions.length - 1)].name);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setMention(null);
+        return;
+      }
+    }
+
+    if ((e.metaKey || e.ctrlKey) && (e.key === "b" || e.key === "i")) {
+      e.preventDefault();
+      applyFormat(e.key === "b" ? "bold" : "italic");
+      return;
+    }
+
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
       handleSubmit(e);
@@ -34,28 +247,107 @@ export default function MessageInput({ onSendMessage, fileUploadComponent }: Mes
       {/* Formatting Toolbar */}
       {showToolbar && (
         <div className="flex items-center gap-1 p-2 bg-secondary/20 rounded-md">
-          <ToggleGroup 
-            type="multiple" 
-            value={format} 
-            onValueChange={setFormat}
-            className="flex items-center gap-1"
-          >
-            <ToggleGroupItem value="bold" aria-label="Toggle bold">
-              <Bold className="h-4 w-4" />
-            </ToggleGroupItem>
-            <ToggleGroupItem value="italic" aria-label="Toggle italic">
-              <Italic className="h-4 w-4" />
-            </ToggleGroupItem>
-          </ToggleGroup>
+          {FORMAT_BUTTONS.map(({ format, label, icon: Icon }) => (
+            <Button
+              key={format}
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              title={label}
+              aria-label={label}
+              // Keep the textarea's selection
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => applyFormat(format)}
+            >
+              <Icon className="h-4 w-4" />
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {/* Staged attachments */}
+      {staged.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {staged.map((item) => (
+            <div
+              key={item.id}
+              className={cn(
+                "flex w-48 flex-col gap-1 rounded-md border px-2 py-1.5 text-xs",
+                item.status === "failed" && "border-destructive text-destructive",
+              )}
+            >
+              <div className="flex items-center gap-1">
+                {item.status === "uploading" ? (
+                  <Loader2 className="h-3 w-3 shrink-0 animate-spin" />
+                ) : (
+                  <FileIcon className="h-3 w-3 shrink-0" />
+                )}
+                <span className="flex-1 truncate" title={item.name}>
+                  {item.name}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => removeAttachment(item.id)}
+                  className="rounded-sm opacity-70 hover:opacity-100"
+                >
+                  <X className="h-3 w-3" />
+                  <span className="sr-only">Remove {item.name}</span>
+                </button>
+              </div>
+              {item.status === "uploading" && (
+                <Progress value={item.progress} className="h-1" />
+              )}
+              {item.status === "failed" && <span>{item.error}</span>}
+            </div>
+          ))}
         </div>
       )}
 
       {/* Message Input Form */}
       <form onSubmit={handleSubmit} className="flex gap-2">
-        <div className="flex-1">
+        <div className="relative flex-1">
+          {isSuggesting && (
+            <div
+              role="listbox"
+              className="absolute bottom-full left-0 z-10 mb-1 w-64 overflow-hidden rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+            >
+              {suggestions.map((suggestion, index) => (
+                <button
+                  key={suggestion.name}
+                  type="button"
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  // Keep focus in the textarea
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => insertMention(suggestion.name)}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  className={cn(
+                    "flex w-full items-baseline gap-2 rounded-sm px-2 py-1.5 text-left text-sm",
+                    index === activeIndex && "bg-accent text-accent-foreground",
+                  )}
+                >
+                  <span className="font-medium">@{suggestion.name}</span>
+                  {suggestion.description && (
+                    <span className="truncate text-xs text-muted-foreground">
+                      {suggestion.description}
+                    </span>
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
           <Textarea
+            ref={textareaRef}
             value={content}
-            onChange={(e) => setContent(e.target.value)}
+            onChange={(e) => {
+              setContent(e.target.value);
+              updateMention(e.target.value, e.target.selectionStart);
+            }}
+            onSelect={(e) =>
+              updateMention(e.currentTarget.value, e.currentTarget.selectionStart)
+            }
+            onBlur={() => setMention(null)}
             onKeyDown={handleKeyDown}
             placeholder="Type a message..."
             className="min-h-[20px] resize-none"
@@ -63,9 +355,9 @@ export default function MessageInput({ onSendMessage, fileUploadComponent }: Mes
           />
         </div>
 
-        {fileUploadComponent}
+        <FileUpload onSelectFiles={addFiles} disabled={!workspaceId} />
 
-        <Button type="submit" size="icon" disabled={!content.trim()}>
+        <Button type="submit" size="icon" disabled={!canSend}>
           <Send className="h-4 w-4" />
         </Button>
       </form>
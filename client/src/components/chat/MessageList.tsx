@@ -1,19 +1,72 @@
-import { useEffect, useRef } from "react";
-import { useMessages } from "@/hooks/use-messages";
+import {
+  Fragment,
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useState,
+} from "react";
+import {
+  useMessages,
+  isMessageEdited,
+  addChannelMessage,
+  mapChannelMessages,
+  updateCachedMessage,
+  updateCachedReactions,
+  removeCachedMessage,
+  type ReactionSummary,
+} from "@/hooks/use-messages";
 import { useWebSocket } from "@/hooks/use-websocket";
+import { useUser } from "@/hooks/use-user";
+import { useToast } from "@/hooks/use-toast";
+import { useMarkRead } from "@/hooks/use-read-state";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
-import { MessageSquare, Smile } from "lucide-react";
-import { useQueryClient } from "@tanstack/react-query";
+import {
+  MessageSquare,
+  Smile,
+  Pencil,
+  Trash2,
+  Hash,
+  Lock,
+  Users,
+  Settings2,
+  Archive,
+} from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import MessageInput from "./MessageInput";
-import FileUpload from "./FileUpload";
-import type { Message } from "@db/schema";
+import MessageContent from "./MessageContent";
+import AttachmentList from "./AttachmentList";
+import EditMessageForm from "./EditMessageForm";
+import DeleteMessageDialog from "./DeleteMessageDialog";
+import EmojiPicker from "./EmojiPicker";
+import ChannelMembersDialog from "./ChannelMembersDialog";
+import ChannelSettingsDialog from "./ChannelSettingsDialog";
+import { cn } from "@/lib/utils";
+import type { Attachment, Message } from "@db/schema";
 
 type MessageListProps = {
   channelId: number | null;
   channelName?: string;
+  topic?: string | null;
+  description?: string | null;
+  workspaceId?: number;
+  isPrivate?: boolean;
+  // Archived channels are read-only
+  isArchived?: boolean;
+  // Non-members can read public channels but must join to post
+  isMember?: boolean;
+  // Whether the current user may remove other channel members and change
+  // the channel's settings
+  canManageChannel?: boolean;
+  // The user's read marker, used for the "New messages" divider
+  lastReadMessageId?: number | null;
   onThreadSelect: (messageId: number) => void;
+  // Whether the current user may delete other people's messages
+  canModerate?: boolean;
+  // Message to scroll to and highlight, e.g. from a search result
+  highlightMessageId?: number | null;
 };
 
 type ChannelMessage = Message & {
@@ -22,31 +75,148 @@ type ChannelMessage = Message & {
     username: string;
     avatar?: string | null;
   };
-  attachments?: Array<{ url: string; name: string }> | null;
+  attachments?: Attachment[] | null;
   replyCount?: number; // Added replyCount
+  reactions?: ReactionSummary[];
 };
 
 export default function MessageList({
   channelId,
   channelName,
+  topic = null,
+  description = null,
+  workspaceId,
+  isPrivate = false,
+  isArchived = false,
+  isMember = true,
+  canManageChannel = false,
+  lastReadMessageId = null,
   onThreadSelect,
+  canModerate = false,
+  highlightMessageId = null,
 }: MessageListProps) {
-  const { messages, isLoading, sendMessage, addReaction } = useMessages(
-    channelId ?? 0,
-  );
-  const { addMessageHandler, sendMessage: sendWebSocketMessage } =
-    useWebSocket();
+  const {
+    messages,
+    isLoading,
+    sendMessage,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
+    fetchOlderMessages,
+    hasOlderMessages,
+    isFetchingOlderMessages,
+  } = useMessages(channelId ?? 0);
+  const { addMessageHandler } = useWebSocket();
+  const { user } = useUser();
+  const { toast } = useToast();
   const scrollRef = useRef<HTMLDivElement>(null);
   const queryClient = useQueryClient();
   const cleanupRef = useRef<(() => void) | null>(null);
+  const [isMembersOpen, setIsMembersOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  // Read marker as it was when the channel was opened, so the divider stays
+  // put while the marker advances
+  const [readMarker, setReadMarker] = useState<{
+    channelId: number;
+    messageId: number | null;
+  } | null>(null);
+
+  useEffect(() => {
+    if (channelId && readMarker?.channelId !== channelId) {
+      setReadMarker({ channelId, messageId: lastReadMessageId });
+    }
+  }, [channelId, lastReadMessageId, readMarker]);
+
+  const lastRootMessageId =
+    messages?.filter((msg) => !msg.parentId).at(-1)?.id ?? null;
+
+  useMarkRead({
+    workspaceId,
+    channelId,
+    lastMessageId: lastRootMessageId,
+    lastReadMessageId,
+    enabled: isMember,
+  });
+  // Distance from the bottom to restore once an older page is rendered
+  const restoreOffsetRef = useRef<number | null>(null);
+  const lastMessageIdRef = useRef<number | null>(null);
+  const highlightedRef = useRef<number | null>(null);
+
+  const getViewport = () =>
+    scrollRef.current?.querySelector<HTMLDivElement>(
+      "[data-radix-scroll-area-viewport]",
+    ) ?? null;
+
+  const loadOlderMessages = useCallback(() => {
+    const viewport = getViewport();
+    if (!viewport || !hasOlderMessages || isFetchingOlderMessages) return;
+
+    restoreOffsetRef.current = viewport.scrollHeight - viewport.scrollTop;
+    fetchOlderMessages();
+  }, [hasOlderMessages, isFetchingOlderMessages, fetchOlderMessages]);
 
-  // Auto-scroll when new messages arrive
+  // Load older history when the user scrolls near the top
   useEffect(() => {
-    const scrollElement = scrollRef.current;
-    if (scrollElement) {
-      scrollElement.scrollTop = scrollElement.scrollHeight;
+    const viewport = getViewport();
+    if (!viewport) return;
+
+    const handleScroll = () => {
+      if (viewport.scrollTop < 100) {
+        loadOlderMessages();
+      }
+    };
+
+    viewport.addEventListener("scroll", handleScroll);
+    return () => viewport.removeEventListener("scroll", handleScroll);
+  }, [loadOlderMessages, isLoading]);
+
+  // Keep the reader's place when older messages are prepended, and follow
+  // the conversation when a new message arrives at the bottom
+  useLayoutEffect(() => {
+    const viewport = getViewport();
+    if (!viewport || !messages) return;
+
+    const lastMessageId = messages[messages.length - 1]?.id ?? null;
+
+    if (restoreOffsetRef.current !== null && !isFetchingOlderMessages) {
+      viewport.scrollTop = viewport.scrollHeight - restoreOffsetRef.current;
+      restoreOffsetRef.current = null;
+    } else if (lastMessageId !== lastMessageIdRef.current) {
+      viewport.scrollTop = viewport.scrollHeight;
+    }
+    lastMessageIdRef.current = lastMessageId;
+
+    // The first page may not fill the view, leaving nothing to scroll
+    if (viewport.scrollHeight <= viewport.clientHeight) {
+      loadOlderMessages();
     }
-  }, [messages]);
+  }, [messages, isFetchingOlderMessages, loadOlderMessages]);
+
+  // Bring the highlighted message into view, paging back through history
+  // until it is loaded
+  useEffect(() => {
+    if (!highlightMessageId) {
+      highlightedRef.current = null;
+      return;
+    }
+    if (!messages || highlightedRef.current === highlightMessageId) return;
+
+    const element = scrollRef.current?.querySelector(
+      `[data-message-id="${highlightMessageId}"]`,
+    );
+    if (element) {
+      element.scrollIntoView({ block: "center" });
+      highlightedRef.current = highlightMessageId;
+    } else if (hasOlderMessages && !isFetchingOlderMessages) {
+      fetchOlderMessages();
+    }
+  }, [
+    highlightMessageId,
+    messages,
+    hasOlderMessages,
+    isFetchingOlderMessages,
+    fetchOlderMessages,
+  ]);
 
   // Set up channel message handler
   useEffect(() => {
@@ -60,44 +230,47 @@ export default function MessageList({
           if (msg.type === "message" && msg.channelId === channelId) {
             console.log("MessageList received channel message:", msg);
 
-            const newMessage = msg.newMessage as ChannelMessage;
+            const newMessage = msg.message as ChannelMessage;
             if (!newMessage) {
               console.log("No message data in WebSocket message");
               return;
             }
-            queryClient.setQueryData<ChannelMessage[]>(
-              [`/api/channels/${channelId}/messages`],
-              (oldMessages = []) => {
-                console.log("Updating message cache", {
-                  oldMessages,
-                  newMessage,
-                });
-
-                if (!oldMessages) return [newMessage];
-
-                // Check if message already exists
-                const messageExists = oldMessages.some(
-                  (m) => m.id === newMessage.id,
-                );
-                if (messageExists) {
-                  return oldMessages.map((m) =>
-                    m.id === newMessage.id ? { ...m, ...newMessage } : m,
-                  );
-                }
-
-                // Only add message if it's not a thread reply
-                if (!newMessage.parentId) {
-                  const updatedMessages = [...oldMessages, newMessage];
-                  return updatedMessages.sort(
-                    (a, b) =>
-                      new Date(a.createdAt!).getTime() -
-                      new Date(b.createdAt!).getTime(),
-                  );
-                }
-
-                return oldMessages;
-              },
+            addChannelMessage(queryClient, newMessage);
+          } else if (
+            msg.type === "thread_message" &&
+            msg.channelId === channelId
+          ) {
+            // Keep the parent's reply count in sync with the server
+            mapChannelMessages(queryClient, channelId, (messages) =>
+              messages.map((m) =>
+                m.id === msg.parentId ? { ...m, replyCount: msg.replyCount } : m,
+              ),
             );
+          } else if (
+            msg.type === "message_updated" &&
+            msg.channelId === channelId
+          ) {
+            updateCachedMessage(queryClient, msg.message);
+          } else if (
+            msg.type === "message_deleted" &&
+            msg.channelId === channelId
+          ) {
+            removeCachedMessage(queryClient, {
+              message: msg.message,
+              parentId: msg.parentId,
+              replyCount: msg.replyCount,
+            });
+          } else if (
+            (msg.type === "reaction_added" ||
+              msg.type === "reaction_removed") &&
+            msg.channelId === channelId
+          ) {
+            updateCachedReactions(queryClient, {
+              messageId: msg.messageId,
+              channelId: msg.channelId,
+              parentId: msg.parentId,
+              reactions: msg.reactions,
+            });
           }
         } catch (error) {
           console.error("Error handling channel message:", error);
@@ -120,20 +293,67 @@ export default function MessageList({
     };
   }, [channelId, queryClient, addMessageHandler]);
 
-  const handleSendMessage = async (content: string) => {
+  const joinChannel = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/channels/${channelId}/join`, {
+        method: "POST",
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        throw new Error((await response.json()).error);
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: [`/api/workspaces/${workspaceId}/channels`],
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to join channel",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSendMessage = async (content: string, attachments: Attachment[]) => {
     if (!channelId) return;
 
     try {
-      const newMessage = await sendMessage({ content });
-      console.log("Sending channel message:", newMessage);
+      await sendMessage({ content, attachments });
+    } catch (error) {
+      console.error("Error sending channel message:", error);
+    }
+  };
 
-      sendWebSocketMessage({
-        type: "message",
-        channelId,
-        newMessage,
+  const handleEditMessage = async (messageId: number, content: string) => {
+    try {
+      await editMessage({ messageId, content });
+    } catch (error) {
+      console.error("Error editing message:", error);
+      toast({
+        title: "Error",
+        description: "Failed to edit message",
+        variant: "destructive",
       });
+      throw error;
+    }
+  };
+
+  const handleDeleteMessage = async (messageId: number) => {
+    try {
+      await deleteMessage(messageId);
     } catch (error) {
-      console.error("Error sending channel message:", error);
+      console.error("Error deleting message:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete message",
+        variant: "destructive",
+      });
     }
   };
 
@@ -156,34 +376,143 @@ export default function MessageList({
   // Filter out thread replies from the main channel view
   const channelMessages = messages?.filter((msg) => !msg.parentId) || [];
 
+  // First message from someone else after the read marker
+  const firstUnreadId =
+    readMarker?.channelId === channelId && readMarker.messageId !== null
+      ? channelMessages.find(
+          (msg) => msg.id > readMarker.messageId! && msg.userId !== user?.id,
+        )?.id
+      : undefined;
+
   return (
     <div className="h-full flex flex-col">
-      <div className="border-b px-4 py-2">
-        <h2 className="font-semibold"># {channelName || "Channel Messages"}</h2>
+      <div className="border-b px-4 py-2 flex items-center justify-between gap-4">
+        <div className="min-w-0">
+          <h2 className="font-semibold flex items-center gap-1">
+            {isArchived ? (
+              <Archive className="h-4 w-4" />
+            ) : isPrivate ? (
+              <Lock className="h-4 w-4" />
+            ) : (
+              <Hash className="h-4 w-4" />
+            )}
+            {channelName || "Channel Messages"}
+          </h2>
+          {topic && (
+            <p
+              className="text-xs text-muted-foreground truncate"
+              title={description ?? undefined}
+            >
+              {topic}
+            </p>
+          )}
+        </div>
+        {workspaceId && (
+          <div className="flex items-center shrink-0">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsMembersOpen(true)}
+            >
+              <Users className="h-4 w-4 mr-1" />
+              Members
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsSettingsOpen(true)}
+            >
+              <Settings2 className="h-4 w-4 mr-1" />
+              Settings
+            </Button>
+          </div>
+        )}
       </div>
+      {workspaceId && (
+        <>
+          <ChannelMembersDialog
+            channelId={channelId}
+            channelName={channelName || ""}
+            workspaceId={workspaceId}
+            isPrivate={isPrivate}
+            canManage={canManageChannel}
+            open={isMembersOpen}
+            onOpenChange={setIsMembersOpen}
+          />
+          <ChannelSettingsDialog
+            channelId={channelId}
+            workspaceId={workspaceId}
+            channel={{ name: channelName || "", topic, description }}
+            isArchived={isArchived}
+            isMember={isMember}
+            canManage={canManageChannel}
+            open={isSettingsOpen}
+            onOpenChange={setIsSettingsOpen}
+          />
+        </>
+      )}
 
       <div className="flex-1 overflow-hidden" ref={scrollRef}>
         <ScrollArea className="h-full">
           <div className="p-4 space-y-4">
+            {isFetchingOlderMessages && (
+              <div className="text-center text-sm text-muted-foreground">
+                Loading earlier messages...
+              </div>
+            )}
             {channelMessages.map((message) => (
-              <MessageItem
-                key={message.id}
-                message={message as ChannelMessage}
-                onThreadSelect={onThreadSelect}
-                onReactionAdd={(emoji) =>
-                  addReaction({ messageId: message.id, emoji })
-                }
-              />
+              <Fragment key={message.id}>
+                {message.id === firstUnreadId && (
+                  <div className="flex items-center gap-2 text-xs font-medium text-destructive">
+                    <div className="h-px flex-1 bg-destructive" />
+                    New messages
+                    <div className="h-px flex-1 bg-destructive" />
+                  </div>
+                )}
+                <MessageItem
+                  message={message as ChannelMessage}
+                  currentUserId={user?.id}
+                  isHighlighted={message.id === highlightMessageId}
+                  readOnly={isArchived}
+                  canEdit={message.userId === user?.id}
+                  canDelete={message.userId === user?.id || canModerate}
+                  onThreadSelect={onThreadSelect}
+                  onReactionToggle={(emoji) =>
+                    toggleReaction({ messageId: message.id, emoji })
+                  }
+                  onEdit={(content) => handleEditMessage(message.id, content)}
+                  onDelete={() => handleDeleteMessage(message.id)}
+                />
+              </Fragment>
             ))}
           </div>
         </ScrollArea>
       </div>
 
       <div className="p-4 border-t">
-        <MessageInput
-          onSendMessage={handleSendMessage}
-          fileUploadComponent={<FileUpload channelId={channelId} />}
-        />
+        {isArchived ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Archive className="h-4 w-4" />
+            <span>
+              #{channelName} is archived. Its history is read-only.
+            </span>
+          </div>
+        ) : isMember ? (
+          <MessageInput
+            onSendMessage={handleSendMessage}
+            workspaceId={workspaceId}
+          />
+        ) : (
+          <div className="flex items-center justify-between gap-4 text-sm text-muted-foreground">
+            <span>You are viewing #{channelName}. Join to send messages.</span>
+            <Button
+              onClick={() => joinChannel.mutate()}
+              disabled={joinChannel.isPending}
+            >
+              {joinChannel.isPending ? "Joining..." : "Join channel"}
+            </Button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -191,19 +520,68 @@ export default function MessageList({
 
 type MessageItemProps = {
   message: ChannelMessage;
+  currentUserId?: number;
+  isHighlighted?: boolean;
+  // No new reactions or edits, e.g. in archived channels
+  readOnly?: boolean;
+  canEdit: boolean;
+  canDelete: boolean;
   onThreadSelect: (messageId: number) => void;
-  onReactionAdd: (emoji: string) => void;
+  onReactionToggle: (emoji: string) => void;
+  onEdit: (content: string) => Promise<void>;
+  onDelete: () => void;
 };
 
 function MessageItem({
   message,
+  currentUserId,
+  isHighlighted,
+  readOnly = false,
+  canEdit,
+  canDelete,
   onThreadSelect,
-  onReactionAdd,
+  onReactionToggle,
+  onEdit,
+  onDelete,
 }: MessageItemProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+
   if (!message.user) return null;
 
+  const isDeleted = !!message.deletedAt;
+
+  // Channel changes like renames are shown as a single muted line
+  if (message.type === "system") {
+    return (
+      <div
+        data-message-id={message.id}
+        className={cn(
+          "flex items-baseline gap-2 rounded-md pl-[52px] text-sm text-muted-foreground",
+          isHighlighted && "bg-accent",
+        )}
+      >
+        <span>
+          <span className="font-medium text-foreground">
+            {message.user.username}
+          </span>{" "}
+          {message.content}
+        </span>
+        <span className="text-xs">
+          {new Date(message.createdAt!).toLocaleTimeString()}
+        </span>
+      </div>
+    );
+  }
+
   return (
-    <div className="flex gap-3 group">
+    <div
+      data-message-id={message.id}
+      className={cn(
+        "flex gap-3 group rounded-md transition-colors",
+        isHighlighted && "bg-accent",
+      )}
+    >
       <Avatar>
         <AvatarImage
           src={message.user.avatar || undefined}
@@ -220,23 +598,58 @@ function MessageItem({
           <span className="text-xs text-muted-foreground">
             {new Date(message.createdAt!).toLocaleTimeString()}
           </span>
+          {isMessageEdited(message) && (
+            <span className="text-xs text-muted-foreground">(edited)</span>
+          )}
         </div>
 
-        <p className="mt-1">{message.content}</p>
+        {isDeleted ? (
+          <p className="mt-1 italic text-muted-foreground">
+            This message was deleted.
+          </p>
+        ) : isEditing ? (
+          <EditMessageForm
+            initialContent={message.content}
+            onSave={async (content) => {
+              await onEdit(content);
+              setIsEditing(false);
+            }}
+            onCancel={() => setIsEditing(false)}
+          />
+        ) : (
+          <MessageContent content={message.content} className="mt-1" />
+        )}
 
         {message.attachments && message.attachments.length > 0 && (
-          <div className="mt-2 flex gap-2">
-            {message.attachments.map((attachment, i) => (
-              <a
-                key={i}
-                href={attachment.url}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="text-sm text-blue-500 hover:underline"
-              >
-                {attachment.name}
-              </a>
-            ))}
+          <AttachmentList attachments={message.attachments} />
+        )}
+
+        {!isDeleted && message.reactions && message.reactions.length > 0 && (
+          <div className="mt-2 flex flex-wrap gap-1">
+            {message.reactions.map((reaction) => {
+              const reacted =
+                currentUserId !== undefined &&
+                reaction.userIds.includes(currentUserId);
+
+              return (
+                <button
+                  key={reaction.emoji}
+                  onClick={() => onReactionToggle(reaction.emoji)}
+                  disabled={readOnly}
+                  className={cn(
+                    "flex items-center gap-1 rounded-full border px-2 py-0.5 text-sm transition-colors",
+                    reacted
+                      ? "border-primary bg-primary/10"
+                      : "hover:bg-accent",
+                  )}
+                >
+                  <span>{reaction.emoji}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {reaction.count}
+                  </span>
+                </button>
+              );
+            })}
           </div>
         )}
 
@@ -251,15 +664,43 @@ function MessageItem({
             }}
           >
             <MessageSquare className="h-4 w-4 mr-1" />
-            Reply {message.replyCount > 0 && `(${message.replyCount})`}
+            Reply {(message.replyCount ?? 0) > 0 && `(${message.replyCount})`}
           </Button>
 
-          <Button variant="ghost" size="sm" onClick={() => onReactionAdd("👍")}>
-            <Smile className="h-4 w-4 mr-1" />
-            React
-          </Button>
+          {!isDeleted && !readOnly && (
+            <EmojiPicker onSelect={onReactionToggle}>
+              <Button variant="ghost" size="sm">
+                <Smile className="h-4 w-4 mr-1" />
+                React
+              </Button>
+            </EmojiPicker>
+          )}
+
+          {!isDeleted && !readOnly && canEdit && !isEditing && (
+            <Button variant="ghost" size="sm" onClick={() => setIsEditing(true)}>
+              <Pencil className="h-4 w-4 mr-1" />
+              Edit
+            </Button>
+          )}
+
+          {!isDeleted && canDelete && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsDeleteOpen(true)}
+            >
+              <Trash2 className="h-4 w-4 mr-1" />
+              Delete
+            </Button>
+          )}
         </div>
       </div>
+
+      <DeleteMessageDialog
+        open={isDeleteOpen}
+        onOpenChange={setIsDeleteOpen}
+        onConfirm={onDelete}
+      />
     </div>
   );
 }
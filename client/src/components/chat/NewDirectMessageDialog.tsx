@@ -0,0 +1,139 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import {
+  MAX_DM_PARTICIPANTS,
+  useOpenConversation,
+} from "@/hooks/use-direct-messages";
+
+type WorkspaceUser = {
+  id: number;
+  username: string;
+};
+
+type NewDirectMessageDialogProps = {
+  workspaceId: number;
+  // Everyone the current user can message, not including themselves
+  users: WorkspaceUser[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onOpened: (directMessageId: number) => void;
+};
+
+export default function NewDirectMessageDialog({
+  workspaceId,
+  users,
+  open,
+  onOpenChange,
+  onOpened,
+}: NewDirectMessageDialogProps) {
+  const { toast } = useToast();
+  const openConversation = useOpenConversation(workspaceId);
+  const [filter, setFilter] = useState("");
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+    setFilter("");
+    setSelectedIds([]);
+  }, [open]);
+
+  // The current user is always in the conversation
+  const isFull = selectedIds.length >= MAX_DM_PARTICIPANTS - 1;
+
+  const toggleUser = (userId: number, checked: boolean) => {
+    setSelectedIds((ids) =>
+      checked ? [...ids, userId] : ids.filter((id) => id !== userId),
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selectedIds.length === 0) return;
+
+    openConversation.mutate(selectedIds, {
+      onSuccess: (conversation) => {
+        onOpened(conversation.id);
+        onOpenChange(false);
+      },
+      onError: (error: Error) => {
+        toast({
+          title: "Error",
+          description: error.message || "Failed to open conversation",
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  const visibleUsers = users.filter((user) =>
+    user.username.toLowerCase().includes(filter.trim().toLowerCase()),
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New message</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Input
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Find people"
+            autoFocus
+          />
+          <ScrollArea className="h-64 rounded-md border">
+            <div className="p-2 space-y-1">
+              {visibleUsers.map((user) => {
+                const checked = selectedIds.includes(user.id);
+                return (
+                  <label
+                    key={user.id}
+                    className="flex items-center gap-2 rounded-md px-2 py-1.5 text-sm hover:bg-accent"
+                  >
+                    <Checkbox
+                      checked={checked}
+                      disabled={!checked && isFull}
+                      onCheckedChange={(value) =>
+                        toggleUser(user.id, value === true)
+                      }
+                    />
+                    <span className="truncate">{user.username}</span>
+                  </label>
+                );
+              })}
+              {visibleUsers.length === 0 && (
+                <div className="px-2 py-1 text-sm text-muted-foreground">
+                  No users found
+                </div>
+              )}
+            </div>
+          </ScrollArea>
+          <p className="text-xs text-muted-foreground">
+            {isFull
+              ? `Conversations can include up to ${MAX_DM_PARTICIPANTS} people, including you.`
+              : "Pick one person, or several for a group conversation."}
+          </p>
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={selectedIds.length === 0 || openConversation.isPending}
+          >
+            {openConversation.isPending ? "Opening..." : "Open conversation"}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,148 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Hash, Loader2, MessageSquare, User } from "lucide-react";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import type { Attachment } from "@db/schema";
+
+export type SearchResult = {
+  message: {
+    id: number;
+    content: string;
+    channelId: number | null;
+    directMessageId: number | null;
+    parentId: number | null;
+    attachments: Attachment[] | null;
+    createdAt: string | null;
+  };
+  user: {
+    id: number;
+    username: string;
+    avatar?: string | null;
+  } | null;
+  channel: { id: number; name: string } | null;
+  directMessage: { id: number } | null;
+};
+
+type SearchDialogProps = {
+  workspaceId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (result: SearchResult) => void;
+};
+
+export default function SearchDialog({
+  workspaceId,
+  open,
+  onOpenChange,
+  onSelect,
+}: SearchDialogProps) {
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+
+  // Wait for the user to pause typing before hitting the server
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), 250);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const { data: results, isFetching, error } = useQuery<SearchResult[]>({
+    queryKey: [
+      `/api/workspaces/${workspaceId}/search?q=${encodeURIComponent(debouncedQuery)}`,
+    ],
+    enabled: open && debouncedQuery.length > 0,
+    // Results go stale as soon as new messages arrive
+    staleTime: 0,
+  });
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) setQuery("");
+    onOpenChange(nextOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg">
+        <DialogTitle className="sr-only">Search messages</DialogTitle>
+        {/* Results are already filtered by the server */}
+        <Command
+          shouldFilter={false}
+          className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-3"
+        >
+          <CommandInput
+            value={query}
+            onValueChange={setQuery}
+            placeholder="Search messages... (from:@user in:#channel has:file before:2024-01-31)"
+          />
+          <CommandList className="max-h-96">
+            {isFetching ? (
+              <div className="flex items-center justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : error ? (
+              <div className="py-6 text-center text-sm text-destructive">
+                {error.message.replace(/^\d+: /, "")}
+              </div>
+            ) : debouncedQuery.length > 0 ? (
+              <>
+                <CommandEmpty>No messages found.</CommandEmpty>
+                {results && results.length > 0 && (
+                  <CommandGroup heading="Messages">
+                    {results.map((result) => (
+                      <CommandItem
+                        key={result.message.id}
+                        value={String(result.message.id)}
+                        onSelect={() => {
+                          onSelect(result);
+                          handleOpenChange(false);
+                        }}
+                        className="flex flex-col items-start gap-1"
+                      >
+                        <div className="flex w-full items-center gap-2 text-xs text-muted-foreground">
+                          {result.channel ? (
+                            <>
+                              <Hash className="h-3 w-3" />
+                              {result.channel.name}
+                            </>
+                          ) : (
+                            <>
+                              <User className="h-3 w-3" />
+                              Direct message
+                            </>
+                          )}
+                          {result.message.parentId && (
+                            <>
+                              <MessageSquare className="h-3 w-3" />
+                              Thread reply
+                            </>
+                          )}
+                          <span className="ml-auto">
+                            {result.message.createdAt &&
+                              new Date(result.message.createdAt).toLocaleString()}
+                          </span>
+                        </div>
+                        <div className="w-full text-sm line-clamp-2">
+                          <span className="font-semibold">
+                            {result.user?.username ?? "Unknown user"}
+                          </span>{" "}
+                          {result.message.content}
+                        </div>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                )}
+              </>
+            ) : null}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
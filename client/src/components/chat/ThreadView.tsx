@@ -1,31 +1,60 @@
-import { useEffect, useRef } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useQueryClient } from "@tanstack/react-query";
-import { useMessages } from "@/hooks/use-messages";
+import {
+  useMessages,
+  isMessageEdited,
+  updateCachedMessage,
+  removeCachedMessage,
+} from "@/hooks/use-messages";
 import { useWebSocket } from "@/hooks/use-websocket";
+import { useUser } from "@/hooks/use-user";
+import { useToast } from "@/hooks/use-toast";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Button } from "@/components/ui/button";
-import { X } from "lucide-react";
+import { X, Pencil, Trash2 } from "lucide-react";
 import MessageInput from "./MessageInput";
-import FileUpload from "./FileUpload";
-import type { Message, User, Reaction } from "@db/schema";
+import MessageContent from "./MessageContent";
+import AttachmentList from "./AttachmentList";
+import EditMessageForm from "./EditMessageForm";
+import DeleteMessageDialog from "./DeleteMessageDialog";
+import type { Attachment, Message, User, Reaction } from "@db/schema";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 
 type ThreadViewProps = {
   messageId: number;
   onClose: () => void;
   directMessageId?: number | null;
+  // Used for @mention autocomplete
+  workspaceId?: number;
+  // Whether the current user may delete other people's messages
+  canModerate?: boolean;
+  // Reply to scroll to and highlight, e.g. from a search result
+  highlightMessageId?: number | null;
+  // No new replies, e.g. in archived channels
+  readOnly?: boolean;
 };
 
 type ThreadMessage = Message & {
   user?: User;
   reactions?: Reaction[];
-  attachments?: Array<{ url: string; name: string }> | null;
+  attachments?: Attachment[] | null;
 };
 
-export default function ThreadView({ messageId, onClose, directMessageId }: ThreadViewProps) {
-  const { messages, isLoading, sendMessage } = useMessages(messageId, true);
+export default function ThreadView({
+  messageId,
+  onClose,
+  directMessageId,
+  workspaceId,
+  canModerate = false,
+  highlightMessageId = null,
+  readOnly = false,
+}: ThreadViewProps) {
+  const { messages, isLoading, sendMessage, editMessage, deleteMessage } =
+    useMessages(messageId, true);
+  const { user } = useUser();
+  const { toast } = useToast();
   const queryClient = useQueryClient();
-  const { addMessageHandler, sendMessage: sendWebSocketMessage } = useWebSocket();
+  const { addMessageHandler } = useWebSocket();
   const handlerRef = useRef<(() => void) | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
 
@@ -36,6 +65,13 @@ export default function ThreadView({ messageId, onClose, directMessageId }: Thre
     }
   }, [messages]);
 
+  useEffect(() => {
+    if (!highlightMessageId || !messages) return;
+    scrollRef.current
+      ?.querySelector(`[data-message-id="${highlightMessageId}"]`)
+      ?.scrollIntoView({ block: "center" });
+  }, [highlightMessageId, messages]);
+
   useEffect(() => {
     console.log(`Setting up thread message handler for messageId: ${messageId}`);
 
@@ -53,19 +89,7 @@ export default function ThreadView({ messageId, onClose, directMessageId }: Thre
           queryClient.setQueryData<ThreadMessage[]>(
             [`/api/messages/${messageId}/thread`],
             (oldMessages = []) => {
-              const newMessage: ThreadMessage = {
-                id: msg.messageId,
-                content: msg.content,
-                userId: msg.userId,
-                channelId: msg.channelId,
-                directMessageId: msg.directMessageId,
-                parentId: msg.parentId,
-                createdAt: msg.createdAt || new Date(),
-                updatedAt: msg.createdAt || new Date(),
-                user: msg.user,
-                reactions: [],
-                attachments: msg.attachments || null,
-              };
+              const newMessage = msg.message as ThreadMessage;
 
               console.log("Updating thread messages:", {
                 oldMessages,
@@ -85,6 +109,20 @@ export default function ThreadView({ messageId, onClose, directMessageId }: Thre
               );
             },
           );
+        } else if (
+          msg.type === "message_updated" &&
+          (msg.message.id === messageId || msg.parentId === messageId)
+        ) {
+          updateCachedMessage(queryClient, msg.message);
+        } else if (
+          msg.type === "message_deleted" &&
+          (msg.message.id === messageId || msg.parentId === messageId)
+        ) {
+          removeCachedMessage(queryClient, {
+            message: msg.message,
+            parentId: msg.parentId,
+            replyCount: msg.replyCount,
+          });
         }
       } catch (error) {
         console.error("Error handling thread message:", error);
@@ -102,43 +140,61 @@ export default function ThreadView({ messageId, onClose, directMessageId }: Thre
     };
   }, [messageId, queryClient, addMessageHandler]);
 
-  const handleSendMessage = async (content: string) => {
+  const handleSendMessage = async (content: string, attachments: Attachment[]) => {
     if (!messageId) return;
 
     try {
-      const newMessage = await sendMessage({ 
-        content, 
+      await sendMessage({
+        content,
+        attachments,
         parentId: messageId,
         directMessageId // Pass the directMessageId if it exists
       });
-      console.log("Sending thread message:", newMessage);
-
-      // Send both thread_message and regular message updates
-      sendWebSocketMessage({
-        type: "thread_message",
-        channelId: newMessage.channelId,
-        directMessageId: newMessage.directMessageId,
-        messageId: newMessage.id,
-        parentId: messageId,
-        content: newMessage.content,
-        userId: newMessage.userId,
-        user: newMessage.user,
-        attachments: newMessage.attachments,
-        createdAt: newMessage.createdAt,
-      });
+    } catch (error) {
+      console.error("Error sending thread message:", error);
+    }
+  };
 
-      // message for channel/DM view thread count updates
-      sendWebSocketMessage({
-        type: "message",
-        channelId: newMessage.channelId,
-        directMessageId: newMessage.directMessageId,
-        newMessage,
+  const handleEditMessage = async (id: number, content: string) => {
+    try {
+      await editMessage({ messageId: id, content });
+    } catch (error) {
+      console.error("Error editing thread message:", error);
+      toast({
+        title: "Error",
+        description: "Failed to edit message",
+        variant: "destructive",
       });
+      throw error;
+    }
+  };
+
+  const handleDeleteMessage = async (id: number) => {
+    try {
+      await deleteMessage(id);
     } catch (error) {
-      console.error("Error sending thread message:", error);
+      console.error("Error deleting thread message:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete message",
+        variant: "destructive",
+      });
     }
   };
 
+  const renderMessage = (message: ThreadMessage, isParent?: boolean) => (
+    <ThreadMessage
+      key={message.id}
+      message={message}
+      isParent={isParent}
+      isHighlighted={message.id === highlightMessageId}
+      canEdit={message.userId === user?.id}
+      canDelete={message.userId === user?.id || canModerate}
+      onEdit={(content) => handleEditMessage(message.id, content)}
+      onDelete={() => handleDeleteMessage(message.id)}
+    />
+  );
+
   if (!messageId) {
     return null;
   }
@@ -189,61 +245,125 @@ export default function ThreadView({ messageId, onClose, directMessageId }: Thre
 
       <ScrollArea className="flex-1" ref={scrollRef}>
         <div className="p-4 space-y-4">
-          <ThreadMessage message={parentMessage} isParent />
-          {replies?.map((message) => (
-            <ThreadMessage key={message.id} message={message} />
-          ))}
+          {renderMessage(parentMessage, true)}
+          {replies?.map((message) => renderMessage(message))}
         </div>
       </ScrollArea>
 
       <div className="p-4 border-t">
-        <MessageInput
-          onSendMessage={handleSendMessage}
-          fileUploadComponent={
-            <FileUpload 
-              channelId={parentMessage.channelId || 0} 
-              directMessageId={directMessageId}
-            />
-          }
-        />
+        {readOnly ? (
+          <p className="text-sm text-muted-foreground">
+            This channel is archived. Replies are read-only.
+          </p>
+        ) : (
+          <MessageInput
+            onSendMessage={handleSendMessage}
+            workspaceId={workspaceId}
+          />
+        )}
       </div>
     </div>
   );
 }
 
-function ThreadMessage({ message, isParent }: { message: ThreadMessage; isParent?: boolean }) {
+type ThreadMessageProps = {
+  message: ThreadMessage;
+  isParent?: boolean;
+  isHighlighted?: boolean;
+  canEdit: boolean;
+  canDelete: boolean;
+  onEdit: (content: string) => Promise<void>;
+  onDelete: () => void;
+};
+
+function ThreadMessage({
+  message,
+  isParent,
+  isHighlighted,
+  canEdit,
+  canDelete,
+  onEdit,
+  onDelete,
+}: ThreadMessageProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+
   if (!message.user) return null;
 
+  const isDeleted = !!message.deletedAt;
+
   return (
-    <div className={`p-4 ${isParent ? "bg-accent rounded-lg" : ""}`}>
+    <div
+      data-message-id={message.id}
+      className={`p-4 group ${isParent ? "bg-accent rounded-lg" : ""} ${
+        isHighlighted ? "rounded-lg ring-2 ring-primary/50" : ""
+      }`}
+    >
       <div className="flex items-center gap-2">
         <Avatar>
           <AvatarImage src={message.user.avatar || undefined} alt={message.user.username} />
           <AvatarFallback>{message.user.username[0].toUpperCase()}</AvatarFallback>
         </Avatar>
-        <div>
+        <div className="flex-1">
           <span className="font-semibold">{message.user.username}</span>
           <span className="text-xs text-muted-foreground ml-2">
             {new Date(message.createdAt!).toLocaleString()}
           </span>
+          {isMessageEdited(message) && (
+            <span className="text-xs text-muted-foreground ml-2">(edited)</span>
+          )}
         </div>
+        {!isDeleted && !isEditing && (
+          <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+            {canEdit && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => setIsEditing(true)}
+              >
+                <Pencil className="h-3.5 w-3.5" />
+                <span className="sr-only">Edit message</span>
+              </Button>
+            )}
+            {canDelete && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => setIsDeleteOpen(true)}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+                <span className="sr-only">Delete message</span>
+              </Button>
+            )}
+          </div>
+        )}
       </div>
-      <p className="mt-2">{message.content}</p>
+      {isDeleted ? (
+        <p className="mt-2 italic text-muted-foreground">
+          This message was deleted.
+        </p>
+      ) : isEditing ? (
+        <EditMessageForm
+          initialContent={message.content}
+          onSave={async (content) => {
+            await onEdit(content);
+            setIsEditing(false);
+          }}
+          onCancel={() => setIsEditing(false)}
+        />
+      ) : (
+        <MessageContent content={message.content} className="mt-2" />
+      )}
       {message.attachments && message.attachments.length > 0 && (
-        <div className="mt-2 flex gap-2">
-          {message.attachments.map((attachment, index) => (
-            <a
-              key={index}
-              href={attachment.url}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="text-sm text-blue-500 hover:underline"
-            >
-              {attachment.name}
-            </a>
-          ))}
-        </div>
+        <AttachmentList attachments={message.attachments} />
       )}
+      <DeleteMessageDialog
+        open={isDeleteOpen}
+        onOpenChange={setIsDeleteOpen}
+        onConfirm={onDelete}
+      />
     </div>
   );
-}
\ No newline at end of file
+}
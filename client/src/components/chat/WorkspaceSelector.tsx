@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import {
   Select,
@@ -6,8 +7,17 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2, Link2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { parseInviteToken, useAcceptInvite } from "@/hooks/use-invites";
 
 type Workspace = {
   id: number;
@@ -29,6 +39,7 @@ export default function WorkspaceSelector({
 }: WorkspaceSelectorProps) {
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const [isJoinOpen, setIsJoinOpen] = useState(false);
   const {
     data: workspaces,
     isLoading,
@@ -103,36 +114,124 @@ export default function WorkspaceSelector({
     );
   }
 
+  const joinDialog = (
+    <JoinWorkspaceDialog
+      open={isJoinOpen}
+      onOpenChange={setIsJoinOpen}
+      onJoined={(workspaceId) => handleSelect(String(workspaceId))}
+    />
+  );
+  const joinButton = (
+    <Button variant="outline" size="sm" onClick={() => setIsJoinOpen(true)}>
+      <Link2 className="h-4 w-4 mr-1" />
+      Join with invite link
+    </Button>
+  );
+
   if (!workspaces?.length) {
-    return <div className="text-muted-foreground">No workspaces available</div>;
+    return (
+      <div className="flex items-center gap-2">
+        <span className="text-muted-foreground">No workspaces available</span>
+        {joinButton}
+        {joinDialog}
+      </div>
+    );
   }
 
   return (
-    <Select onValueChange={handleSelect}>
-      <SelectTrigger className="w-[300px]">
-        <SelectValue placeholder="Select a workspace" />
-      </SelectTrigger>
-      <SelectContent>
-        {workspaces.map((workspace) => (
-          <SelectItem
-            key={workspace.id}
-            value={workspace.id.toString()}
-            className="flex items-center justify-between"
+    <div className="flex items-center gap-2">
+      <Select onValueChange={handleSelect}>
+        <SelectTrigger className="w-[300px]">
+          <SelectValue placeholder="Select a workspace" />
+        </SelectTrigger>
+        <SelectContent>
+          {workspaces.map((workspace) => (
+            <SelectItem
+              key={workspace.id}
+              value={workspace.id.toString()}
+              className="flex items-center justify-between"
+            >
+              <div className="flex flex-col">
+                <span className="font-medium">{workspace.name}</span>
+                {workspace.organization && (
+                  <span className="text-xs text-muted-foreground">
+                    {workspace.organization.name}
+                  </span>
+                )}
+              </div>
+              <span className="text-xs capitalize text-muted-foreground">
+                {workspace.role}
+              </span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {joinButton}
+      {joinDialog}
+    </div>
+  );
+}
+
+type JoinWorkspaceDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onJoined: (workspaceId: number) => void;
+};
+
+// Paste an invite link to join another workspace
+function JoinWorkspaceDialog({
+  open,
+  onOpenChange,
+  onJoined,
+}: JoinWorkspaceDialogProps) {
+  const { toast } = useToast();
+  const [link, setLink] = useState("");
+  const acceptInvite = useAcceptInvite();
+  const token = parseInviteToken(link);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!token) return;
+
+    try {
+      const { workspaceId, alreadyMember } = await acceptInvite.mutateAsync(token);
+      if (alreadyMember) {
+        toast({ description: "You're already a member of this workspace" });
+      }
+      setLink("");
+      onOpenChange(false);
+      onJoined(workspaceId);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to join workspace",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Join a workspace</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Input
+            value={link}
+            onChange={(e) => setLink(e.target.value)}
+            placeholder="Paste an invite link"
+            autoFocus
+          />
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={!token || acceptInvite.isPending}
           >
-            <div className="flex flex-col">
-              <span className="font-medium">{workspace.name}</span>
-              {workspace.organization && (
-                <span className="text-xs text-muted-foreground">
-                  {workspace.organization.name}
-                </span>
-              )}
-            </div>
-            <span className="text-xs capitalize text-muted-foreground">
-              {workspace.role}
-            </span>
-          </SelectItem>
-        ))}
-      </SelectContent>
-    </Select>
+            {acceptInvite.isPending ? "Joining..." : "Join workspace"}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
   );
 }
@@ -5,6 +5,7 @@ import {
   User,
   Settings,
   UserCircle,
+  Building2,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
@@ -15,26 +16,32 @@ import {
 } from "@/components/ui/popover";
 import { Input } from "@/components/ui/input";
 import { useUser } from "@/hooks/use-user";
+import { useActivity } from "@/hooks/use-activity";
 import { User as UserIcon } from "lucide-react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useState } from "react";
 import { Skeleton } from "@/components/ui/skeleton";
 import PreferencesDialog from "@/components/settings/PreferencesDialog";
+import WorkspaceSettingsDialog from "@/components/settings/WorkspaceSettingsDialog";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 
 type WorkspaceSidebarProps = {
+  workspaceId: number;
   activeView: string;
   onViewChange: (view: string) => void;
 };
 
 export default function WorkspaceSidebar({
+  workspaceId,
   activeView,
   onViewChange,
 }: WorkspaceSidebarProps) {
   const { user } = useUser();
   const [status, setStatus] = useState(user?.status || "");
   const [showPreferences, setShowPreferences] = useState(false);
+  const [showWorkspaceSettings, setShowWorkspaceSettings] = useState(false);
   const queryClient = useQueryClient();
+  const { unreadCount: activityUnreadCount } = useActivity(workspaceId);
 
   const updateStatus = useMutation({
     mutationFn: async (newStatus: string) => {
@@ -81,13 +88,18 @@ export default function WorkspaceSidebar({
             variant="ghost"
             size="icon"
             className={cn(
-              "w-11 h-11 rounded-lg",
+              "w-11 h-11 rounded-lg relative",
               activeView === id &&
                 "bg-sidebar-accent text-sidebar-accent-foreground",
             )}
             onClick={() => onViewChange(id)}
           >
             <Icon className="h-5 w-5" />
+            {id === "activity" && activityUnreadCount > 0 && (
+              <span className="absolute top-1 right-1 min-w-4 rounded-full bg-destructive px-1 text-[10px] font-medium leading-4 text-destructive-foreground">
+                {activityUnreadCount > 99 ? "99+" : activityUnreadCount}
+              </span>
+            )}
             <span className="sr-only">{label}</span>
           </Button>
         ))}
@@ -189,6 +201,14 @@ export default function WorkspaceSidebar({
                   <Settings className="h-4 w-4" />
                   Preferences
                 </Button>
+                <Button
+                  variant="ghost"
+                  className="w-full justify-start h-9 px-2 text-sm font-medium gap-2"
+                  onClick={() => setShowWorkspaceSettings(true)}
+                >
+                  <Building2 className="h-4 w-4" />
+                  Workspace settings
+                </Button>
               </div>
             </div>
           </PopoverContent>
@@ -199,6 +219,11 @@ export default function WorkspaceSidebar({
         open={showPreferences}
         onOpenChange={setShowPreferences}
       />
+      <WorkspaceSettingsDialog
+        workspaceId={workspaceId}
+        open={showWorkspaceSettings}
+        onOpenChange={setShowWorkspaceSettings}
+      />
     </div>
   );
 }
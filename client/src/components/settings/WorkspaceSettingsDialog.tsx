@@ -0,0 +1,384 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Building2, Crown, Link2, User as UserIcon, Users } from "lucide-react";
+import { Dialog, DialogContent } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { InviteManager } from "@/components/chat/InvitesDialog";
+import { useToast } from "@/hooks/use-toast";
+import { useUser } from "@/hooks/use-user";
+import { useWorkspacePermissions } from "@/hooks/use-workspace-permissions";
+import {
+  canManageMember,
+  getAssignableRoles,
+  useWorkspaceAdmin,
+  type WorkspaceMember,
+} from "@/hooks/use-workspace-admin";
+import { cn } from "@/lib/utils";
+import type { Workspace, WorkspaceRole } from "@db/schema";
+
+type SettingsSection = "general" | "members" | "invites";
+
+// Destructive member actions wait for confirmation
+type PendingAction = {
+  type: "remove" | "transfer";
+  member: WorkspaceMember;
+};
+
+type WorkspaceSettingsDialogProps = {
+  workspaceId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+export default function WorkspaceSettingsDialog({
+  workspaceId,
+  open,
+  onOpenChange,
+}: WorkspaceSettingsDialogProps) {
+  const { user } = useUser();
+  const { toast } = useToast();
+  const { role: currentRole, capabilities } =
+    useWorkspacePermissions(workspaceId);
+  const {
+    members,
+    isLoading,
+    renameWorkspace,
+    updateMember,
+    removeMember,
+    transferOwnership,
+  } = useWorkspaceAdmin(workspaceId, open);
+  const [workspaceName, setWorkspaceName] = useState("");
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(
+    null,
+  );
+
+  // Shared with ChatPage, so a rename shows up in the header too
+  const { data: workspace } = useQuery<Workspace>({
+    queryKey: [`/api/workspaces/${workspaceId}`],
+  });
+
+  useEffect(() => {
+    if (open && workspace) setWorkspaceName(workspace.name);
+  }, [open, workspace]);
+
+  const sections = [
+    { id: "general", label: "General", icon: Building2, visible: true },
+    { id: "members", label: "Members", icon: Users, visible: true },
+    {
+      id: "invites",
+      label: "Invites",
+      icon: Link2,
+      visible: capabilities.inviteMembers,
+    },
+  ] satisfies {
+    id: SettingsSection;
+    label: string;
+    icon: React.ComponentType<{ className?: string }>;
+    visible: boolean;
+  }[];
+  const [activeSection, setActiveSection] =
+    useState<SettingsSection>("general");
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update workspace",
+      variant: "destructive",
+    });
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = workspaceName.trim();
+    if (!name || name === workspace?.name) return;
+    renameWorkspace.mutate(name, {
+      onSuccess: () => toast({ description: "Workspace renamed" }),
+      onError,
+    });
+  };
+
+  const handleConfirm = () => {
+    if (!pendingAction) return;
+    const { type, member } = pendingAction;
+    if (type === "remove") {
+      removeMember.mutate(member.userId, {
+        onSuccess: () =>
+          toast({ description: `${member.username} was removed` }),
+        onError,
+      });
+    } else {
+      transferOwnership.mutate(member.userId, {
+        onSuccess: () =>
+          toast({ description: `${member.username} now owns this workspace` }),
+        onError,
+      });
+    }
+    setPendingAction(null);
+  };
+
+  const assignableRoles = getAssignableRoles(currentRole);
+
+  const renderMember = (member: WorkspaceMember) => {
+    const isSelf = member.userId === user?.id;
+    const manageable = !isSelf && canManageMember(currentRole, member.role);
+    const canTransfer =
+      !isSelf && capabilities.transferOwnership && !member.deactivatedAt;
+
+    return (
+      <div
+        key={member.userId}
+        className={cn(
+          "flex items-center gap-3 rounded-md px-2 py-1.5",
+          member.deactivatedAt && "text-muted-foreground",
+        )}
+      >
+        <Avatar className="h-8 w-8">
+          <AvatarImage src={member.avatar || ""} alt={member.username} />
+          <AvatarFallback>
+            <UserIcon className="h-4 w-4" />
+          </AvatarFallback>
+        </Avatar>
+        <div className="min-w-0 flex-1">
+          <div className="truncate text-sm font-medium">
+            {member.username}
+            {isSelf && " (you)"}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {member.deactivatedAt
+              ? `Deactivated ${new Date(member.deactivatedAt).toLocaleDateString()}`
+              : member.joinedAt
+                ? `Joined ${new Date(member.joinedAt).toLocaleDateString()}`
+                : "Member"}
+          </div>
+        </div>
+
+        {manageable && assignableRoles.length > 0 ? (
+          <Select
+            value={member.role ?? "member"}
+            onValueChange={(role) =>
+              updateMember.mutate(
+                { userId: member.userId, role: role as WorkspaceRole },
+                { onError },
+              )
+            }
+            disabled={updateMember.isPending}
+          >
+            <SelectTrigger className="w-28 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {assignableRoles.map((role) => (
+                <SelectItem key={role} value={role} className="capitalize">
+                  {role}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <span className="flex w-28 items-center gap-1 text-sm capitalize">
+            {member.role === "owner" && <Crown className="h-3.5 w-3.5" />}
+            {member.role ?? "member"}
+          </span>
+        )}
+
+        {(manageable || canTransfer) && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="sm" className="h-8">
+                Manage
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {canTransfer && (
+                <DropdownMenuItem
+                  onClick={() => setPendingAction({ type: "transfer", member })}
+                >
+                  Transfer ownership
+                </DropdownMenuItem>
+              )}
+              {manageable && (
+                <>
+                  {canTransfer && <DropdownMenuSeparator />}
+                  <DropdownMenuItem
+                    onClick={() =>
+                      updateMember.mutate(
+                        {
+                          userId: member.userId,
+                          deactivated: !member.deactivatedAt,
+                        },
+                        { onError },
+                      )
+                    }
+                  >
+                    {member.deactivatedAt ? "Reactivate" : "Deactivate"}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    className="text-destructive"
+                    onClick={() => setPendingAction({ type: "remove", member })}
+                  >
+                    Remove from workspace
+                  </DropdownMenuItem>
+                </>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl p-0 gap-0">
+        {/* Header */}
+        <div className="flex items-center p-4 border-b">
+          <h2 className="text-lg font-bold">Workspace settings</h2>
+        </div>
+
+        <div className="flex h-[32rem]">
+          {/* Sidebar */}
+          <div className="w-56 border-r shrink-0">
+            <nav className="p-2 space-y-1">
+              {sections
+                .filter((section) => section.visible)
+                .map((section) => {
+                  const Icon = section.icon;
+                  return (
+                    <Button
+                      key={section.id}
+                      variant="ghost"
+                      className={cn(
+                        "w-full justify-start gap-2 font-normal",
+                        activeSection === section.id &&
+                          "bg-accent text-accent-foreground font-medium",
+                      )}
+                      onClick={() => setActiveSection(section.id)}
+                    >
+                      <Icon className="h-4 w-4" />
+                      {section.label}
+                    </Button>
+                  );
+                })}
+            </nav>
+          </div>
+
+          {/* Main Content */}
+          <div className="flex-1 p-6 min-w-0">
+            {activeSection === "general" && (
+              <form onSubmit={handleRename} className="space-y-4 max-w-sm">
+                <h3 className="text-lg font-medium">General</h3>
+                <div className="space-y-1">
+                  <Label htmlFor="workspace-name">Workspace name</Label>
+                  <Input
+                    id="workspace-name"
+                    value={workspaceName}
+                    onChange={(e) => setWorkspaceName(e.target.value)}
+                    disabled={!capabilities.renameWorkspace}
+                  />
+                </div>
+                {capabilities.renameWorkspace && (
+                  <Button
+                    type="submit"
+                    disabled={
+                      renameWorkspace.isPending ||
+                      !workspaceName.trim() ||
+                      workspaceName.trim() === workspace?.name
+                    }
+                  >
+                    {renameWorkspace.isPending ? "Saving..." : "Save"}
+                  </Button>
+                )}
+              </form>
+            )}
+
+            {activeSection === "members" && (
+              <div className="flex h-full flex-col gap-4">
+                <h3 className="text-lg font-medium">
+                  Members{members.length > 0 && ` (${members.length})`}
+                </h3>
+                <ScrollArea className="flex-1">
+                  {isLoading ? (
+                    <div className="py-4 text-center text-sm text-muted-foreground">
+                      Loading members...
+                    </div>
+                  ) : (
+                    <div className="space-y-1 pr-3">
+                      {members.map(renderMember)}
+                    </div>
+                  )}
+                </ScrollArea>
+              </div>
+            )}
+
+            {activeSection === "invites" && capabilities.inviteMembers && (
+              <div className="space-y-4">
+                <h3 className="text-lg font-medium">Invite links</h3>
+                <InviteManager workspaceId={workspaceId} enabled={open} />
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+
+      <AlertDialog
+        open={!!pendingAction}
+        onOpenChange={(open) => !open && setPendingAction(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingAction?.type === "transfer"
+                ? "Transfer ownership"
+                : "Remove member"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingAction?.type === "transfer"
+                ? `${pendingAction.member.username} will become the owner of this workspace and you will become an admin.`
+                : `${pendingAction?.member.username} will be removed from the workspace and all of its channels. They'll need a new invite to rejoin.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirm}
+              className={cn(
+                pendingAction?.type === "remove" &&
+                  "bg-destructive text-destructive-foreground hover:bg-destructive/90",
+              )}
+            >
+              {pendingAction?.type === "transfer" ? "Transfer" : "Remove"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Dialog>
+  );
+}
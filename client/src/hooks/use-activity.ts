@@ -0,0 +1,137 @@
+import { useEffect } from "react";
+import {
+  useInfiniteQuery,
+  useMutation,
+  useQueryClient,
+  type InfiniteData,
+  type QueryClient,
+} from "@tanstack/react-query";
+import { useWebSocket } from "@/hooks/use-websocket";
+
+export type ActivityKind = "mention" | "reply" | "reaction";
+
+export type ActivityItem = {
+  id: string;
+  kind: ActivityKind;
+  createdAt: string | null;
+  isUnread: boolean;
+  // How the user was mentioned ("user", "channel", "here"), or the emoji
+  detail: string | null;
+  actor: { id: number; username: string; avatar: string | null } | null;
+  message: {
+    id: number;
+    content: string;
+    channelId: number | null;
+    directMessageId: number | null;
+    parentId: number | null;
+    createdAt: string | null;
+  };
+  channel: { id: number; name: string } | null;
+};
+
+type ActivityPage = {
+  items: ActivityItem[];
+  nextCursor: string | null;
+  unreadCount: number;
+};
+
+type ActivityPages = InfiniteData<ActivityPage, string | null>;
+
+function activityKey(workspaceId: number) {
+  return [`/api/workspaces/${workspaceId}/activity`];
+}
+
+async function fetchActivityPage(
+  workspaceId: number,
+  before: string | null,
+): Promise<ActivityPage> {
+  const url =
+    before !== null
+      ? `/api/workspaces/${workspaceId}/activity?before=${encodeURIComponent(before)}`
+      : `/api/workspaces/${workspaceId}/activity`;
+
+  const res = await fetch(url, { credentials: "include" });
+
+  if (!res.ok) {
+    throw new Error(`${res.status}: ${await res.text()}`);
+  }
+
+  return res.json();
+}
+
+// Clear unread state in every loaded page
+function applyActivityRead(queryClient: QueryClient, workspaceId: number) {
+  queryClient.setQueryData<ActivityPages>(
+    activityKey(workspaceId),
+    (old) =>
+      old && {
+        ...old,
+        pages: old.pages.map((page) => ({
+          ...page,
+          unreadCount: 0,
+          items: page.items.map((item) => ({ ...item, isUnread: false })),
+        })),
+      },
+  );
+}
+
+export function useActivity(workspaceId: number) {
+  const queryClient = useQueryClient();
+
+  const query = useInfiniteQuery({
+    queryKey: activityKey(workspaceId),
+    queryFn: ({ pageParam }) => fetchActivityPage(workspaceId, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!workspaceId && workspaceId > 0,
+  });
+
+  const markAllRead = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(`/api/workspaces/${workspaceId}/activity/read`, {
+        method: "POST",
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        throw new Error((await res.json()).error);
+      }
+
+      return res.json();
+    },
+    onSuccess: () => applyActivityRead(queryClient, workspaceId),
+  });
+
+  return {
+    items: query.data?.pages.flatMap((page) => page.items) ?? [],
+    // Counted by the server across all pages, not just the loaded ones
+    unreadCount: query.data?.pages[0]?.unreadCount ?? 0,
+    isLoading: query.isLoading,
+    hasNextPage: query.hasNextPage,
+    isFetchingNextPage: query.isFetchingNextPage,
+    fetchNextPage: query.fetchNextPage,
+    markAllRead,
+  };
+}
+
+// Refetch the feed when the server reports new activity for the user, and
+// follow "mark all read" from the user's other tabs. Mount once per page.
+export function useActivityUpdates(workspaceId: number | null) {
+  const queryClient = useQueryClient();
+  const { addMessageHandler } = useWebSocket();
+
+  useEffect(() => {
+    if (!workspaceId) return;
+
+    return addMessageHandler((msg) => {
+      if (msg.type === "activity" || msg.type === "mention") {
+        queryClient.invalidateQueries({ queryKey: activityKey(workspaceId) });
+      } else if (
+        msg.type === "activity_read" &&
+        msg.workspaceId === workspaceId
+      ) {
+        applyActivityRead(queryClient, workspaceId);
+      }
+    }, `activity-${workspaceId}`);
+  }, [workspaceId, queryClient, addMessageHandler]);
+}
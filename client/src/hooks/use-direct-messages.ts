@@ -1,47 +1,261 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import type { Message, User } from "@db/schema";
+import { useEffect } from "react";
+import {
+  useQuery,
+  useMutation,
+  useQueryClient,
+  type QueryClient,
+} from "@tanstack/react-query";
+import type { Attachment, Message, User } from "@db/schema";
+import type { UnreadCounts } from "@/hooks/use-read-state";
+import { useWebSocket } from "@/hooks/use-websocket";
 
-type DirectMessageResponse = {
-  message: Message;
-  user: User;
+// Mirrors MAX_DM_PARTICIPANTS in server/direct-messages.ts
+export const MAX_DM_PARTICIPANTS = 9;
+
+export type Participant = {
+  id: number;
+  username: string;
+  avatar: string | null;
+  status: string | null;
+};
+
+// A DM conversation as listed to the current user. participants are the
+// other people in it; otherUserId is set for one-to-one conversations.
+export type Conversation = UnreadCounts & {
+  id: number;
+  participants: Participant[];
+  otherUserId: number | null;
+};
+
+// Preview of a conversation's newest message
+export type LastMessage = {
+  id: number;
+  userId: number | null;
+  snippet: string;
+  attachmentCount: number;
+  createdAt: string | null;
+};
+
+// A conversation in the recent conversations view, newest activity first
+export type ConversationActivity = Conversation & {
+  lastMessage: LastMessage | null;
+  lastActivityAt: string | null;
+};
+
+type CachedDirectMessage = Message & {
+  replyCount?: number;
 };
 
-export function useDirectMessages(workspaceId: number, userId: number) {
+export type DirectMessageResponse = {
+  message: CachedDirectMessage;
+  user: User | null;
+};
+
+// A message as the server returns it from POST /api/messages and in socket
+// events: the row with its author inlined
+type MessageWithUser = CachedDirectMessage & {
+  user: User | null;
+};
+
+function directMessagesKey(directMessageId: number) {
+  return [`/api/direct-messages/${directMessageId}/messages`];
+}
+
+// Apply a transform to a conversation's cached root messages
+function mapDirectMessages(
+  queryClient: QueryClient,
+  directMessageId: number,
+  transform: (messages: DirectMessageResponse[]) => DirectMessageResponse[],
+) {
+  queryClient.setQueryData<DirectMessageResponse[]>(
+    directMessagesKey(directMessageId),
+    (old) => old && transform(old),
+  );
+}
+
+// Append a new root message to its conversation, or merge it if the sender's
+// own response and the socket event both deliver it
+export function addDirectMessage(
+  queryClient: QueryClient,
+  { user, ...message }: MessageWithUser,
+) {
+  if (!message.directMessageId || message.parentId) return;
+
+  mapDirectMessages(queryClient, message.directMessageId, (messages) =>
+    messages.some((m) => m.message.id === message.id)
+      ? messages.map((m) =>
+          m.message.id === message.id
+            ? { message: { ...m.message, ...message }, user: m.user ?? user }
+            : m,
+        )
+      : [...messages, { message, user }],
+  );
+}
+
+// Mirrors toSnippet in server/direct-messages.ts, so live previews match
+// the ones the server lists
+const SNIPPET_LENGTH = 100;
+
+export function toSnippet(content: string) {
+  const text = content.replace(/\s+/g, " ").trim();
+  return text.length > SNIPPET_LENGTH
+    ? `${text.slice(0, SNIPPET_LENGTH - 1)}…`
+    : text;
+}
+
+export function getConversationName(conversation: Conversation) {
+  return conversation.participants
+    .map((participant) => participant.username)
+    .join(", ");
+}
+
+// The current user's DM conversations in a workspace
+export function useConversations(workspaceId: number) {
+  return useQuery<Conversation[]>({
+    queryKey: [`/api/workspaces/${workspaceId}/direct-messages`],
+    enabled: !!workspaceId && workspaceId > 0,
+  });
+}
+
+// The current user's conversations ordered by last activity
+export function useRecentConversations(workspaceId: number) {
+  return useQuery<ConversationActivity[]>({
+    queryKey: [`/api/workspaces/${workspaceId}/conversations`],
+    enabled: !!workspaceId && workspaceId > 0,
+  });
+}
+
+// Open the conversation with a set of users, creating it on first use
+export function useOpenConversation(workspaceId: number) {
   const queryClient = useQueryClient();
+  const conversationsKey = [`/api/workspaces/${workspaceId}/direct-messages`];
+
+  return useMutation({
+    mutationFn: async (userIds: number[]) => {
+      const res = await fetch(`/api/workspaces/${workspaceId}/direct-messages`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ userIds }),
+      });
+
+      if (!res.ok) {
+        throw new Error((await res.json()).error);
+      }
+
+      return res.json() as Promise<Conversation>;
+    },
+    onSuccess: (conversation) => {
+      queryClient.setQueryData<Conversation[]>(conversationsKey, (old) =>
+        old?.some((c) => c.id === conversation.id)
+          ? old
+          : [...(old ?? []), conversation],
+      );
+      queryClient.invalidateQueries({
+        queryKey: [`/api/workspaces/${workspaceId}/conversations`],
+      });
+    },
+  });
+}
+
+export function useDirectMessages(directMessageId: number) {
+  const queryClient = useQueryClient();
+  const { addMessageHandler } = useWebSocket();
 
   const { data: messages, isLoading } = useQuery<DirectMessageResponse[]>({
-    queryKey: [`/api/workspaces/${workspaceId}/direct-messages/${userId}`],
-    enabled: !!workspaceId && !!userId,
+    queryKey: directMessagesKey(directMessageId),
+    enabled: !!directMessageId,
   });
 
+  // Participants get new messages, replies, edits and deletes over the
+  // socket; fold them into the cached conversation
+  useEffect(() => {
+    if (!directMessageId) return;
+
+    return addMessageHandler((msg) => {
+      if (msg.directMessageId !== directMessageId) return;
+
+      if (msg.type === "dm_message" && msg.message) {
+        addDirectMessage(queryClient, msg.message);
+      } else if (msg.type === "thread_message") {
+        mapDirectMessages(queryClient, directMessageId, (messages) =>
+          messages.map((m) =>
+            m.message.id === msg.parentId
+              ? { ...m, message: { ...m.message, replyCount: msg.replyCount } }
+              : m,
+          ),
+        );
+      } else if (msg.type === "message_updated" && !msg.parentId) {
+        mapDirectMessages(queryClient, directMessageId, (messages) =>
+          messages.map((m) =>
+            m.message.id === msg.message.id
+              ? { ...m, message: { ...m.message, ...msg.message } }
+              : m,
+          ),
+        );
+      } else if (msg.type === "message_deleted") {
+        mapDirectMessages(queryClient, directMessageId, (messages) =>
+          msg.parentId
+            ? messages.map((m) =>
+                m.message.id === msg.parentId
+                  ? {
+                      ...m,
+                      message: { ...m.message, replyCount: msg.replyCount },
+                    }
+                  : m,
+              )
+            : // Deleted roots stay as tombstones while they have replies
+              messages
+                .filter(
+                  (m) =>
+                    m.message.id !== msg.message.id ||
+                    (m.message.replyCount ?? 0) > 0,
+                )
+                .map((m) =>
+                  m.message.id === msg.message.id
+                    ? { ...m, message: { ...m.message, ...msg.message } }
+                    : m,
+                ),
+        );
+      }
+    }, `dm-${directMessageId}`);
+  }, [directMessageId, queryClient, addMessageHandler]);
+
   const sendMessage = useMutation({
-    mutationFn: async (data: { content: string; parentId?: number }) => {
-      const res = await fetch(
-        `/api/workspaces/${workspaceId}/direct-messages/${userId}`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(data),
-        },
-      );
+    mutationFn: async ({
+      attachments = [],
+      ...data
+    }: {
+      content: string;
+      attachments?: Attachment[];
+      parentId?: number;
+    }) => {
+      const res = await fetch("/api/messages", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          ...data,
+          directMessageId,
+          attachmentIds: attachments.map((attachment) => attachment.id),
+        }),
+      });
 
       if (!res.ok) {
         throw new Error("Failed to send message");
       }
 
-      return res.json();
+      return res.json() as Promise<MessageWithUser>;
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({
-        queryKey: [`/api/workspaces/${workspaceId}/direct-messages/${userId}`],
-      });
+    onSuccess: (message) => {
+      addDirectMessage(queryClient, message);
     },
   });
 
   return {
     messages: messages || [],
     isLoading,
-    sendMessage: (content: string, parentId?: number) =>
-      sendMessage.mutateAsync({ content, parentId }),
+    sendMessage: (content: string, attachments: Attachment[] = []) =>
+      sendMessage.mutateAsync({ content, attachments }),
   };
-}
\ No newline at end of file
+}
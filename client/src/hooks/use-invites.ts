@@ -0,0 +1,122 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { WorkspaceRole } from "@db/schema";
+
+export type InviteStatus = "active" | "expired" | "revoked" | "used_up";
+
+export type WorkspaceInvite = {
+  id: number;
+  token: string;
+  workspaceId: number;
+  role: WorkspaceRole;
+  maxUses: number | null;
+  useCount: number;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+  status: InviteStatus;
+  createdBy: { id: number; username: string };
+};
+
+export type InvitePreview = {
+  role: WorkspaceRole;
+  expiresAt: string | null;
+  workspace: {
+    id: number;
+    name: string;
+    organization: { id: number; name: string } | null;
+  };
+};
+
+export type CreateInviteData = {
+  role: WorkspaceRole;
+  // Leave out for unlimited uses / no expiry
+  maxUses?: number | null;
+  expiresInHours?: number | null;
+};
+
+export function getInviteUrl(token: string) {
+  return `${window.location.origin}/invite/${token}`;
+}
+
+// Accept a full invite link as pasted by the user, or a bare token
+export function parseInviteToken(value: string) {
+  const trimmed = value.trim();
+  const match = trimmed.match(/\/invite\/([\w-]+)/);
+  if (match) return match[1];
+  return /^[\w-]+$/.test(trimmed) ? trimmed : null;
+}
+
+// JSON request that throws the server's `error` message on failure
+export async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, { credentials: "include", ...init });
+  if (!response.ok) {
+    let error = "Request failed";
+    try {
+      error = (await response.json()).error ?? error;
+    } catch {
+      // Not a JSON error response
+    }
+    throw new Error(error);
+  }
+  return response.json();
+}
+
+// Where an invite link leads. Errors carry the server's reason, e.g. that
+// the link expired.
+export function useInvitePreview(token?: string | null) {
+  return useQuery<InvitePreview, Error>({
+    queryKey: [`/api/invites/${token}`],
+    queryFn: () => request<InvitePreview>(`/api/invites/${token}`),
+    enabled: !!token,
+  });
+}
+
+// Join a workspace through an invite as the signed-in user
+export function useAcceptInvite() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (token: string) =>
+      request<{ workspaceId: number; alreadyMember: boolean }>(
+        `/api/invites/${token}/accept`,
+        { method: "POST" },
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/workspaces"] });
+    },
+  });
+}
+
+// A workspace's invite links, for members allowed to invite
+export function useWorkspaceInvites(workspaceId: number, enabled = true) {
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/workspaces/${workspaceId}/invites`];
+
+  const { data: invites = [], isLoading } = useQuery<WorkspaceInvite[]>({
+    queryKey,
+    enabled,
+  });
+
+  const onChange = () => queryClient.invalidateQueries({ queryKey });
+
+  const createInvite = useMutation({
+    mutationFn: (data: CreateInviteData) =>
+      request<WorkspaceInvite>(`/api/workspaces/${workspaceId}/invites`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      }),
+    onSuccess: onChange,
+  });
+
+  const revokeInvite = useMutation({
+    mutationFn: (inviteId: number) =>
+      request<WorkspaceInvite>(
+        `/api/workspaces/${workspaceId}/invites/${inviteId}`,
+        { method: "DELETE" },
+      ),
+    onSuccess: onChange,
+  });
+
+  return { invites, isLoading, createInvite, revokeInvite };
+}
@@ -1,27 +1,256 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import type { Message } from "@db/schema";
+import {
+  useQuery,
+  useInfiniteQuery,
+  useMutation,
+  useQueryClient,
+  type InfiniteData,
+  type QueryClient,
+} from "@tanstack/react-query";
+import type { Attachment, Message } from "@db/schema";
+
+export type ReactionSummary = {
+  emoji: string;
+  count: number;
+  userIds: number[];
+};
+
+type CachedMessage = Message & {
+  replyCount?: number;
+  reactions?: ReactionSummary[];
+};
+
+// Channel history is fetched newest page first; each page lists its
+// messages oldest first and points at the next older page.
+type MessagePage = {
+  messages: CachedMessage[];
+  nextCursor: number | null;
+};
+
+type ChannelMessages = InfiniteData<MessagePage, number | null>;
+
+type ReactionChange = {
+  messageId: number;
+  channelId: number | null;
+  parentId: number | null;
+  reactions: ReactionSummary[];
+};
+
+type MessageDeletion = {
+  message: Message;
+  parentId: number | null;
+  replyCount?: number;
+};
+
+export function isMessageEdited(message: Message) {
+  if (message.deletedAt || !message.createdAt || !message.updatedAt) {
+    return false;
+  }
+  return (
+    new Date(message.updatedAt).getTime() >
+    new Date(message.createdAt).getTime()
+  );
+}
+
+function channelMessagesKey(channelId: number) {
+  return [`/api/channels/${channelId}/messages`];
+}
+
+async function fetchChannelPage(
+  channelId: number,
+  before: number | null,
+): Promise<MessagePage> {
+  const url =
+    before !== null
+      ? `/api/channels/${channelId}/messages?before=${before}`
+      : `/api/channels/${channelId}/messages`;
+
+  const res = await fetch(url, { credentials: "include" });
+
+  if (!res.ok) {
+    throw new Error(`${res.status}: ${await res.text()}`);
+  }
+
+  return res.json();
+}
+
+// Apply a transform to every loaded page of a channel's history
+export function mapChannelMessages(
+  queryClient: QueryClient,
+  channelId: number,
+  transform: (messages: CachedMessage[]) => CachedMessage[],
+) {
+  queryClient.setQueryData<ChannelMessages>(
+    channelMessagesKey(channelId),
+    (old) =>
+      old && {
+        ...old,
+        pages: old.pages.map((page) => ({
+          ...page,
+          messages: transform(page.messages),
+        })),
+      },
+  );
+}
+
+// Add a new root message to the newest page, or merge it if already cached
+export function addChannelMessage(
+  queryClient: QueryClient,
+  message: CachedMessage,
+) {
+  if (!message.channelId || message.parentId) return;
+
+  queryClient.setQueryData<ChannelMessages>(
+    channelMessagesKey(message.channelId),
+    (old) => {
+      if (!old || old.pages.length === 0) return old;
+
+      const exists = old.pages.some((page) =>
+        page.messages.some((m) => m.id === message.id),
+      );
+      if (exists) {
+        return {
+          ...old,
+          pages: old.pages.map((page) => ({
+            ...page,
+            messages: page.messages.map((m) =>
+              m.id === message.id ? { ...m, ...message } : m,
+            ),
+          })),
+        };
+      }
+
+      const [newest, ...rest] = old.pages;
+      return {
+        ...old,
+        pages: [{ ...newest, messages: [...newest.messages, message] }, ...rest],
+      };
+    },
+  );
+}
+
+// Append a reply to its thread, or merge it if the sender's own response and
+// the thread_message event both deliver it
+function addThreadReply(queryClient: QueryClient, message: CachedMessage) {
+  if (!message.parentId) return;
+
+  queryClient.setQueryData<CachedMessage[]>(
+    [`/api/messages/${message.parentId}/thread`],
+    (old) => {
+      if (!old) return [message];
+      return old.some((m) => m.id === message.id)
+        ? old.map((m) => (m.id === message.id ? { ...m, ...message } : m))
+        : [...old, message];
+    },
+  );
+}
+
+// Merge an edited message into the channel and thread caches that show it
+export function updateCachedMessage(
+  queryClient: QueryClient,
+  message: Message,
+) {
+  const merge = (messages: CachedMessage[]) =>
+    messages.map((m) => (m.id === message.id ? { ...m, ...message } : m));
+
+  if (message.channelId && !message.parentId) {
+    mapChannelMessages(queryClient, message.channelId, merge);
+  }
+  queryClient.setQueryData<CachedMessage[]>(
+    [`/api/messages/${message.parentId ?? message.id}/thread`],
+    (old) => old && merge(old),
+  );
+}
+
+// Replace a message's reaction summary wherever it is cached
+export function updateCachedReactions(
+  queryClient: QueryClient,
+  { messageId, channelId, parentId, reactions }: ReactionChange,
+) {
+  const apply = (messages: CachedMessage[]) =>
+    messages.map((m) => (m.id === messageId ? { ...m, reactions } : m));
+
+  if (channelId && !parentId) {
+    mapChannelMessages(queryClient, channelId, apply);
+  }
+  queryClient.setQueryData<CachedMessage[]>(
+    [`/api/messages/${parentId ?? messageId}/thread`],
+    (old) => old && apply(old),
+  );
+}
+
+// Apply a soft delete to the cached views. Deleted replies disappear from
+// their thread; deleted roots stay as tombstones while they have replies.
+export function removeCachedMessage(
+  queryClient: QueryClient,
+  { message, parentId, replyCount }: MessageDeletion,
+) {
+  if (parentId) {
+    queryClient.setQueryData<CachedMessage[]>(
+      [`/api/messages/${parentId}/thread`],
+      (old) => old?.filter((m) => m.id !== message.id),
+    );
+    if (message.channelId) {
+      mapChannelMessages(queryClient, message.channelId, (messages) =>
+        messages.map((m) => (m.id === parentId ? { ...m, replyCount } : m)),
+      );
+    }
+    return;
+  }
+
+  queryClient.setQueryData<CachedMessage[]>(
+    [`/api/messages/${message.id}/thread`],
+    (old) =>
+      old?.map((m) => (m.id === message.id ? { ...m, ...message } : m)),
+  );
+  if (message.channelId) {
+    mapChannelMessages(queryClient, message.channelId, (messages) =>
+      messages
+        .filter((m) => m.id !== message.id || (m.replyCount ?? 0) > 0)
+        .map((m) => (m.id === message.id ? { ...m, ...message } : m)),
+    );
+  }
+}
 
 export function useMessages(
   messageIdOrChannelId: number | null,
   isThread: boolean = false,
 ) {
   const queryClient = useQueryClient();
-  const queryKey = isThread
-    ? [`/api/messages/${messageIdOrChannelId}/thread`]
-    : [`/api/channels/${messageIdOrChannelId}/messages`];
+  const hasTarget = messageIdOrChannelId !== null && messageIdOrChannelId > 0;
+  const threadQueryKey = [`/api/messages/${messageIdOrChannelId}/thread`];
+
+  const threadQuery = useQuery<CachedMessage[]>({
+    queryKey: threadQueryKey,
+    enabled: isThread && hasTarget,
+  });
 
-  const { data: messages, isLoading } = useQuery<Message[]>({
-    queryKey,
-    enabled: messageIdOrChannelId !== null && messageIdOrChannelId > 0,
+  const channelQuery = useInfiniteQuery({
+    queryKey: channelMessagesKey(messageIdOrChannelId ?? 0),
+    queryFn: ({ pageParam }) =>
+      fetchChannelPage(messageIdOrChannelId!, pageParam),
+    initialPageParam: null as number | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: !isThread && hasTarget,
   });
 
+  // Older pages are appended to the query, so reverse them for display
+  const messages = isThread
+    ? threadQuery.data
+    : channelQuery.data?.pages
+        .slice()
+        .reverse()
+        .flatMap((page) => page.messages);
+  const isLoading = isThread ? threadQuery.isLoading : channelQuery.isLoading;
+
   const sendMessage = useMutation({
     mutationFn: async ({
       content,
+      attachments,
       parentId,
       directMessageId,
     }: {
       content: string;
+      attachments?: Attachment[];
       parentId?: number;
       directMessageId?: number | null;
     }) => {
@@ -30,6 +259,7 @@ export function useMessages(
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           content,
+          attachmentIds: attachments?.map((attachment) => attachment.id),
           channelId: parentId ? messages?.[0].channelId : messageIdOrChannelId,
           parentId,
           directMessageId,
@@ -45,10 +275,11 @@ export function useMessages(
     },
     onSuccess: (newMessage) => {
       // Update the thread or channel messages cache
-      queryClient.setQueryData<Message[]>(queryKey, (old) => {
-        if (!old) return [newMessage];
-        return [...old, newMessage];
-      });
+      if (isThread) {
+        addThreadReply(queryClient, newMessage);
+      } else {
+        addChannelMessage(queryClient, newMessage);
+      }
 
       // If this is a thread reply, update both channel and DM message counts
       if (newMessage.parentId) {
@@ -59,14 +290,59 @@ export function useMessages(
         }
         if (newMessage.directMessageId) {
           queryClient.invalidateQueries({
-            queryKey: [`/api/workspaces/${newMessage.workspaceId}/direct-messages/${newMessage.userId}`],
+            queryKey: [`/api/direct-messages/${newMessage.directMessageId}/messages`],
           });
         }
       }
     },
   });
 
-  const addReaction = useMutation({
+  const editMessage = useMutation({
+    mutationFn: async ({
+      messageId,
+      content,
+    }: {
+      messageId: number;
+      content: string;
+    }) => {
+      const response = await fetch(`/api/messages/${messageId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content }),
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+
+      return response.json();
+    },
+    onSuccess: (updatedMessage) => {
+      updateCachedMessage(queryClient, updatedMessage);
+    },
+  });
+
+  const deleteMessage = useMutation({
+    mutationFn: async (messageId: number) => {
+      const response = await fetch(`/api/messages/${messageId}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+
+      return response.json();
+    },
+    onSuccess: (deletion: MessageDeletion) => {
+      removeCachedMessage(queryClient, deletion);
+    },
+  });
+
+  // Adds the reaction, or removes it if the user already reacted with it
+  const toggleReaction = useMutation({
     mutationFn: async ({
       messageId,
       emoji,
@@ -87,10 +363,8 @@ export function useMessages(
 
       return response.json();
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({
-        queryKey,
-      });
+    onSuccess: (change: ReactionChange) => {
+      updateCachedReactions(queryClient, change);
     },
   });
 
@@ -98,6 +372,11 @@ export function useMessages(
     messages,
     isLoading,
     sendMessage: sendMessage.mutateAsync,
-    addReaction: addReaction.mutate,
+    editMessage: editMessage.mutateAsync,
+    deleteMessage: deleteMessage.mutateAsync,
+    toggleReaction: toggleReaction.mutate,
+    fetchOlderMessages: channelQuery.fetchNextPage,
+    hasOlderMessages: !isThread && channelQuery.hasNextPage,
+    isFetchingOlderMessages: channelQuery.isFetchingNextPage,
   };
 }
\ No newline at end of file
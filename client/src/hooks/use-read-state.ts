@@ -0,0 +1,105 @@
+import { useEffect, useRef } from "react";
+import { useQueryClient, type QueryClient } from "@tanstack/react-query";
+
+export type UnreadCounts = {
+  unreadCount: number;
+  mentionCount: number;
+  lastReadMessageId: number | null;
+};
+
+export type ReadState = UnreadCounts & {
+  channelId?: number;
+  directMessageId?: number;
+};
+
+// Store fresh counts from a read_state event or a mark-read response in the
+// channel or DM conversation lists
+export function applyReadState(
+  queryClient: QueryClient,
+  workspaceId: number,
+  { channelId, directMessageId, ...counts }: ReadState,
+) {
+  // DM counts also show in the recent conversations view
+  const keys = channelId
+    ? [[`/api/workspaces/${workspaceId}/channels`]]
+    : [
+        [`/api/workspaces/${workspaceId}/direct-messages`],
+        [`/api/workspaces/${workspaceId}/conversations`],
+      ];
+  const id = channelId ?? directMessageId;
+
+  for (const key of keys) {
+    queryClient.setQueryData<Array<{ id: number } & Partial<UnreadCounts>>>(
+      key,
+      (old) =>
+        old?.map((item) => (item.id === id ? { ...item, ...counts } : item)),
+    );
+  }
+}
+
+type MarkReadOptions = {
+  workspaceId?: number;
+  channelId?: number | null;
+  directMessageId?: number | null;
+  // Newest message currently shown
+  lastMessageId?: number | null;
+  // Server-side marker, when known, to skip redundant requests
+  lastReadMessageId?: number | null;
+  enabled?: boolean;
+};
+
+// Advance the read marker whenever a newer message is on screen
+export function useMarkRead({
+  workspaceId,
+  channelId,
+  directMessageId,
+  lastMessageId,
+  lastReadMessageId,
+  enabled = true,
+}: MarkReadOptions) {
+  const queryClient = useQueryClient();
+  const lastSentRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !workspaceId || !lastMessageId) return;
+    if (!channelId && !directMessageId) return;
+    if (lastReadMessageId && lastReadMessageId >= lastMessageId) return;
+
+    const url = channelId
+      ? `/api/channels/${channelId}/read`
+      : `/api/direct-messages/${directMessageId}/read`;
+
+    // Avoid re-sending while the list catches up with the new marker
+    const requestKey = `${url}:${lastMessageId}`;
+    if (lastSentRef.current === requestKey) return;
+    lastSentRef.current = requestKey;
+
+    fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ messageId: lastMessageId }),
+      credentials: "include",
+    })
+      .then(async (response) => {
+        if (!response.ok) throw new Error(await response.text());
+        const counts: UnreadCounts = await response.json();
+        applyReadState(queryClient, workspaceId, {
+          ...counts,
+          channelId: channelId ?? undefined,
+          directMessageId: directMessageId ?? undefined,
+        });
+      })
+      .catch((error) => {
+        lastSentRef.current = null;
+        console.error("Error marking messages read:", error);
+      });
+  }, [
+    enabled,
+    workspaceId,
+    channelId,
+    directMessageId,
+    lastMessageId,
+    lastReadMessageId,
+    queryClient,
+  ]);
+}
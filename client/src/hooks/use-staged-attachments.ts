@@ -0,0 +1,115 @@
+import { useEffect, useRef, useState } from "react";
+import type { Attachment } from "@db/schema";
+
+export type StagedAttachment = {
+  id: string;
+  name: string;
+  // Upload progress, 0-100
+  progress: number;
+  status: "uploading" | "uploaded" | "failed";
+  // Set once uploaded
+  attachment?: Attachment;
+  error?: string;
+};
+
+// Files picked for the message being written. Each is uploaded to
+// /api/upload straight away, with progress, and sent with the message once
+// uploaded.
+export function useStagedAttachments(workspaceId?: number) {
+  const [staged, setStaged] = useState<StagedAttachment[]>([]);
+  const requestsRef = useRef(new Map<string, XMLHttpRequest>());
+
+  const update = (id: string, changes: Partial<StagedAttachment>) =>
+    setStaged((current) =>
+      current.map((item) => (item.id === id ? { ...item, ...changes } : item)),
+    );
+
+  // fetch() can't report upload progress, so use XMLHttpRequest
+  const upload = (id: string, file: File) => {
+    const request = new XMLHttpRequest();
+    requestsRef.current.set(id, request);
+
+    request.upload.onprogress = (e) => {
+      if (e.lengthComputable) {
+        update(id, { progress: Math.round((e.loaded / e.total) * 100) });
+      }
+    };
+    request.onload = () => {
+      requestsRef.current.delete(id);
+      if (request.status >= 200 && request.status < 300) {
+        update(id, {
+          status: "uploaded",
+          progress: 100,
+          attachment: JSON.parse(request.responseText),
+        });
+      } else {
+        let error = "Upload failed";
+        try {
+          error = JSON.parse(request.responseText).error ?? error;
+        } catch {
+          // Not a JSON error response
+        }
+        update(id, { status: "failed", error });
+      }
+    };
+    request.onerror = () => {
+      requestsRef.current.delete(id);
+      update(id, { status: "failed", error: "Upload failed" });
+    };
+
+    const formData = new FormData();
+    formData.append("file", file);
+    formData.append("workspaceId", String(workspaceId));
+    request.open("POST", "/api/upload");
+    request.withCredentials = true;
+    request.send(formData);
+  };
+
+  const addFiles = (files: File[]) => {
+    const added = files.map((file) => ({
+      id: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      file,
+    }));
+
+    setStaged((current) => [
+      ...current,
+      ...added.map(({ id, file }) => ({
+        id,
+        name: file.name,
+        progress: 0,
+        status: "uploading" as const,
+      })),
+    ]);
+    added.forEach(({ id, file }) => upload(id, file));
+  };
+
+  const remove = (id: string) => {
+    requestsRef.current.get(id)?.abort();
+    requestsRef.current.delete(id);
+    setStaged((current) => current.filter((item) => item.id !== id));
+  };
+
+  const clear = () => {
+    requestsRef.current.forEach((request) => request.abort());
+    requestsRef.current.clear();
+    setStaged([]);
+  };
+
+  // Abort uploads that are still running when the input goes away
+  useEffect(() => {
+    const requests = requestsRef.current;
+    return () => requests.forEach((request) => request.abort());
+  }, []);
+
+  return {
+    staged,
+    addFiles,
+    remove,
+    clear,
+    isUploading: staged.some((item) => item.status === "uploading"),
+    // Attachments ready to send
+    attachments: staged.flatMap((item) =>
+      item.status === "uploaded" && item.attachment ? [item.attachment] : [],
+    ),
+  };
+}
@@ -27,6 +27,8 @@ type LoginData = {
   username: string;
   password: string;
   workspaceId?: number;
+  // Join the invite's workspace when signing in
+  inviteToken?: string;
 };
 
 type RegisterData = {
@@ -34,7 +36,8 @@ type RegisterData = {
   password: string;
   organization?: string;
   workspace?: string;
-  workspaceId?: number;
+  // Existing workspaces can only be joined through an invite
+  inviteToken?: string;
 };
 
 async function handleRequest(
@@ -1,4 +1,12 @@
-import { useEffect, useRef, useCallback } from "react";
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  type ReactNode,
+} from "react";
 import { useUser } from "./use-user";
 import { useToast } from "./use-toast";
 
@@ -14,7 +22,19 @@ type MessageHandler = {
   isPersistent: boolean;
 };
 
-export function useWebSocket() {
+type WebSocketContextValue = {
+  sendMessage: (message: WebSocketMessage) => void;
+  addMessageHandler: (
+    handler: (message: WebSocketMessage) => void,
+    scope?: string,
+  ) => () => void;
+};
+
+const WebSocketContext = createContext<WebSocketContextValue | null>(null);
+
+// Holds the page's one socket connection. Components register handlers on
+// it through useWebSocket; every handler sees every event.
+export function WebSocketProvider({ children }: { children: ReactNode }) {
   const { user } = useUser();
   const { toast } = useToast();
   const wsRef = useRef<WebSocket | null>(null);
@@ -42,9 +62,10 @@ export function useWebSocket() {
     console.log("Attempting WebSocket connection to:", wsUrl);
     const ws = new WebSocket(wsUrl);
 
+    // The server authenticates the socket from the session cookie sent with
+    // the upgrade request, so there is no auth handshake to perform here
     ws.onopen = () => {
-      console.log("WebSocket connected, authenticating...");
-      ws.send(JSON.stringify({ type: "auth", userId: user.id }));
+      console.log("WebSocket connected");
       reconnectAttemptsRef.current = 0;
       isConnectingRef.current = false;
 
@@ -75,30 +96,15 @@ export function useWebSocket() {
           return;
         }
 
-        // Process all handlers (both persistent and temporary)
+        // Process all handlers (both persistent and temporary); each handler
+        // filters the events it cares about by type and scope ids
         const allHandlers = [
           ...persistentHandlersRef.current,
           ...temporaryHandlersRef.current,
         ];
         allHandlers.forEach(({ handler, scope }) => {
           try {
-            // Channel messages should be handled by channel handlers
-            if (message.type === "message" && scope.startsWith("channel-")) {
-              console.log(
-                `Processing channel message with handler (scope: ${scope})`,
-              );
-              handler(message);
-            }
-            // Thread messages should only be handled by thread handlers
-            else if (
-              message.type === "thread_message" &&
-              scope.startsWith("thread-")
-            ) {
-              console.log(
-                `Processing thread message with handler (scope: ${scope})`,
-              );
-              handler(message);
-            }
+            handler(message);
           } catch (error) {
             console.error(`Handler error for scope ${scope}:`, error);
           }
@@ -184,9 +190,15 @@ export function useWebSocket() {
       if (reconnectTimeoutRef.current) {
         clearTimeout(reconnectTimeoutRef.current);
       }
-      if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
-        wsRef.current.close(1000); // Normal closure
+      // Close a socket that is still connecting as well, without letting
+      // its close event schedule a reconnect
+      const ws = wsRef.current;
+      if (ws) {
+        ws.onclose = null;
+        ws.close(1000); // Normal closure
+        wsRef.current = null;
       }
+      isConnectingRef.current = false;
     };
   }, [user, connect]);
 
@@ -273,12 +285,19 @@ export function useWebSocket() {
         })),
       });
 
-      // Return cleanup function
+      // Return cleanup function. The socket outlives the component that
+      // registered the handler, so channel handlers are removed too.
       return () => {
-        if (!isPersistent) {
-          console.log(
-            `Removing temporary handler (${handlerId}) for scope: ${scope}`,
+        console.log(`Removing handler (${handlerId}) for scope: ${scope}`);
+        if (isPersistent) {
+          const remaining = persistentHandlersRef.current.filter(
+            (h) => h.id !== handlerId,
           );
+          if (remaining.length < persistentHandlersRef.current.length) {
+            activeChannelsRef.current.delete(scope);
+          }
+          persistentHandlersRef.current = remaining;
+        } else {
           temporaryHandlersRef.current = temporaryHandlersRef.current.filter(
             (h) => h.id !== handlerId,
           );
@@ -288,8 +307,22 @@ export function useWebSocket() {
     [],
   );
 
-  return {
-    sendMessage,
-    addMessageHandler,
-  };
+  const value = useMemo(
+    () => ({ sendMessage, addMessageHandler }),
+    [sendMessage, addMessageHandler],
+  );
+
+  return (
+    <WebSocketContext.Provider value={value}>
+      {children}
+    </WebSocketContext.Provider>
+  );
+}
+
+export function useWebSocket() {
+  const context = useContext(WebSocketContext);
+  if (!context) {
+    throw new Error("useWebSocket must be used within a <WebSocketProvider />");
+  }
+  return context;
 }
@@ -0,0 +1,120 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { Workspace, WorkspaceRole } from "@db/schema";
+import { request } from "@/hooks/use-invites";
+
+export type WorkspaceMember = {
+  userId: number;
+  username: string;
+  avatar: string | null;
+  status: string | null;
+  role: WorkspaceRole | null;
+  joinedAt: string | null;
+  deactivatedAt: string | null;
+};
+
+export type UpdateMemberData = {
+  userId: number;
+  role?: WorkspaceRole;
+  deactivated?: boolean;
+};
+
+// Ranks match the order of workspaceRoles: a lower rank outranks a higher one
+const ROLE_RANKS: Record<WorkspaceRole, number> = {
+  owner: 0,
+  admin: 1,
+  member: 2,
+  guest: 3,
+};
+
+// Mirrors canManageMember in server/permissions.ts
+export function canManageMember(
+  actorRole: WorkspaceRole | null,
+  targetRole: WorkspaceRole | null,
+) {
+  if (actorRole !== "owner" && actorRole !== "admin") return false;
+  return ROLE_RANKS[actorRole] < ROLE_RANKS[targetRole ?? "member"];
+}
+
+// Roles the current user can hand out; ownership only moves by transfer
+export function getAssignableRoles(actorRole: WorkspaceRole | null) {
+  if (actorRole !== "owner" && actorRole !== "admin") return [];
+  return (["admin", "member", "guest"] as const).filter(
+    (role) => ROLE_RANKS[role] >= ROLE_RANKS[actorRole],
+  );
+}
+
+// A workspace's members with their roles, and the admin actions on them
+export function useWorkspaceAdmin(workspaceId: number, enabled = true) {
+  const queryClient = useQueryClient();
+  const membersKey = [`/api/workspaces/${workspaceId}/members`];
+
+  const { data: members = [], isLoading } = useQuery<WorkspaceMember[]>({
+    queryKey: membersKey,
+    enabled,
+  });
+
+  const onMembersChange = () => {
+    queryClient.invalidateQueries({ queryKey: membersKey });
+    queryClient.invalidateQueries({
+      queryKey: [`/api/workspaces/${workspaceId}/users`],
+    });
+  };
+
+  const renameWorkspace = useMutation({
+    mutationFn: (name: string) =>
+      request<Workspace>(`/api/workspaces/${workspaceId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: [`/api/workspaces/${workspaceId}`],
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/workspaces"] });
+    },
+  });
+
+  const updateMember = useMutation({
+    mutationFn: ({ userId, ...data }: UpdateMemberData) =>
+      request(`/api/workspaces/${workspaceId}/members/${userId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      }),
+    onSuccess: onMembersChange,
+  });
+
+  const removeMember = useMutation({
+    mutationFn: (userId: number) =>
+      request(`/api/workspaces/${workspaceId}/members/${userId}`, {
+        method: "DELETE",
+      }),
+    onSuccess: onMembersChange,
+  });
+
+  const transferOwnership = useMutation({
+    mutationFn: (userId: number) =>
+      request(`/api/workspaces/${workspaceId}/transfer-ownership`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userId }),
+      }),
+    onSuccess: () => {
+      onMembersChange();
+      // The current user's own role changed too
+      queryClient.invalidateQueries({
+        queryKey: [`/api/workspaces/${workspaceId}`],
+      });
+    },
+  });
+
+  return {
+    members,
+    isLoading,
+    renameWorkspace,
+    updateMember,
+    removeMember,
+    transferOwnership,
+  };
+}
@@ -0,0 +1,46 @@
+import { useQuery } from "@tanstack/react-query";
+import type { WorkspaceRole } from "@db/schema";
+
+// Mirrors the permission table in server/permissions.ts
+export type Capabilities = {
+  accessPublicChannels: boolean;
+  createChannels: boolean;
+  addChannelMembers: boolean;
+  manageChannels: boolean;
+  deleteAnyMessage: boolean;
+  inviteMembers: boolean;
+  manageMembers: boolean;
+  transferOwnership: boolean;
+  renameWorkspace: boolean;
+};
+
+const NO_CAPABILITIES: Capabilities = {
+  accessPublicChannels: false,
+  createChannels: false,
+  addChannelMembers: false,
+  manageChannels: false,
+  deleteAnyMessage: false,
+  inviteMembers: false,
+  manageMembers: false,
+  transferOwnership: false,
+  renameWorkspace: false,
+};
+
+type WorkspaceMembership = {
+  membership?: { role: WorkspaceRole | null };
+  capabilities?: Capabilities;
+};
+
+// The current user's role in a workspace and what it lets them do. Shares
+// the workspace query with ChatPage; nothing is allowed until it loads.
+export function useWorkspacePermissions(workspaceId?: number | null) {
+  const { data } = useQuery<WorkspaceMembership>({
+    queryKey: [`/api/workspaces/${workspaceId}`],
+    enabled: !!workspaceId,
+  });
+
+  return {
+    role: data?.membership?.role ?? null,
+    capabilities: data?.capabilities ?? NO_CAPABILITIES,
+  };
+}
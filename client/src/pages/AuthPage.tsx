@@ -4,6 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
+import { useInvitePreview } from "@/hooks/use-invites";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Label } from "@/components/ui/label";
 import { useLocation } from "wouter";
@@ -26,13 +27,20 @@ export default function AuthPage() {
   const { login, register } = useUser();
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
-  const [location] = useLocation();
+  const [location, setLocation] = useLocation();
 
   // Get workspace ID from URL if available
   const workspaceId = location.startsWith('/workspace/') 
     ? parseInt(location.split('/')[2], 10) 
     : undefined;
 
+  // Invite links sign in or register straight into the invite's workspace
+  const inviteToken = location.startsWith('/invite/')
+    ? location.split('/')[2]
+    : undefined;
+  const { data: invite, isLoading: isLoadingInvite, error: inviteError } =
+    useInvitePreview(inviteToken);
+
   // Fetch workspace details if workspaceId is present
   const { data: workspace, isLoading: isLoadingWorkspace, error: workspaceError } = useQuery<Workspace>({
     queryKey: [`/api/workspaces/${workspaceId}`],
@@ -48,13 +56,10 @@ export default function AuthPage() {
     const password = formData.get("password") as string;
 
     try {
-      // For registration in a specific workspace, ensure workspaceId is included
-      const registrationData = workspaceId 
-        ? { 
-            username, 
-            password, 
-            workspaceId // This will be properly typed as number since we parsed it above
-          }
+      // Existing workspaces are joined through the invite; otherwise a new
+      // organization and workspace are created
+      const registrationData = inviteToken
+        ? { username, password, inviteToken }
         : {
             username,
             password,
@@ -63,7 +68,7 @@ export default function AuthPage() {
           };
 
       const result = isLogin 
-        ? await login({ username, password, workspaceId })
+        ? await login({ username, password, workspaceId, inviteToken })
         : await register(registrationData);
 
       if (!result.ok) {
@@ -72,6 +77,8 @@ export default function AuthPage() {
           description: result.message,
           variant: "destructive",
         });
+      } else if (inviteToken && result.user?.workspaceId) {
+        setLocation(`/workspace/${result.user.workspaceId}`);
       }
     } catch (error) {
       toast({
@@ -84,8 +91,8 @@ export default function AuthPage() {
     }
   };
 
-  // Show loading state while fetching workspace details
-  if (workspaceId && isLoadingWorkspace) {
+  // Show loading state while fetching workspace or invite details
+  if ((workspaceId && isLoadingWorkspace) || (inviteToken && isLoadingInvite)) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-50">
         <Loader2 className="h-8 w-8 animate-spin text-border" />
@@ -112,13 +119,47 @@ export default function AuthPage() {
     );
   }
 
+  // Expired, revoked or used up invite links
+  if (inviteToken && inviteError) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <Card className="w-full max-w-md mx-4">
+          <CardContent className="pt-6">
+            <div className="flex mb-4 gap-2">
+              <AlertCircle className="h-8 w-8 text-red-500" />
+              <h1 className="text-2xl font-bold text-gray-900">Invite Not Valid</h1>
+            </div>
+            <p className="mt-4 text-sm text-gray-600">
+              {inviteError.message}. Ask a workspace admin for a new invite link.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  let title = "Welcome to ChatGenius";
+  if (invite) {
+    title = `Join ${invite.workspace.name}`;
+  } else if (workspace) {
+    title = `${workspace.name} Login`;
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
       <Card className="w-full max-w-md">
         <CardHeader className="space-y-1">
-          <CardTitle className="text-2xl font-bold">
-            {workspace ? `${workspace.name} Login` : "Welcome to ChatGenius"}
-          </CardTitle>
+          <CardTitle className="text-2xl font-bold">{title}</CardTitle>
+          {invite && (
+            <p className="text-sm text-muted-foreground">
+              You've been invited to join
+              {invite.workspace.organization
+                ? ` ${invite.workspace.organization.name}'s workspace`
+                : " this workspace"}{" "}
+              as {invite.role === "admin" ? "an" : "a"} {invite.role}. Sign in or
+              create an account to accept.
+            </p>
+          )}
         </CardHeader>
         <CardContent>
           <Tabs defaultValue="login">
@@ -153,44 +194,51 @@ export default function AuthPage() {
             </TabsContent>
 
             <TabsContent value="register">
-              <form onSubmit={(e) => handleSubmit(e, false)} className="space-y-4">
-                <div className="space-y-2">
-                  <Input
-                    name="username"
-                    placeholder="Choose a username"
-                    required
-                  />
-                  <Input
-                    name="password"
-                    type="password"
-                    placeholder="Choose a password"
-                    required
-                  />
-                  {!workspaceId && (
-                    <>
-                      <Label htmlFor="organization">Organization (Optional)</Label>
-                      <Input
-                        id="organization"
-                        name="organization"
-                        placeholder="Organization name"
-                      />
-                      <Label htmlFor="workspace">Workspace (Optional)</Label>
-                      <Input
-                        id="workspace"
-                        name="workspace"
-                        placeholder="Workspace name"
-                      />
-                    </>
-                  )}
-                </div>
-                <Button
-                  type="submit"
-                  className="w-full"
-                  disabled={isLoading}
-                >
-                  {isLoading ? "Loading..." : "Register"}
-                </Button>
-              </form>
+              {workspaceId && !inviteToken ? (
+                <p className="py-4 text-sm text-muted-foreground">
+                  Joining {workspace?.name ?? "this workspace"} requires an invite
+                  link. Ask a workspace admin to send you one.
+                </p>
+              ) : (
+                <form onSubmit={(e) => handleSubmit(e, false)} className="space-y-4">
+                  <div className="space-y-2">
+                    <Input
+                      name="username"
+                      placeholder="Choose a username"
+                      required
+                    />
+                    <Input
+                      name="password"
+                      type="password"
+                      placeholder="Choose a password"
+                      required
+                    />
+                    {!inviteToken && (
+                      <>
+                        <Label htmlFor="organization">Organization (Optional)</Label>
+                        <Input
+                          id="organization"
+                          name="organization"
+                          placeholder="Organization name"
+                        />
+                        <Label htmlFor="workspace">Workspace (Optional)</Label>
+                        <Input
+                          id="workspace"
+                          name="workspace"
+                          placeholder="Workspace name"
+                        />
+                      </>
+                    )}
+                  </div>
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={isLoading}
+                  >
+                    {isLoading ? "Loading..." : "Register"}
+                  </Button>
+                </form>
+              )}
             </TabsContent>
           </Tabs>
         </CardContent>
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import {
   ResizableHandle,
@@ -13,16 +13,31 @@ import UserPresence from "@/components/chat/UserPresence";
 import WorkspaceSidebar from "@/components/chat/WorkspaceSidebar";
 import WorkspaceSelector from "@/components/chat/WorkspaceSelector";
 import DirectMessageChat from "@/components/chat/DirectMessageChat";
+import ConversationList from "@/components/chat/ConversationList";
+import ActivityFeed from "@/components/chat/ActivityFeed";
+import SearchDialog, { type SearchResult } from "@/components/chat/SearchDialog";
+import InvitesDialog from "@/components/chat/InvitesDialog";
+import { Button } from "@/components/ui/button";
 import { useUser } from "@/hooks/use-user";
-import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useWebSocket } from "@/hooks/use-websocket";
+import { useWorkspacePermissions } from "@/hooks/use-workspace-permissions";
+import { useConversations } from "@/hooks/use-direct-messages";
+import { useActivityUpdates } from "@/hooks/use-activity";
+import { Loader2, Search, UserPlus } from "lucide-react";
 
 type Channel = {
   id: number;
   name: string;
   workspaceId: number;
   isPrivate: boolean;
+  topic?: string | null;
+  description?: string | null;
+  archivedAt?: string | null;
   createdById: number;
   createdAt?: string;
+  isMember?: boolean;
+  lastReadMessageId?: number | null;
   members?: Array<{
     userId: number;
     role: string;
@@ -39,36 +54,29 @@ type Workspace = {
     name: string;
     domain?: string;
   };
-};
-
-type MessageType = {
-  message: {
-    id: number;
-    content: string;
-    createdAt: Date | null;
-    userId: number | null;
-    channelId: number | null;
-    directMessageId: number | null;
-    parentId: number | null;
-    attachments: Array<{ url: string; name: string }> | null;
-    updatedAt: Date | null;
-  };
-  user: {
-    id: number;
-    username: string;
-    avatar?: string | null;
+  membership?: {
+    role: string | null;
   };
 };
 
 export default function ChatPage() {
   const { user } = useUser();
   const [location, setLocation] = useLocation();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { addMessageHandler } = useWebSocket();
   const [selectedChannelId, setSelectedChannelId] = useState<number | null>(null);
-  const [selectedUserId, setSelectedUserId] = useState<number | null>(null);
+  const [selectedDirectMessageId, setSelectedDirectMessageId] = useState<number | null>(null);
   const [selectedThreadId, setSelectedThreadId] = useState<number | null>(null);
   const [threadDirectMessageId, setThreadDirectMessageId] = useState<number | null>(null);
   const [activeView, setActiveView] = useState("home");
-  const [messages, setMessages] = useState<MessageType[] | null>(null);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [isInvitesOpen, setIsInvitesOpen] = useState(false);
+  // Message opened from search, highlighted until the user navigates away
+  const [searchTarget, setSearchTarget] = useState<{
+    messageId: number;
+    parentId: number | null;
+  } | null>(null);
 
   // Get workspace ID from URL if it exists
   const workspaceId = location.startsWith("/workspace/")
@@ -79,6 +87,7 @@ export default function ChatPage() {
     queryKey: [`/api/workspaces/${workspaceId}`],
     enabled: !!workspaceId && workspaceId > 0,
   });
+  const { capabilities } = useWorkspacePermissions(workspaceId);
 
   // Query for channels when workspace is selected
   const { data: channels } = useQuery<Channel[]>({
@@ -86,50 +95,103 @@ export default function ChatPage() {
     enabled: !!workspaceId && workspaceId > 0,
   });
 
-  // Query for workspace users
-  const { data: users } = useQuery<{ username: string; id: number }[]>({
-    queryKey: [`/api/workspaces/${workspaceId}/users`],
-    enabled: !!workspaceId && workspaceId > 0,
-  });
+  useActivityUpdates(workspaceId);
 
-  useEffect(() => {
-    // Fetch messages based on selectedChannelId or selectedUserId
-    const fetchMessages = async () => {
-      if (selectedChannelId) {
-        // Fetch messages for channel
-        const response = await fetch(`/api/channels/${selectedChannelId}/messages`);
-        const data = await response.json();
-        setMessages(data);
-      } else if (selectedUserId && workspaceId) {
-        // Fetch messages for direct message
-        const response = await fetch(`/api/workspaces/${workspaceId}/direct-messages/${selectedUserId}`);
-        const data = await response.json();
-        setMessages(data);
-      } else {
-        setMessages(null);
-      }
-    };
-    fetchMessages();
-  }, [selectedChannelId, selectedUserId, workspaceId]);
+  // Shared with the sidebar, for the selected conversation's participants
+  const { data: conversations } = useConversations(workspaceId ?? 0);
 
   // Reset selections when workspace changes
   useEffect(() => {
     setSelectedChannelId(null);
-    setSelectedUserId(null);
+    setSelectedDirectMessageId(null);
     setSelectedThreadId(null);
     setThreadDirectMessageId(null);
-    setMessages(null);
+    setSearchTarget(null);
   }, [workspaceId]);
 
+  // Leave a channel view once it drops out of the list, e.g. after being
+  // removed from a private channel
+  useEffect(() => {
+    if (
+      selectedChannelId &&
+      channels &&
+      !channels.some((c) => c.id === selectedChannelId)
+    ) {
+      setSelectedChannelId(null);
+      setSelectedThreadId(null);
+    }
+  }, [channels, selectedChannelId]);
+
+  // Keep the workspace and its member list in sync with admin changes, and
+  // leave the workspace if the current user loses access to it
+  useEffect(() => {
+    if (!workspaceId) return;
+
+    return addMessageHandler((msg) => {
+      if (msg.workspaceId !== workspaceId) return;
+
+      if (msg.type === "workspace_updated") {
+        queryClient.invalidateQueries({
+          queryKey: [`/api/workspaces/${workspaceId}`],
+        });
+        queryClient.invalidateQueries({ queryKey: ["/api/user/workspaces"] });
+      } else if (msg.type === "workspace_member") {
+        queryClient.invalidateQueries({
+          queryKey: [`/api/workspaces/${workspaceId}/members`],
+        });
+        queryClient.invalidateQueries({
+          queryKey: [`/api/workspaces/${workspaceId}/users`],
+        });
+        if (msg.userId !== user?.id) return;
+
+        if (msg.action === "removed" || msg.action === "deactivated") {
+          toast({
+            title: "You no longer have access to this workspace",
+            description:
+              msg.action === "removed"
+                ? "You were removed by an admin"
+                : "Your account was deactivated by an admin",
+            variant: "destructive",
+          });
+          queryClient.invalidateQueries({ queryKey: ["/api/user/workspaces"] });
+          setLocation("/");
+        } else {
+          // Our role changed, and with it what we're allowed to do
+          queryClient.invalidateQueries({
+            queryKey: [`/api/workspaces/${workspaceId}`],
+          });
+          queryClient.invalidateQueries({
+            queryKey: [`/api/workspaces/${workspaceId}/channels`],
+          });
+        }
+      }
+    }, `workspace-${workspaceId}`);
+  }, [workspaceId, user, queryClient, addMessageHandler, toast, setLocation]);
+
+  // Cmd/Ctrl+K opens message search
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setIsSearchOpen((open) => !open);
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
   // Modified selection handlers for mutual exclusivity
   const handleChannelSelect = (channelId: number) => {
-    setSelectedUserId(null); // Clear DM selection when selecting a channel
+    setSelectedDirectMessageId(null); // Clear DM selection when selecting a channel
     setSelectedChannelId(channelId);
+    setSearchTarget(null);
   };
 
-  const handleDirectMessageSelect = (userId: number) => {
+  const handleDirectMessageSelect = (directMessageId: number) => {
     setSelectedChannelId(null); // Clear channel selection when selecting a DM
-    setSelectedUserId(userId);
+    setSelectedDirectMessageId(directMessageId);
+    setSearchTarget(null);
   };
 
   const handleThreadSelect = (messageId: number, directMessageId?: number | null) => {
@@ -137,12 +199,51 @@ export default function ChatPage() {
     setThreadDirectMessageId(directMessageId || null);
   };
 
+  // Open the conversation containing a message, e.g. a search result or an
+  // activity item, and its thread if the message is a reply
+  const openMessage = (message: {
+    id: number;
+    channelId: number | null;
+    directMessageId: number | null;
+    parentId: number | null;
+  }) => {
+    if (message.channelId) {
+      setSelectedDirectMessageId(null);
+      setSelectedChannelId(message.channelId);
+    } else if (message.directMessageId) {
+      setSelectedChannelId(null);
+      setSelectedDirectMessageId(message.directMessageId);
+    } else {
+      return;
+    }
+
+    if (message.parentId) {
+      handleThreadSelect(
+        message.parentId,
+        message.channelId ? null : message.directMessageId,
+      );
+    } else {
+      setSelectedThreadId(null);
+      setThreadDirectMessageId(null);
+    }
+    setSearchTarget({ messageId: message.id, parentId: message.parentId });
+  };
+
+  const handleSearchSelect = ({ message }: SearchResult) => openMessage(message);
+
+  // Replies are highlighted in the thread; the conversation shows the parent
+  const highlightedRootId = searchTarget
+    ? searchTarget.parentId ?? searchTarget.messageId
+    : null;
+
   if (!user) return null;
 
   const handleWorkspaceSelect = (selectedWorkspaceId: number) => {
     setLocation(`/workspace/${selectedWorkspaceId}`);
   };
 
+  const selectedChannel = channels?.find((c) => c.id === selectedChannelId);
+
   // Only show loading state when we're waiting for a specific workspace
   if (workspaceId && isLoadingWorkspace) {
     return (
@@ -154,6 +255,21 @@ export default function ChatPage() {
 
   return (
     <div className="h-screen flex flex-col">
+      {workspace && (
+        <SearchDialog
+          workspaceId={workspace.id}
+          open={isSearchOpen}
+          onOpenChange={setIsSearchOpen}
+          onSelect={handleSearchSelect}
+        />
+      )}
+      {workspace && capabilities.inviteMembers && (
+        <InvitesDialog
+          workspaceId={workspace.id}
+          open={isInvitesOpen}
+          onOpenChange={setIsInvitesOpen}
+        />
+      )}
       <header className="border-b px-4 py-3 bg-background">
         <div className="flex items-center justify-between">
           {workspace ? (
@@ -164,6 +280,26 @@ export default function ChatPage() {
                   ({workspace.organization.name})
                 </span>
               )}
+              <Button
+                variant="outline"
+                size="sm"
+                className="ml-4 w-64 justify-start text-muted-foreground"
+                onClick={() => setIsSearchOpen(true)}
+              >
+                <Search className="h-4 w-4 mr-2" />
+                Search messages
+                <kbd className="ml-auto text-xs">⌘K</kbd>
+              </Button>
+              {capabilities.inviteMembers && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setIsInvitesOpen(true)}
+                >
+                  <UserPlus className="h-4 w-4 mr-2" />
+                  Invite people
+                </Button>
+              )}
             </div>
           ) : (
             <WorkspaceSelector onSelect={handleWorkspaceSelect} />
@@ -188,6 +324,7 @@ export default function ChatPage() {
         <ResizablePanelGroup direction="horizontal" className="flex-1">
           <ResizablePanel defaultSize={7} minSize={7} maxSize={7}>
             <WorkspaceSidebar
+              workspaceId={workspace.id}
               activeView={activeView}
               onViewChange={setActiveView}
             />
@@ -196,38 +333,62 @@ export default function ChatPage() {
           <ResizableHandle />
 
           <ResizablePanel defaultSize={20} minSize={15} maxSize={30}>
-            <ChatSidebar
-              workspaceId={workspace.id}
-              selectedChannelId={selectedChannelId}
-              selectedUserId={selectedUserId}
-              onSelectChannel={handleChannelSelect}
-              onSelectDirectMessage={handleDirectMessageSelect}
-            />
+            {activeView === "activity" ? (
+              <ActivityFeed
+                workspaceId={workspace.id}
+                onSelectMessage={openMessage}
+              />
+            ) : activeView === "dms" ? (
+              <ConversationList
+                workspaceId={workspace.id}
+                selectedDirectMessageId={selectedDirectMessageId}
+                onSelectConversation={handleDirectMessageSelect}
+              />
+            ) : (
+              <ChatSidebar
+                workspaceId={workspace.id}
+                selectedChannelId={selectedChannelId}
+                selectedDirectMessageId={selectedDirectMessageId}
+                onSelectChannel={handleChannelSelect}
+                onSelectDirectMessage={handleDirectMessageSelect}
+              />
+            )}
           </ResizablePanel>
 
           <ResizableHandle />
 
           <ResizablePanel defaultSize={50}>
-            {selectedUserId && users && messages ? (
+            {selectedDirectMessageId ? (
               <DirectMessageChat
-                userId={selectedUserId}
-                username={
-                  users.find((u) => u.id === selectedUserId)?.username || ""
+                directMessageId={selectedDirectMessageId}
+                participants={
+                  conversations?.find((c) => c.id === selectedDirectMessageId)
+                    ?.participants ?? []
                 }
                 workspaceId={workspace.id}
-                messages={messages}
-                onThreadSelect={(messageId) => {
-                  const message = messages?.find(m => m.message.id === messageId);
-                  handleThreadSelect(messageId, message?.message.directMessageId);
-                }}
+                onThreadSelect={(messageId) =>
+                  handleThreadSelect(messageId, selectedDirectMessageId)
+                }
+                highlightMessageId={highlightedRootId}
               />
             ) : (
               <MessageList
                 channelId={selectedChannelId}
-                channelName={
-                  channels?.find((c) => c.id === selectedChannelId)?.name
+                channelName={selectedChannel?.name}
+                topic={selectedChannel?.topic}
+                description={selectedChannel?.description}
+                workspaceId={workspace.id}
+                isPrivate={selectedChannel?.isPrivate}
+                isArchived={!!selectedChannel?.archivedAt}
+                isMember={selectedChannel?.isMember ?? true}
+                canManageChannel={
+                  capabilities.manageChannels ||
+                  selectedChannel?.createdById === user.id
                 }
+                lastReadMessageId={selectedChannel?.lastReadMessageId}
                 onThreadSelect={(messageId) => handleThreadSelect(messageId)}
+                canModerate={capabilities.deleteAnyMessage}
+                highlightMessageId={highlightedRootId}
               />
             )}
           </ResizablePanel>
@@ -239,6 +400,10 @@ export default function ChatPage() {
                 <ThreadView
                   messageId={selectedThreadId}
                   directMessageId={threadDirectMessageId}
+                  workspaceId={workspace.id}
+                  canModerate={capabilities.deleteAnyMessage}
+                  highlightMessageId={searchTarget?.parentId ? searchTarget.messageId : null}
+                  readOnly={!threadDirectMessageId && !!selectedChannel?.archivedAt}
                   onClose={() => {
                     setSelectedThreadId(null);
                     setThreadDirectMessageId(null);
@@ -0,0 +1,92 @@
+import { useLocation, useRoute } from "wouter";
+import { AlertCircle, Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useAcceptInvite, useInvitePreview } from "@/hooks/use-invites";
+
+// Invite link opened by a signed-in user: confirm, then join and open the
+// workspace. Signed-out users get AuthPage instead.
+export default function InvitePage() {
+  const [, params] = useRoute("/invite/:token");
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const token = params?.token;
+
+  const { data: invite, isLoading, error } = useInvitePreview(token);
+  const acceptInvite = useAcceptInvite();
+
+  const handleAccept = async () => {
+    if (!token) return;
+    try {
+      const { workspaceId } = await acceptInvite.mutateAsync(token);
+      setLocation(`/workspace/${workspaceId}`);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to join workspace",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <Loader2 className="h-8 w-8 animate-spin text-border" />
+      </div>
+    );
+  }
+
+  if (error || !invite) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <Card className="w-full max-w-md mx-4">
+          <CardContent className="pt-6">
+            <div className="flex mb-4 gap-2">
+              <AlertCircle className="h-8 w-8 text-red-500" />
+              <h1 className="text-2xl font-bold text-gray-900">Invite Not Valid</h1>
+            </div>
+            <p className="mt-4 text-sm text-gray-600">
+              {error?.message ?? "Invite not found"}. Ask a workspace admin for a
+              new invite link.
+            </p>
+            <Button variant="outline" className="mt-4" onClick={() => setLocation("/")}>
+              Back to your workspaces
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold">
+            Join {invite.workspace.name}
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            {invite.workspace.organization
+              ? `${invite.workspace.organization.name} · `
+              : ""}
+            You'll join as {invite.role === "admin" ? "an" : "a"} {invite.role}.
+          </p>
+        </CardHeader>
+        <CardContent className="flex gap-2">
+          <Button
+            className="flex-1"
+            onClick={handleAccept}
+            disabled={acceptInvite.isPending}
+          >
+            {acceptInvite.isPending ? "Joining..." : "Join workspace"}
+          </Button>
+          <Button variant="outline" onClick={() => setLocation("/")}>
+            Cancel
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -6,9 +6,13 @@ import {
   boolean,
   integer,
   jsonb,
+  uniqueIndex,
+  index,
+  check,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 import type { InferModel } from 'drizzle-orm';
 
 // Organizations table
@@ -40,6 +44,11 @@ export const users = pgTable("users", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Workspace roles, most to least privileged. What each role may do is
+// defined in server/permissions.ts.
+export const workspaceRoles = ["owner", "admin", "member", "guest"] as const;
+export type WorkspaceRole = (typeof workspaceRoles)[number];
+
 // User-Workspace membership
 export const workspaceMembers = pgTable("workspace_members", {
   id: serial("id").primaryKey(),
@@ -49,24 +58,43 @@ export const workspaceMembers = pgTable("workspace_members", {
   workspaceId: integer("workspace_id")
     .references(() => workspaces.id)
     .notNull(),
-  role: text("role").default("member"),
+  role: text("role", { enum: workspaceRoles }).default("member"),
   joinedAt: timestamp("joined_at").defaultNow(),
+  // Deactivated members keep their role but lose access until reactivated
+  deactivatedAt: timestamp("deactivated_at"),
+  // Activity feed items newer than this are unread; null means none read
+  activityReadAt: timestamp("activity_read_at"),
 });
 
 // Channels table
-export const channels = pgTable("channels", {
-  id: serial("id").primaryKey(),
-  name: text("name").notNull(),
-  workspaceId: integer("workspace_id")
-    .references(() => workspaces.id)
-    .notNull(),
-  isPrivate: boolean("is_private").default(false),
-  joinByDefault: boolean("join_by_default").default(true),
-  createdAt: timestamp("created_at").defaultNow(),
-  createdById: integer("created_by_id")
-    .references(() => users.id)
-    .notNull(),
-});
+export const channels = pgTable(
+  "channels",
+  {
+    id: serial("id").primaryKey(),
+    name: text("name").notNull(),
+    workspaceId: integer("workspace_id")
+      .references(() => workspaces.id)
+      .notNull(),
+    isPrivate: boolean("is_private").default(false),
+    joinByDefault: boolean("join_by_default").default(true),
+    // Short line shown in the channel header
+    topic: text("topic"),
+    description: text("description"),
+    // Archived channels are read-only and hidden from the channel list
+    archivedAt: timestamp("archived_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+    createdById: integer("created_by_id")
+      .references(() => users.id)
+      .notNull(),
+  },
+  (table) => [
+    // Channel names are unique per workspace, ignoring case
+    uniqueIndex("channels_workspace_name_idx").on(
+      table.workspaceId,
+      sql`lower(${table.name})`,
+    ),
+  ],
+);
 
 export const channelMembers = pgTable("channel_members", {
   id: serial("id").primaryKey(),
@@ -79,41 +107,240 @@ export const channelMembers = pgTable("channel_members", {
   joinedAt: timestamp("joined_at").defaultNow(),
 });
 
-// Direct Messages table to track conversations between two users in a workspace
-export const directMessages = pgTable("direct_messages", {
+// Direct message conversations between two or more users in a workspace.
+// Who takes part is recorded in directMessageParticipants.
+export const directMessages = pgTable(
+  "direct_messages",
+  {
+    id: serial("id").primaryKey(),
+    workspaceId: integer("workspace_id")
+      .references(() => workspaces.id)
+      .notNull(),
+    // Sorted participant ids ("3,8,12"), so opening a conversation with the
+    // same people finds the existing one
+    participantKey: text("participant_key"),
+    // One-to-one conversations from before participants were tracked. Only
+    // read by scripts/backfillDirectMessageParticipants.ts.
+    user1Id: integer("user1_id").references(() => users.id),
+    user2Id: integer("user2_id").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("direct_messages_workspace_participants_idx").on(
+      table.workspaceId,
+      table.participantKey,
+    ),
+  ],
+);
+
+export const directMessageParticipants = pgTable(
+  "direct_message_participants",
+  {
+    id: serial("id").primaryKey(),
+    directMessageId: integer("direct_message_id")
+      .references(() => directMessages.id)
+      .notNull(),
+    userId: integer("user_id")
+      .references(() => users.id)
+      .notNull(),
+    joinedAt: timestamp("joined_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("direct_message_participants_dm_user_idx").on(
+      table.directMessageId,
+      table.userId,
+    ),
+    // A user's conversations
+    index("direct_message_participants_user_idx").on(table.userId),
+  ],
+);
+
+// Summary of an uploaded file, as carried in messages.attachments. The file
+// itself is served from url (/api/attachments/:id). Images we can preview
+// also have their dimensions and a thumbnail.
+export type Attachment = {
+  id: number;
+  url: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  width?: number | null;
+  height?: number | null;
+  thumbnailUrl?: string | null;
+};
+
+// System messages record channel changes ("renamed the channel"); their
+// userId is the member who made the change
+export const messageTypes = ["message", "system"] as const;
+export type MessageType = (typeof messageTypes)[number];
+
+// Updated messages table to support both channel and direct messages
+export const messages = pgTable(
+  "messages",
+  {
+    id: serial("id").primaryKey(),
+    content: text("content").notNull(),
+    userId: integer("user_id").references(() => users.id),
+    // Make channelId optional since message can be in either channel or DM
+    channelId: integer("channel_id").references(() => channels.id),
+    // Add directMessageId for DM support
+    directMessageId: integer("direct_message_id").references(() => directMessages.id),
+    parentId: integer("parent_id").references((): AnyPgColumn => messages.id),
+    type: text("type", { enum: messageTypes }).default("message").notNull(),
+    attachments: jsonb("attachments").$type<Attachment[]>(),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+    // Soft-delete tombstone so replies keep their thread parent
+    deletedAt: timestamp("deleted_at"),
+  },
+  (table) => [
+    // Paging through a channel's root messages
+    index("messages_channel_parent_created_idx").on(
+      table.channelId,
+      table.parentId,
+      table.createdAt,
+    ),
+    // Reply counts and thread loads
+    index("messages_parent_idx").on(table.parentId),
+    // Full-text search. Kept as an expression index rather than a stored
+    // column so message payloads don't carry the tsvector.
+    index("messages_search_idx").using(
+      "gin",
+      sql`to_tsvector('english', ${table.content})`,
+    ),
+    // Every message is in exactly one channel or DM conversation
+    check(
+      "messages_one_conversation_check",
+      sql`num_nonnulls(${table.channelId}, ${table.directMessageId}) = 1`,
+    ),
+  ],
+);
+
+export const reactions = pgTable(
+  "reactions",
+  {
+    id: serial("id").primaryKey(),
+    emoji: text("emoji").notNull(),
+    userId: integer("user_id").references(() => users.id),
+    messageId: integer("message_id").references(() => messages.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    // A user can react with a given emoji only once per message
+    uniqueIndex("reactions_message_user_emoji_idx").on(
+      table.messageId,
+      table.userId,
+      table.emoji,
+    ),
+    index("reactions_message_idx").on(table.messageId),
+  ],
+);
+
+// How far each user has read in a channel or DM conversation. Exactly one
+// of channelId and directMessageId is set.
+export const lastReads = pgTable(
+  "last_reads",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id")
+      .references(() => users.id)
+      .notNull(),
+    channelId: integer("channel_id").references(() => channels.id),
+    directMessageId: integer("direct_message_id").references(
+      () => directMessages.id,
+    ),
+    lastReadMessageId: integer("last_read_message_id").references(
+      () => messages.id,
+    ),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("last_reads_user_channel_idx").on(
+      table.userId,
+      table.channelId,
+    ),
+    uniqueIndex("last_reads_user_direct_message_idx").on(
+      table.userId,
+      table.directMessageId,
+    ),
+  ],
+);
+
+// Users notified by a message. @channel and @here are expanded into one row
+// per recipient; type records how they were mentioned.
+export const messageMentions = pgTable(
+  "message_mentions",
+  {
+    id: serial("id").primaryKey(),
+    messageId: integer("message_id")
+      .references(() => messages.id)
+      .notNull(),
+    mentionedUserId: integer("mentioned_user_id")
+      .references(() => users.id)
+      .notNull(),
+    type: text("type", { enum: ["user", "channel", "here"] }).notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("message_mentions_message_user_idx").on(
+      table.messageId,
+      table.mentionedUserId,
+    ),
+    index("message_mentions_user_idx").on(table.mentionedUserId),
+  ],
+);
+
+// Files uploaded through /api/upload. Stored under a random key rather
+// than the user's file name; channelId/directMessageId and messageId are set
+// once the upload is sent with a message, and decide who may download it.
+export const attachments = pgTable(
+  "attachments",
+  {
+    id: serial("id").primaryKey(),
+    storageKey: text("storage_key").unique().notNull(),
+    uploaderId: integer("uploader_id")
+      .references(() => users.id)
+      .notNull(),
+    workspaceId: integer("workspace_id")
+      .references(() => workspaces.id)
+      .notNull(),
+    channelId: integer("channel_id").references(() => channels.id),
+    directMessageId: integer("direct_message_id").references(
+      () => directMessages.id,
+    ),
+    messageId: integer("message_id").references(() => messages.id),
+    name: text("name").notNull(),
+    mimeType: text("mime_type").notNull(),
+    size: integer("size").notNull(),
+    // Hex-encoded SHA-256 of the file contents
+    sha256: text("sha256").notNull(),
+    // Set for images with a thumbnail
+    width: integer("width"),
+    height: integer("height"),
+    thumbnailKey: text("thumbnail_key"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("attachments_message_idx").on(table.messageId)],
+);
+
+// Invite links for joining a workspace. Anyone with the token can join
+// with the given role until it expires, is revoked or runs out of uses.
+export const workspaceInvites = pgTable("workspace_invites", {
   id: serial("id").primaryKey(),
+  token: text("token").unique().notNull(),
   workspaceId: integer("workspace_id")
     .references(() => workspaces.id)
     .notNull(),
-  user1Id: integer("user1_id")
-    .references(() => users.id)
-    .notNull(),
-  user2Id: integer("user2_id")
+  role: text("role", { enum: workspaceRoles }).default("member").notNull(),
+  createdById: integer("created_by_id")
     .references(() => users.id)
     .notNull(),
-  createdAt: timestamp("created_at").defaultNow(),
-});
-
-// Updated messages table to support both channel and direct messages
-export const messages = pgTable("messages", {
-  id: serial("id").primaryKey(),
-  content: text("content").notNull(),
-  userId: integer("user_id").references(() => users.id),
-  // Make channelId optional since message can be in either channel or DM
-  channelId: integer("channel_id").references(() => channels.id),
-  // Add directMessageId for DM support
-  directMessageId: integer("direct_message_id").references(() => directMessages.id),
-  parentId: integer("parent_id").references(() => messages.id),
-  attachments: jsonb("attachments").$type<{ url: string; name: string }[]>(),
-  createdAt: timestamp("created_at").defaultNow(),
-  updatedAt: timestamp("updated_at").defaultNow(),
-});
-
-export const reactions = pgTable("reactions", {
-  id: serial("id").primaryKey(),
-  emoji: text("emoji").notNull(),
-  userId: integer("user_id").references(() => users.id),
-  messageId: integer("message_id").references(() => messages.id),
+  // Null for unlimited uses
+  maxUses: integer("max_uses"),
+  useCount: integer("use_count").default(0).notNull(),
+  // Null for links that never expire
+  expiresAt: timestamp("expires_at"),
+  revokedAt: timestamp("revoked_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -151,6 +378,7 @@ export const usersRelations = relations(users, ({ many }) => ({
   reactions: many(reactions),
   directMessagesAsUser1: many(directMessages, { relationName: "user1" }),
   directMessagesAsUser2: many(directMessages, { relationName: "user2" }),
+  directMessageParticipants: many(directMessageParticipants),
 }));
 
 export const workspaceMembersRelations = relations(workspaceMembers, ({ one }) => ({
@@ -221,9 +449,24 @@ export const directMessagesRelations = relations(directMessages, ({ one, many })
     fields: [directMessages.user2Id],
     references: [users.id],
   }),
+  participants: many(directMessageParticipants),
   messages: many(messages),
 }));
 
+export const directMessageParticipantsRelations = relations(
+  directMessageParticipants,
+  ({ one }) => ({
+    directMessage: one(directMessages, {
+      fields: [directMessageParticipants.directMessageId],
+      references: [directMessages.id],
+    }),
+    user: one(users, {
+      fields: [directMessageParticipants.userId],
+      references: [users.id],
+    }),
+  }),
+);
+
 
 // Schemas
 export const insertChannelSchema = createInsertSchema(channels);
@@ -249,5 +492,10 @@ export type Workspace = InferModel<typeof workspaces>;
 export type Channel = InferModel<typeof channels>;
 export type Message = InferModel<typeof messages>;
 export type Reaction = InferModel<typeof reactions>;
+export type LastRead = InferModel<typeof lastReads>;
+export type MessageMention = InferModel<typeof messageMentions>;
+export type AttachmentFile = InferModel<typeof attachments>;
+export type WorkspaceInvite = InferModel<typeof workspaceInvites>;
 // Add type for direct messages
-export type DirectMessage = InferModel<typeof directMessages>;
\ No newline at end of file
+export type DirectMessage = InferModel<typeof directMessages>;
+export type DirectMessageParticipant = InferModel<typeof directMessageParticipants>;
\ No newline at end of file
@@ -0,0 +1,76 @@
+import { and, eq, isNull } from "drizzle-orm";
+import { db } from "../db";
+import { directMessageParticipants, directMessages } from "../db/schema";
+import { getParticipantKey } from "../server/direct-messages";
+
+// Copies the participants of one-to-one conversations created before
+// direct_message_participants existed (user1_id/user2_id) into the new
+// table and sets their participant key. Safe to run more than once.
+//
+// Usage: npm run db:push && tsx scripts/backfillDirectMessageParticipants.ts
+
+async function backfillDirectMessageParticipants() {
+  try {
+    const conversations = await db
+      .select()
+      .from(directMessages)
+      .where(isNull(directMessages.participantKey))
+      .orderBy(directMessages.id);
+
+    let backfilled = 0;
+    for (const conversation of conversations) {
+      const userIds = [conversation.user1Id, conversation.user2Id].filter(
+        (id): id is number => id !== null,
+      );
+      if (userIds.length === 0) continue;
+
+      const participantKey = getParticipantKey(userIds);
+      await db.transaction(async (tx) => {
+        await tx
+          .insert(directMessageParticipants)
+          .values(
+            userIds.map((userId) => ({
+              directMessageId: conversation.id,
+              userId,
+            })),
+          )
+          .onConflictDoNothing();
+
+        // Both users may have started a conversation with each other. The
+        // older one keeps the key and is the one reopened from now on; the
+        // other stays readable to both.
+        const [existing] = await tx
+          .select({ id: directMessages.id })
+          .from(directMessages)
+          .where(
+            and(
+              eq(directMessages.workspaceId, conversation.workspaceId),
+              eq(directMessages.participantKey, participantKey),
+            ),
+          )
+          .limit(1);
+
+        if (existing) {
+          console.log(
+            `Conversation ${conversation.id} duplicates ${existing.id}; leaving it without a key`,
+          );
+          return;
+        }
+
+        await tx
+          .update(directMessages)
+          .set({ participantKey })
+          .where(eq(directMessages.id, conversation.id));
+      });
+      backfilled++;
+    }
+
+    console.log(`Backfilled participants for ${backfilled} conversations`);
+    process.exit(0);
+  } catch (error) {
+    console.error("Backfill failed:", error);
+    process.exit(1);
+  }
+}
+
+backfillDirectMessageParticipants();
@@ -0,0 +1,166 @@
+import { db } from "../db";
+import { messages, reactions } from "../db/schema";
+
+// Seeds a channel with a few thousand messages (plus replies and reactions)
+// and reports the latency of the channel message endpoint.
+//
+// Usage: BASE_URL=http://localhost:5000 tsx scripts/benchmarkMessages.ts
+// Requires a running server and the same DATABASE_URL it uses.
+
+const BASE_URL = process.env.BASE_URL || "http://localhost:5000";
+const MESSAGE_COUNT = parseInt(process.env.MESSAGE_COUNT || "3000");
+const ITERATIONS = parseInt(process.env.ITERATIONS || "50");
+const BATCH_SIZE = 500;
+const EMOJIS = ["👍", "🎉", "😂", "❤️"];
+
+async function request(path: string, cookie?: string, body?: unknown) {
+  const response = await fetch(`${BASE_URL}${path}`, {
+    method: body ? "POST" : "GET",
+    headers: {
+      ...(body ? { "Content-Type": "application/json" } : {}),
+      ...(cookie ? { Cookie: cookie } : {}),
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    throw new Error(`${path} failed: ${response.status} ${await response.text()}`);
+  }
+  return response;
+}
+
+async function setUp() {
+  const username = `bench-${Date.now()}`;
+  const response = await request("/api/register", undefined, {
+    username,
+    password: "benchmark",
+    organization: "Benchmark Org",
+    workspace: "Benchmark Workspace",
+  });
+
+  const cookie = response.headers.get("set-cookie")?.split(";")[0];
+  if (!cookie) {
+    throw new Error("Registration did not return a session cookie");
+  }
+
+  const { user } = await response.json();
+  const channel = await (
+    await request(`/api/workspaces/${user.workspaceId}/channels`, cookie, {
+      name: "benchmark",
+    })
+  ).json();
+
+  return { cookie, userId: user.id as number, channelId: channel.id as number };
+}
+
+async function seed(userId: number, channelId: number) {
+  const start = Date.now() - MESSAGE_COUNT * 1000;
+  const rootIds: number[] = [];
+
+  for (let offset = 0; offset < MESSAGE_COUNT; offset += BATCH_SIZE) {
+    const count = Math.min(BATCH_SIZE, MESSAGE_COUNT - offset);
+    const inserted = await db
+      .insert(messages)
+      .values(
+        Array.from({ length: count }, (_, i) => ({
+          content: `Benchmark message ${offset + i}`,
+          userId,
+          channelId,
+          createdAt: new Date(start + (offset + i) * 1000),
+        })),
+      )
+      .returning({ id: messages.id });
+    rootIds.push(...inserted.map((row) => row.id));
+  }
+
+  // Every fifth message gets a short thread, every third a few reactions
+  const replies = rootIds
+    .filter((_, i) => i % 5 === 0)
+    .flatMap((parentId) =>
+      [1, 2, 3].map((n) => ({
+        content: `Reply ${n}`,
+        userId,
+        channelId,
+        parentId,
+      })),
+    );
+  for (let offset = 0; offset < replies.length; offset += BATCH_SIZE) {
+    await db.insert(messages).values(replies.slice(offset, offset + BATCH_SIZE));
+  }
+
+  const reactionRows = rootIds
+    .filter((_, i) => i % 3 === 0)
+    .flatMap((messageId, i) =>
+      EMOJIS.slice(0, (i % EMOJIS.length) + 1).map((emoji) => ({
+        emoji,
+        userId,
+        messageId,
+      })),
+    );
+  for (let offset = 0; offset < reactionRows.length; offset += BATCH_SIZE) {
+    await db
+      .insert(reactions)
+      .values(reactionRows.slice(offset, offset + BATCH_SIZE));
+  }
+
+  console.log(
+    `Seeded ${rootIds.length} messages, ${replies.length} replies and ${reactionRows.length} reactions`,
+  );
+}
+
+async function time(path: string, cookie: string) {
+  const startedAt = performance.now();
+  const response = await request(path, cookie);
+  const body = await response.json();
+  return { duration: performance.now() - startedAt, body };
+}
+
+function report(label: string, durations: number[]) {
+  const sorted = [...durations].sort((a, b) => a - b);
+  const at = (p: number) =>
+    sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+  const avg = sorted.reduce((sum, d) => sum + d, 0) / sorted.length;
+
+  console.log(
+    `${label}: avg ${avg.toFixed(1)}ms, p50 ${at(0.5).toFixed(1)}ms, ` +
+      `p95 ${at(0.95).toFixed(1)}ms, max ${sorted[sorted.length - 1].toFixed(1)}ms`,
+  );
+}
+
+async function benchmarkMessages() {
+  try {
+    const { cookie, userId, channelId } = await setUp();
+    console.log(`Created channel ${channelId} for user ${userId}`);
+
+    await seed(userId, channelId);
+
+    const path = `/api/channels/${channelId}/messages`;
+
+    // Warm up connection pools and query plans
+    await time(path, cookie);
+
+    const latest: number[] = [];
+    for (let i = 0; i < ITERATIONS; i++) {
+      latest.push((await time(path, cookie)).duration);
+    }
+    report(`Latest page (${ITERATIONS} requests)`, latest);
+
+    // Walk back through history the way infinite scroll does
+    const paging: number[] = [];
+    let cursor: number | null = null;
+    do {
+      const query: string = cursor ? `?before=${cursor}` : "";
+      const { duration, body } = await time(`${path}${query}`, cookie);
+      paging.push(duration);
+      cursor = body.nextCursor;
+    } while (cursor);
+    report(`Full history (${paging.length} pages)`, paging);
+
+    process.exit(0);
+  } catch (error) {
+    console.error("Benchmark failed:", error);
+    process.exit(1);
+  }
+}
+
+benchmarkMessages();
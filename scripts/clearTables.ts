@@ -9,7 +9,8 @@ import {
   workspaces,
   organizations,
   users,
-  directMessages
+  directMessages,
+  directMessageParticipants
 } from "../db/schema";
 
 async function clearTables() {
@@ -29,6 +30,9 @@ async function clearTables() {
     console.log("Clearing channels...");
     await db.delete(channels);
     
+    console.log("Clearing direct message participants...");
+    await db.delete(directMessageParticipants);
+
     console.log("Clearing direct messages...");
     await db.delete(directMessages);
     
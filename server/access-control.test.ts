@@ -0,0 +1,387 @@
+import express, { type Express } from "express";
+import request from "supertest";
+import { beforeAll, describe, expect, it } from "vitest";
+
+// Who may read and write what: people outside a workspace, workspace
+// members outside a private channel or a DM, and participants who were
+// removed from the workspace must all be turned away, from every route
+// that reads or writes messages. Runs against TEST_DATABASE_URL, with the
+// schema pushed (npm run db:push); skipped when it isn't set.
+
+type Agent = ReturnType<typeof request.agent>;
+type Response = Awaited<ReturnType<Agent["get"]>>;
+
+// The server modules connect to the database on import, so they're only
+// loaded once we know there is one
+async function createApp() {
+  const { setupAuth } = await import("./auth");
+  const { registerRoutes } = await import("./routes");
+
+  const app = express();
+  app.use(express.json());
+  const sessionParser = setupAuth(app);
+  registerRoutes(app, sessionParser);
+  return app;
+}
+
+// Refused, and without saying more than that: 404 for things the user
+// can't know about, 403 where they can
+function expectDenied(res: Response) {
+  expect([403, 404]).toContain(res.status);
+  expect(JSON.stringify(res.body)).not.toContain("secret");
+}
+
+function expectOk(res: Response) {
+  expect(res.status, JSON.stringify(res.body)).toBe(200);
+}
+
+describe.skipIf(!process.env.TEST_DATABASE_URL)("access control", () => {
+  // Usernames are unique across the database, which outlives a run
+  const run = Date.now().toString(36);
+
+  let app: Express;
+  const agents = {} as Record<
+    "owner" | "member" | "friend" | "leaver" | "outsider",
+    Agent
+  >;
+  const ids = {} as Record<
+    | "workspace"
+    | "friend"
+    | "leaver"
+    | "publicChannel"
+    | "privateChannel"
+    | "publicMessage"
+    | "privateMessage"
+    | "directMessage"
+    | "dmMessage"
+    | "leaverDirectMessage"
+    | "leaverDmMessage",
+    number
+  >;
+
+  async function register(body: Record<string, string>) {
+    const agent = request.agent(app);
+    const res = await agent.post("/api/register").send({
+      password: "password",
+      ...body,
+      username: `${body.username}-${run}`,
+    });
+    expectOk(res);
+    return { agent, user: res.body.user };
+  }
+
+  async function invite(username: string) {
+    const res = await agents.owner
+      .post(`/api/workspaces/${ids.workspace}/invites`)
+      .send({});
+    expectOk(res);
+    return register({ username, inviteToken: res.body.token });
+  }
+
+  async function post(agent: Agent, body: Record<string, unknown>) {
+    const res = await agent.post("/api/messages").send(body);
+    expectOk(res);
+    return res.body.id as number;
+  }
+
+  async function openConversation(userId: number) {
+    const res = await agents.owner
+      .post(`/api/workspaces/${ids.workspace}/direct-messages`)
+      .send({ userIds: [userId] });
+    expectOk(res);
+    return res.body.id as number;
+  }
+
+  beforeAll(async () => {
+    app = await createApp();
+
+    const owner = await register({
+      username: "owner",
+      organization: `Org ${run}`,
+      workspace: `Workspace ${run}`,
+    });
+    agents.owner = owner.agent;
+    ids.workspace = owner.user.workspaceId;
+
+    const [member, friend, leaver] = await Promise.all([
+      invite("member"),
+      invite("friend"),
+      invite("leaver"),
+    ]);
+    agents.member = member.agent;
+    agents.friend = friend.agent;
+    agents.leaver = leaver.agent;
+    ids.friend = friend.user.id;
+    ids.leaver = leaver.user.id;
+
+    agents.outsider = (
+      await register({
+        username: "outsider",
+        organization: `Other org ${run}`,
+        workspace: `Other workspace ${run}`,
+      })
+    ).agent;
+
+    const publicChannel = await agents.owner
+      .post(`/api/workspaces/${ids.workspace}/channels`)
+      .send({ name: `public-${run}` });
+    expectOk(publicChannel);
+    ids.publicChannel = publicChannel.body.id;
+
+    const privateChannel = await agents.owner
+      .post(`/api/workspaces/${ids.workspace}/channels`)
+      .send({
+        name: `private-${run}`,
+        isPrivate: true,
+        memberIds: [ids.friend],
+      });
+    expectOk(privateChannel);
+    ids.privateChannel = privateChannel.body.id;
+
+    ids.publicMessage = await post(agents.owner, {
+      channelId: ids.publicChannel,
+      content: "public secret",
+    });
+    ids.privateMessage = await post(agents.owner, {
+      channelId: ids.privateChannel,
+      content: "private secret",
+    });
+
+    ids.directMessage = await openConversation(ids.friend);
+    ids.dmMessage = await post(agents.owner, {
+      directMessageId: ids.directMessage,
+      content: "dm secret",
+    });
+
+    // The leaver had a conversation with the owner before being removed
+    ids.leaverDirectMessage = await openConversation(ids.leaver);
+    ids.leaverDmMessage = await post(agents.leaver, {
+      directMessageId: ids.leaverDirectMessage,
+      content: "dm secret from before",
+    });
+    expectOk(
+      await agents.owner.delete(
+        `/api/workspaces/${ids.workspace}/members/${ids.leaver}`,
+      ),
+    );
+  });
+
+  // Every way to read or write a channel's messages
+  function channelRoutes(channel: "publicChannel" | "privateChannel") {
+    const message =
+      channel === "publicChannel" ? "publicMessage" : "privateMessage";
+
+    return [
+      [
+        "read messages",
+        (agent: Agent) => agent.get(`/api/channels/${ids[channel]}/messages`),
+      ],
+      [
+        "post a message",
+        (agent: Agent) =>
+          agent
+            .post("/api/messages")
+            .send({ channelId: ids[channel], content: "hello" }),
+      ],
+      [
+        "read a thread",
+        (agent: Agent) => agent.get(`/api/messages/${ids[message]}/thread`),
+      ],
+      [
+        "reply in a thread",
+        (agent: Agent) =>
+          agent.post("/api/messages").send({
+            channelId: ids[channel],
+            parentId: ids[message],
+            content: "hello",
+          }),
+      ],
+      [
+        "react",
+        (agent: Agent) =>
+          agent
+            .post(`/api/messages/${ids[message]}/reactions`)
+            .send({ emoji: "👍" }),
+      ],
+      [
+        "mark read",
+        (agent: Agent) =>
+          agent.post(`/api/channels/${ids[channel]}/read`).send({}),
+      ],
+    ] as const;
+  }
+
+  // Every way to read or write a DM conversation's messages
+  function directMessageRoutes(
+    conversation: "directMessage" | "leaverDirectMessage",
+  ) {
+    const message =
+      conversation === "directMessage" ? "dmMessage" : "leaverDmMessage";
+
+    return [
+      [
+        "read messages",
+        (agent: Agent) =>
+          agent.get(`/api/direct-messages/${ids[conversation]}/messages`),
+      ],
+      [
+        "post a message",
+        (agent: Agent) =>
+          agent
+            .post("/api/messages")
+            .send({ directMessageId: ids[conversation], content: "hello" }),
+      ],
+      [
+        "read a thread",
+        (agent: Agent) => agent.get(`/api/messages/${ids[message]}/thread`),
+      ],
+      [
+        "reply in a thread",
+        (agent: Agent) =>
+          agent.post("/api/messages").send({
+            directMessageId: ids[conversation],
+            parentId: ids[message],
+            content: "hello",
+          }),
+      ],
+      [
+        "react",
+        (agent: Agent) =>
+          agent
+            .post(`/api/messages/${ids[message]}/reactions`)
+            .send({ emoji: "👍" }),
+      ],
+      [
+        "mark read",
+        (agent: Agent) =>
+          agent.post(`/api/direct-messages/${ids[conversation]}/read`).send({}),
+      ],
+    ] as const;
+  }
+
+  const conversationListRoutes = [
+    [
+      "list channels",
+      (agent: Agent) => agent.get(`/api/workspaces/${ids.workspace}/channels`),
+    ],
+    [
+      "list direct messages",
+      (agent: Agent) =>
+        agent.get(`/api/workspaces/${ids.workspace}/direct-messages`),
+    ],
+    [
+      "list recent conversations",
+      (agent: Agent) =>
+        agent.get(`/api/workspaces/${ids.workspace}/conversations`),
+    ],
+  ] as const;
+
+  describe("someone outside the workspace", () => {
+    it.each(conversationListRoutes)("can't %s", async (_, send) => {
+      expectDenied(await send(agents.outsider));
+    });
+
+    it.each(channelRoutes("publicChannel"))(
+      "can't %s in a public channel",
+      async (_, send) => {
+        expectDenied(await send(agents.outsider));
+      },
+    );
+
+    it.each(channelRoutes("privateChannel"))(
+      "can't %s in a private channel",
+      async (_, send) => {
+        expectDenied(await send(agents.outsider));
+      },
+    );
+
+    it.each(directMessageRoutes("directMessage"))(
+      "can't %s in a direct message",
+      async (_, send) => {
+        expectDenied(await send(agents.outsider));
+      },
+    );
+  });
+
+  describe("a workspace member", () => {
+    it.each(conversationListRoutes)("can %s", async (_, send) => {
+      expectOk(await send(agents.member));
+    });
+
+    it.each(channelRoutes("privateChannel"))(
+      "can't %s in a private channel they aren't in",
+      async (_, send) => {
+        expectDenied(await send(agents.member));
+      },
+    );
+
+    it.each(directMessageRoutes("directMessage"))(
+      "can't %s in a direct message they aren't part of",
+      async (_, send) => {
+        expectDenied(await send(agents.member));
+      },
+    );
+
+    // Posting to a channel they're in doesn't open a way into the DM
+    it("can't post into a direct message through a channel", async () => {
+      const res = await agents.member.post("/api/messages").send({
+        channelId: ids.publicChannel,
+        directMessageId: ids.directMessage,
+        content: "smuggled secret",
+      });
+      expect(res.status).toBe(400);
+
+      const messages = await agents.friend.get(
+        `/api/direct-messages/${ids.directMessage}/messages`,
+      );
+      expectOk(messages);
+      expect(JSON.stringify(messages.body)).not.toContain("smuggled");
+    });
+
+    it("doesn't see other people's conversations listed", async () => {
+      const res = await agents.member.get(
+        `/api/workspaces/${ids.workspace}/conversations`,
+      );
+      expectOk(res);
+      expect(res.body).toEqual([]);
+    });
+  });
+
+  describe("a participant removed from the workspace", () => {
+    it.each(conversationListRoutes)("can't %s", async (_, send) => {
+      expectDenied(await send(agents.leaver));
+    });
+
+    it.each(directMessageRoutes("leaverDirectMessage"))(
+      "can't %s in their old direct message",
+      async (_, send) => {
+        expectDenied(await send(agents.leaver));
+      },
+    );
+  });
+
+  // The same routes succeed for people who belong, so the refusals above
+  // come from the access checks and not from broken fixtures
+  describe("members of the conversation", () => {
+    it.each(channelRoutes("privateChannel"))(
+      "can %s in their private channel",
+      async (_, send) => {
+        expectOk(await send(agents.friend));
+      },
+    );
+
+    it.each(channelRoutes("publicChannel"))(
+      "can %s in a public channel",
+      async (_, send) => {
+        expectOk(await send(agents.member));
+      },
+    );
+
+    it.each(directMessageRoutes("directMessage"))(
+      "can %s in their direct message",
+      async (_, send) => {
+        expectOk(await send(agents.friend));
+      },
+    );
+  });
+});
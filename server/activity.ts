@@ -0,0 +1,423 @@
+import {
+  and,
+  count,
+  desc,
+  eq,
+  exists,
+  gt,
+  inArray,
+  isNull,
+  ne,
+  not,
+  or,
+  sql,
+} from "drizzle-orm";
+import { alias, type PgColumn, type PgSelect } from "drizzle-orm/pg-core";
+import { db } from "@db";
+import {
+  channelMembers,
+  channels,
+  directMessageParticipants,
+  directMessages,
+  messageMentions,
+  messages,
+  reactions,
+  users,
+} from "@db/schema";
+
+// Feed items of the same time are listed in this order
+export const activityKinds = ["mention", "reply", "reaction"] as const;
+export type ActivityKind = (typeof activityKinds)[number];
+
+export const DEFAULT_ACTIVITY_PAGE_SIZE = 30;
+export const MAX_ACTIVITY_PAGE_SIZE = 100;
+
+// Position of the last item on a page; the next page starts after it
+type ActivityCursor = {
+  time: number;
+  kind: ActivityKind;
+  id: number;
+};
+
+type ActivityViewer = {
+  userId: number;
+  workspaceId: number;
+  // Whether the user reads public channels without joining them (not guests)
+  canAccessPublicChannels: boolean;
+};
+
+export type ActivityItem = {
+  id: string;
+  kind: ActivityKind;
+  createdAt: Date | null;
+  isUnread: boolean;
+  // How the user was mentioned, or the emoji they got
+  detail: string | null;
+  actor: { id: number; username: string; avatar: string | null } | null;
+  message: {
+    id: number;
+    content: string;
+    channelId: number | null;
+    directMessageId: number | null;
+    parentId: number | null;
+    createdAt: Date | null;
+  };
+  channel: { id: number; name: string } | null;
+};
+
+// Cursors are opaque to clients: "<ms>.<kind>.<id>"
+export function formatActivityCursor({ time, kind, id }: ActivityCursor) {
+  return `${time}.${kind}.${id}`;
+}
+
+export function parseActivityCursor(value: string): ActivityCursor | null {
+  const [time, kind, id] = value.split(".");
+  const cursor = { time: Number(time), kind: kind as ActivityKind, id: Number(id) };
+  if (
+    !Number.isInteger(cursor.time) ||
+    !activityKinds.includes(cursor.kind) ||
+    !Number.isInteger(cursor.id)
+  ) {
+    return null;
+  }
+  return cursor;
+}
+
+// Millisecond timestamps, so cursors compare the same in SQL and JavaScript
+function sortTime(column: PgColumn) {
+  return sql<number>`floor(extract(epoch from ${column}) * 1000)`.mapWith(
+    Number,
+  );
+}
+
+// Items of a source that sort after the cursor: older, or as old and later
+// in kind/id order
+function afterCursor(
+  kind: ActivityKind,
+  createdAt: PgColumn,
+  id: PgColumn,
+  cursor: ActivityCursor | null,
+) {
+  if (!cursor) return undefined;
+
+  const time = sortTime(createdAt);
+  const rank = activityKinds.indexOf(kind);
+  const cursorRank = activityKinds.indexOf(cursor.kind);
+  if (rank > cursorRank) return sql`${time} <= ${cursor.time}`;
+  if (rank < cursorRank) return sql`${time} < ${cursor.time}`;
+  return sql`(${time}, ${id}) < (${cursor.time}, ${cursor.id})`;
+}
+
+// The message is in a conversation of the workspace the user can read
+function isReadableBy({
+  userId,
+  workspaceId,
+  canAccessPublicChannels,
+}: ActivityViewer) {
+  return or(
+    and(
+      eq(channels.workspaceId, workspaceId),
+      or(
+        exists(
+          db
+            .select({ id: channelMembers.id })
+            .from(channelMembers)
+            .where(
+              and(
+                eq(channelMembers.channelId, channels.id),
+                eq(channelMembers.userId, userId),
+              ),
+            ),
+        ),
+        canAccessPublicChannels
+          ? or(isNull(channels.isPrivate), eq(channels.isPrivate, false))
+          : undefined,
+      ),
+    ),
+    and(
+      eq(directMessages.workspaceId, workspaceId),
+      exists(
+        db
+          .select({ id: directMessageParticipants.id })
+          .from(directMessageParticipants)
+          .where(
+            and(
+              eq(directMessageParticipants.directMessageId, directMessages.id),
+              eq(directMessageParticipants.userId, userId),
+            ),
+          ),
+      ),
+    ),
+  );
+}
+
+// Each source of activity: where its items come from and which rows count.
+// Mentions of the user, replies in threads they started or replied to, and
+// reactions to their messages; never their own actions.
+function getSources(viewer: ActivityViewer) {
+  const { userId } = viewer;
+  const readable = isReadableBy(viewer);
+  const parent = alias(messages, "parent");
+  const ownReply = alias(messages, "own_reply");
+
+  // Every source selects from messages joined to its conversation
+  const withConversation = <T extends PgSelect>(query: T) =>
+    query
+      .leftJoin(channels, eq(messages.channelId, channels.id))
+      .leftJoin(directMessages, eq(messages.directMessageId, directMessages.id));
+
+  return {
+    mention: {
+      createdAt: messageMentions.createdAt,
+      id: messageMentions.id,
+      join: <T extends PgSelect>(query: T) =>
+        withConversation(query).innerJoin(
+          messageMentions,
+          eq(messageMentions.messageId, messages.id),
+        ),
+      where: and(
+        eq(messageMentions.mentionedUserId, userId),
+        ne(messages.userId, userId),
+        isNull(messages.deletedAt),
+        readable,
+      ),
+      actorId: messages.userId,
+      detail: sql<string | null>`${messageMentions.type}`,
+    },
+    reply: {
+      createdAt: messages.createdAt,
+      id: messages.id,
+      join: <T extends PgSelect>(query: T) =>
+        withConversation(query).innerJoin(
+          parent,
+          eq(messages.parentId, parent.id),
+        ),
+      where: and(
+        ne(messages.userId, userId),
+        isNull(messages.deletedAt),
+        or(
+          eq(parent.userId, userId),
+          exists(
+            db
+              .select({ id: ownReply.id })
+              .from(ownReply)
+              .where(
+                and(
+                  eq(ownReply.parentId, messages.parentId),
+                  eq(ownReply.userId, userId),
+                ),
+              ),
+          ),
+        ),
+        // Replies that mention the user are listed as mentions
+        not(
+          exists(
+            db
+              .select({ id: messageMentions.id })
+              .from(messageMentions)
+              .where(
+                and(
+                  eq(messageMentions.messageId, messages.id),
+                  eq(messageMentions.mentionedUserId, userId),
+                ),
+              ),
+          ),
+        ),
+        readable,
+      ),
+      actorId: messages.userId,
+      detail: sql<string | null>`null`,
+    },
+    reaction: {
+      createdAt: reactions.createdAt,
+      id: reactions.id,
+      join: <T extends PgSelect>(query: T) =>
+        withConversation(query).innerJoin(
+          reactions,
+          eq(reactions.messageId, messages.id),
+        ),
+      where: and(
+        eq(messages.userId, userId),
+        ne(reactions.userId, userId),
+        isNull(messages.deletedAt),
+        readable,
+      ),
+      actorId: reactions.userId,
+      detail: sql<string | null>`${reactions.emoji}`,
+    },
+  } satisfies Record<ActivityKind, unknown>;
+}
+
+// One page of the user's activity, newest first
+export async function getActivity(
+  viewer: ActivityViewer,
+  {
+    before,
+    limit,
+    readAt,
+  }: { before: ActivityCursor | null; limit: number; readAt: Date | null },
+) {
+  const sources = getSources(viewer);
+
+  const pages = await Promise.all(
+    activityKinds.map(async (kind) => {
+      const source = sources[kind];
+      const rows = await source
+        .join(
+          db
+            .select({
+              sourceId: source.id,
+              time: sortTime(source.createdAt),
+              createdAt: source.createdAt,
+              actorId: source.actorId,
+              detail: source.detail,
+              messageId: messages.id,
+            })
+            .from(messages)
+            .$dynamic(),
+        )
+        .where(
+          and(
+            source.where,
+            afterCursor(kind, source.createdAt, source.id, before),
+          ),
+        )
+        .orderBy(desc(sortTime(source.createdAt)), desc(source.id))
+        .limit(limit + 1);
+
+      return rows.map((row) => ({ ...row, kind }));
+    }),
+  );
+
+  const merged = pages
+    .flat()
+    .sort(
+      (a, b) =>
+        b.time - a.time ||
+        activityKinds.indexOf(a.kind) - activityKinds.indexOf(b.kind) ||
+        b.sourceId - a.sourceId,
+    );
+  const page = merged.slice(0, limit);
+  const last = page.at(-1);
+  const nextCursor =
+    merged.length > limit && last
+      ? formatActivityCursor({
+          time: last.time,
+          kind: last.kind,
+          id: last.sourceId,
+        })
+      : null;
+
+  const details = await getItemDetails(
+    page.map((row) => row.messageId),
+    page.flatMap((row) => (row.actorId ? [row.actorId] : [])),
+  );
+
+  const items: ActivityItem[] = page.flatMap((row) => {
+    const detail = details.messages.get(row.messageId);
+    if (!detail) return [];
+
+    return [
+      {
+        id: `${row.kind}:${row.sourceId}`,
+        kind: row.kind,
+        createdAt: row.createdAt,
+        isUnread: !readAt || (!!row.createdAt && row.createdAt > readAt),
+        detail: row.detail,
+        actor: row.actorId ? (details.users.get(row.actorId) ?? null) : null,
+        message: detail.message,
+        channel: detail.channel,
+      },
+    ];
+  });
+
+  return { items, nextCursor };
+}
+
+// Messages, their channels and the acting users for a page of items
+async function getItemDetails(messageIds: number[], actorIds: number[]) {
+  const [messageRows, userRows] = await Promise.all([
+    messageIds.length === 0
+      ? []
+      : db
+          .select({
+            message: {
+              id: messages.id,
+              content: messages.content,
+              channelId: messages.channelId,
+              directMessageId: messages.directMessageId,
+              parentId: messages.parentId,
+              createdAt: messages.createdAt,
+            },
+            channelName: channels.name,
+          })
+          .from(messages)
+          .leftJoin(channels, eq(messages.channelId, channels.id))
+          .where(inArray(messages.id, messageIds)),
+    actorIds.length === 0
+      ? []
+      : db
+          .select({ id: users.id, username: users.username, avatar: users.avatar })
+          .from(users)
+          .where(inArray(users.id, actorIds)),
+  ]);
+
+  return {
+    messages: new Map(
+      messageRows.map(({ message, channelName }) => [
+        message.id,
+        {
+          message,
+          channel:
+            message.channelId && channelName
+              ? { id: message.channelId, name: channelName }
+              : null,
+        },
+      ]),
+    ),
+    users: new Map(userRows.map((user) => [user.id, user])),
+  };
+}
+
+// Items newer than the read marker, across all sources
+export async function getActivityUnreadCount(
+  viewer: ActivityViewer,
+  readAt: Date | null,
+) {
+  const sources = getSources(viewer);
+
+  const counts = await Promise.all(
+    activityKinds.map(async (kind) => {
+      const source = sources[kind];
+      const [row] = await source
+        .join(db.select({ count: count() }).from(messages).$dynamic())
+        .where(
+          and(source.where, readAt ? gt(source.createdAt, readAt) : undefined),
+        );
+      return row?.count ?? 0;
+    }),
+  );
+
+  return counts.reduce((total, value) => total + value, 0);
+}
+
+// Everyone who should see a new reply in their feed: the thread's author
+// and the people who replied to it, except the reply's author
+export async function getThreadParticipantIds(
+  parentId: number,
+  authorId: number | null,
+) {
+  const rows = await db
+    .selectDistinct({ userId: messages.userId })
+    .from(messages)
+    .where(
+      and(
+        or(eq(messages.id, parentId), eq(messages.parentId, parentId)),
+        isNull(messages.deletedAt),
+      ),
+    );
+
+  return rows.flatMap(({ userId }) =>
+    userId !== null && userId !== authorId ? [userId] : [],
+  );
+}
@@ -1,6 +1,6 @@
 import passport from "passport";
 import { IVerifyOptions, Strategy as LocalStrategy } from "passport-local";
-import { type Express } from "express";
+import { type Express, type RequestHandler } from "express";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
@@ -10,12 +10,12 @@ import {
   workspaceMembers,
   workspaces,
   organizations,
-  channels,
-  channelMembers,
 } from "@db/schema";
 import { db } from "@db";
-import { eq, and } from "drizzle-orm";
+import { eq, TransactionRollbackError } from "drizzle-orm";
 import { z } from "zod";
+import { acceptInvite } from "./invites";
+import { getWorkspaceMember } from "./permissions";
 
 const scryptAsync = promisify(scrypt);
 const crypto = {
@@ -46,12 +46,12 @@ const baseUserSchema = z.object({
 const newWorkspaceUserSchema = baseUserSchema.extend({
   organization: z.string().min(1, "Organization name is required"),
   workspace: z.string().min(1, "Workspace name is required"),
-  workspaceId: z.undefined(),
+  inviteToken: z.undefined(),
 });
 
-// Schema for registering with an existing workspace
+// Schema for joining an existing workspace through an invite link
 const existingWorkspaceUserSchema = baseUserSchema.extend({
-  workspaceId: z.number(),
+  inviteToken: z.string().min(1, "Invite token is required"),
   organization: z.undefined(),
   workspace: z.undefined(),
 });
@@ -66,7 +66,7 @@ function isNewWorkspaceRegistration(
 function isExistingWorkspaceRegistration(
   data: any,
 ): data is z.infer<typeof existingWorkspaceUserSchema> {
-  return "workspaceId" in data && typeof data.workspaceId === "number";
+  return "inviteToken" in data && typeof data.inviteToken === "string";
 }
 
 // Base user type from database
@@ -94,7 +94,7 @@ declare global {
   }
 }
 
-export function setupAuth(app: Express) {
+export function setupAuth(app: Express): RequestHandler {
   const MemoryStore = createMemoryStore(session);
   const sessionSettings: session.SessionOptions = {
     secret: process.env.REPL_ID || "chatgenius-secret",
@@ -114,7 +114,10 @@ export function setupAuth(app: Express) {
     app.set("trust proxy", 1);
   }
 
-  app.use(session(sessionSettings));
+  // Kept as a named middleware so the WebSocket upgrade can reuse it
+  const sessionParser = session(sessionSettings);
+
+  app.use(sessionParser);
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -172,7 +175,7 @@ export function setupAuth(app: Express) {
         | z.infer<typeof newWorkspaceUserSchema>
         | z.infer<typeof existingWorkspaceUserSchema>;
 
-      if ("workspaceId" in req.body && req.body.workspaceId) {
+      if ("inviteToken" in req.body && req.body.inviteToken) {
         const result = existingWorkspaceUserSchema.safeParse(req.body);
         if (!result.success) {
           return res
@@ -204,75 +207,67 @@ export function setupAuth(app: Express) {
       }
 
       const hashedPassword = await crypto.hash(password);
-      const [newUser] = await db
-        .insert(users)
-        .values({
-          username,
-          password: hashedPassword,
-          avatar: `https://api.dicebear.com/7.x/avatars/svg?seed=${username}`,
-        })
-        .returning();
+      const newUserValues = {
+        username,
+        password: hashedPassword,
+        avatar: `https://api.dicebear.com/7.x/avatars/svg?seed=${username}`,
+      };
 
+      let newUser: BaseUser;
       let newWorkspaceId: number | undefined;
 
       if (isExistingWorkspaceRegistration(validatedData)) {
-        // Existing workspace registration
-        const [workspace] = await db
-          .select()
-          .from(workspaces)
-          .where(eq(workspaces.id, validatedData.workspaceId))
-          .limit(1);
-
-        if (!workspace) {
-          return res.status(404).send("Workspace not found");
+        // Joining through an invite: the account is only created if the
+        // invite can be used
+        const { inviteToken } = validatedData;
+        let inviteError: { status: number; error: string } | null = null;
+
+        try {
+          newUser = await db.transaction(async (tx) => {
+            const [created] = await tx
+              .insert(users)
+              .values(newUserValues)
+              .returning();
+
+            const joined = await acceptInvite(tx, inviteToken, created.id);
+            if (!joined.success) {
+              inviteError = joined;
+              tx.rollback();
+            } else {
+              newWorkspaceId = joined.workspaceId;
+            }
+            return created;
+          });
+        } catch (error) {
+          if (error instanceof TransactionRollbackError && inviteError) {
+            const { status, error: message } = inviteError;
+            return res.status(status).send(message);
+          }
+          throw error;
         }
+      } else {
+        [newUser] = await db.insert(users).values(newUserValues).returning();
+
+        if (isNewWorkspaceRegistration(validatedData)) {
+          // New workspace registration
+          const [org] = await db
+            .insert(organizations)
+            .values({ name: validatedData.organization })
+            .returning();
+
+          const [ws] = await db
+            .insert(workspaces)
+            .values({ name: validatedData.workspace, organizationId: org.id })
+            .returning();
+
+          await db.insert(workspaceMembers).values({
+            userId: newUser.id,
+            workspaceId: ws.id,
+            role: "owner",
+          });
 
-        await db.insert(workspaceMembers).values({
-          userId: newUser.id,
-          workspaceId: validatedData.workspaceId,
-          role: "member",
-        });
-
-        // Add user to all default channels in the workspace
-        const defaultChannels = await db
-          .select()
-          .from(channels)
-          .where(
-            and(
-              eq(channels.workspaceId, validatedData.workspaceId),
-              eq(channels.joinByDefault, true),
-            ),
-          );
-
-        if (defaultChannels.length > 0) {
-          await db.insert(channelMembers).values(
-            defaultChannels.map((channel) => ({
-              userId: newUser.id,
-              channelId: channel.id,
-            })),
-          );
+          newWorkspaceId = ws.id;
         }
-
-        newWorkspaceId = validatedData.workspaceId;
-      } else if (isNewWorkspaceRegistration(validatedData)) {
-        // New workspace registration
-        const [org] = await db
-          .insert(organizations)
-          .values({ name: validatedData.organization })
-          .returning();
-
-        const [ws] = await db
-          .insert(workspaces)
-          .values({ name: validatedData.workspace, organizationId: org.id })
-          .returning();
-
-        await db.insert(workspaceMembers).values({
-          userId: newUser.id,
-          workspaceId: ws.id,
-          role: "owner",
-        });
-
-        newWorkspaceId = ws.id;
       }
 
       const userWithWorkspace = { ...newUser, workspaceId: newWorkspaceId };
@@ -299,6 +294,8 @@ export function setupAuth(app: Express) {
         username: z.string().min(1, "Username is required"),
         password: z.string().min(1, "Password is required"),
         workspaceId: z.number().optional(),
+        // Accept an invite as part of signing in
+        inviteToken: z.string().optional(),
       })
       .safeParse(req.body);
 
@@ -317,37 +314,44 @@ export function setupAuth(app: Express) {
         if (err) return next(err);
         if (!user) return res.status(400).send(info.message ?? "Login failed");
 
-        // If workspaceId is provided, verify membership
-        if (loginData.data.workspaceId) {
-          const [member] = await db
-            .select()
-            .from(workspaceMembers)
-            .where(
-              and(
-                eq(workspaceMembers.userId, user.id),
-                eq(workspaceMembers.workspaceId, loginData.data.workspaceId),
-              ),
-            )
-            .limit(1);
-
-          if (!member) {
-            return res.status(403).send("Not a member of this workspace");
+        try {
+          if (loginData.data.inviteToken) {
+            const { inviteToken } = loginData.data;
+            const joined = await db.transaction((tx) =>
+              acceptInvite(tx, inviteToken, user.id),
+            );
+            if (!joined.success) {
+              return res.status(joined.status).send(joined.error);
+            }
+            user.workspaceId = joined.workspaceId;
+          } else if (loginData.data.workspaceId) {
+            // If workspaceId is provided, verify membership
+            const member = await getWorkspaceMember(
+              loginData.data.workspaceId,
+              user.id,
+            );
+
+            if (!member) {
+              return res.status(403).send("Not a member of this workspace");
+            }
+
+            user.workspaceId = loginData.data.workspaceId;
           }
 
-          user.workspaceId = loginData.data.workspaceId;
-        }
-
-        req.logIn(user, (err) => {
-          if (err) return next(err);
-          return res.json({
-            message: "Login successful",
-            user: {
-              id: user.id,
-              username: user.username,
-              workspaceId: user.workspaceId,
-            },
+          req.logIn(user, (err) => {
+            if (err) return next(err);
+            return res.json({
+              message: "Login successful",
+              user: {
+                id: user.id,
+                username: user.username,
+                workspaceId: user.workspaceId,
+              },
+            });
           });
-        });
+        } catch (error) {
+          next(error);
+        }
       },
     )(req, res, next);
   });
@@ -365,4 +369,6 @@ export function setupAuth(app: Express) {
     }
     res.status(401).send("Not logged in");
   });
+
+  return sessionParser;
 }
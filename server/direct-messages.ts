@@ -0,0 +1,202 @@
+import { and, desc, eq, inArray, isNull } from "drizzle-orm";
+import { db } from "@db";
+import {
+  directMessageParticipants,
+  directMessages,
+  messages,
+  users,
+  workspaceMembers,
+  type DirectMessage,
+} from "@db/schema";
+import { getWorkspaceMember } from "./permissions";
+
+// Including the user who opens the conversation
+export const MAX_DM_PARTICIPANTS = 9;
+
+// Longest preview of a conversation's last message
+const SNIPPET_LENGTH = 100;
+
+export type Participant = {
+  id: number;
+  username: string;
+  avatar: string | null;
+  status: string | null;
+};
+
+export type LastMessage = {
+  id: number;
+  userId: number | null;
+  snippet: string;
+  attachmentCount: number;
+  createdAt: Date | null;
+};
+
+// Same people, same key, whatever order they were picked in
+export function getParticipantKey(userIds: number[]) {
+  return Array.from(new Set(userIds))
+    .sort((a, b) => a - b)
+    .join(",");
+}
+
+// The conversation between exactly these users, created on first use
+export async function findOrCreateConversation(
+  workspaceId: number,
+  userIds: number[],
+): Promise<DirectMessage> {
+  const participantIds = Array.from(new Set(userIds));
+  const participantKey = getParticipantKey(participantIds);
+
+  return db.transaction(async (tx) => {
+    const [created] = await tx
+      .insert(directMessages)
+      .values({ workspaceId, participantKey })
+      .onConflictDoNothing()
+      .returning();
+
+    if (created) {
+      await tx.insert(directMessageParticipants).values(
+        participantIds.map((userId) => ({
+          directMessageId: created.id,
+          userId,
+        })),
+      );
+      return created;
+    }
+
+    // Opened before, possibly by a concurrent request
+    const [existing] = await tx
+      .select()
+      .from(directMessages)
+      .where(
+        and(
+          eq(directMessages.workspaceId, workspaceId),
+          eq(directMessages.participantKey, participantKey),
+        ),
+      )
+      .limit(1);
+    return existing;
+  });
+}
+
+// Resolve a user's access to a DM conversation. Only participants who are
+// still active members of its workspace may read or post; for anyone else
+// the conversation is treated as missing.
+export async function getDirectMessageAccess(
+  directMessageId: number,
+  userId: number,
+) {
+  const [row] = await db
+    .select({ conversation: directMessages })
+    .from(directMessages)
+    .innerJoin(
+      directMessageParticipants,
+      and(
+        eq(directMessageParticipants.directMessageId, directMessages.id),
+        eq(directMessageParticipants.userId, userId),
+      ),
+    )
+    .where(eq(directMessages.id, directMessageId))
+    .limit(1);
+
+  if (!row) return null;
+
+  const workspaceMember = await getWorkspaceMember(
+    row.conversation.workspaceId,
+    userId,
+  );
+  if (!workspaceMember) return null;
+
+  return { conversation: row.conversation, workspaceMember };
+}
+
+// Participants who may still read the conversation, i.e. the ones
+// getDirectMessageAccess lets in, for sending them its events
+export async function getParticipantIds(directMessageId: number) {
+  const rows = await db
+    .select({ userId: directMessageParticipants.userId })
+    .from(directMessageParticipants)
+    .innerJoin(
+      directMessages,
+      eq(directMessages.id, directMessageParticipants.directMessageId),
+    )
+    .innerJoin(
+      workspaceMembers,
+      and(
+        eq(workspaceMembers.workspaceId, directMessages.workspaceId),
+        eq(workspaceMembers.userId, directMessageParticipants.userId),
+        isNull(workspaceMembers.deactivatedAt),
+      ),
+    )
+    .where(eq(directMessageParticipants.directMessageId, directMessageId));
+
+  return rows.map((row) => row.userId);
+}
+
+// Everyone in each of the given conversations, for conversation lists
+export async function getParticipants(directMessageIds: number[]) {
+  const participants = new Map<number, Participant[]>();
+  if (directMessageIds.length === 0) return participants;
+
+  const rows = await db
+    .select({
+      directMessageId: directMessageParticipants.directMessageId,
+      id: users.id,
+      username: users.username,
+      avatar: users.avatar,
+      status: users.status,
+    })
+    .from(directMessageParticipants)
+    .innerJoin(users, eq(directMessageParticipants.userId, users.id))
+    .where(inArray(directMessageParticipants.directMessageId, directMessageIds))
+    .orderBy(users.username);
+
+  for (const { directMessageId, ...participant } of rows) {
+    const list = participants.get(directMessageId) ?? [];
+    list.push(participant);
+    participants.set(directMessageId, list);
+  }
+  return participants;
+}
+
+// The client builds live previews the same way; keep the two in step
+function toSnippet(content: string) {
+  const text = content.replace(/\s+/g, " ").trim();
+  return text.length > SNIPPET_LENGTH
+    ? `${text.slice(0, SNIPPET_LENGTH - 1)}…`
+    : text;
+}
+
+// The newest live root message of each conversation, for previews
+export async function getLastMessages(directMessageIds: number[]) {
+  const lastMessages = new Map<number, LastMessage>();
+  if (directMessageIds.length === 0) return lastMessages;
+
+  const rows = await db
+    .selectDistinctOn([messages.directMessageId], {
+      directMessageId: messages.directMessageId,
+      id: messages.id,
+      userId: messages.userId,
+      content: messages.content,
+      attachments: messages.attachments,
+      createdAt: messages.createdAt,
+    })
+    .from(messages)
+    .where(
+      and(
+        inArray(messages.directMessageId, directMessageIds),
+        isNull(messages.parentId),
+        isNull(messages.deletedAt),
+      ),
+    )
+    .orderBy(messages.directMessageId, desc(messages.createdAt), desc(messages.id));
+
+  for (const { directMessageId, content, attachments, ...message } of rows) {
+    if (directMessageId === null) continue;
+    lastMessages.set(directMessageId, {
+      ...message,
+      snippet: toSnippet(content),
+      attachmentCount: attachments?.length ?? 0,
+    });
+  }
+  return lastMessages;
+}
@@ -11,7 +11,7 @@ app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
 // Setup auth first
-setupAuth(app);
+const sessionParser = setupAuth(app);
 
 // Add CORS headers
 app.use((req, res, next) => {
@@ -62,7 +62,7 @@ app.use((req, res, next) => {
     await db.select().from(users).limit(1);
     log("Database connection successful");
 
-    const server = registerRoutes(app);
+    const server = registerRoutes(app, sessionParser);
 
     // Error handling middleware
     app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
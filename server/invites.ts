@@ -0,0 +1,194 @@
+import crypto from "crypto";
+import { and, eq, isNull, or, sql } from "drizzle-orm";
+import { db } from "@db";
+import {
+  channels,
+  channelMembers,
+  organizations,
+  workspaceInvites,
+  workspaceMembers,
+  workspaces,
+  type WorkspaceInvite,
+  type WorkspaceRole,
+} from "@db/schema";
+import { can, toWorkspaceRole } from "./permissions";
+
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Roles an invite can grant. Ownership is never handed out by link.
+export const INVITE_ROLES: WorkspaceRole[] = ["admin", "member", "guest"];
+
+export type InviteStatus = "active" | "expired" | "revoked" | "used_up";
+
+const INVITE_STATUS_ERRORS: Record<Exclude<InviteStatus, "active">, string> = {
+  expired: "This invite link has expired",
+  revoked: "This invite link has been revoked",
+  used_up: "This invite link has already been used",
+};
+
+export type InviteResult =
+  | {
+      success: true;
+      workspaceId: number;
+      role: WorkspaceRole;
+      // Already a member: nothing changed and the invite wasn't used up
+      alreadyMember: boolean;
+      // Default channels the new member was added to
+      channelIds: number[];
+    }
+  | { success: false; status: 403 | 404 | 410; error: string };
+
+// Unguessable token for the invite URL
+export function createInviteToken() {
+  return crypto.randomBytes(24).toString("base64url");
+}
+
+export function getInviteStatus(invite: WorkspaceInvite): InviteStatus {
+  if (invite.revokedAt) return "revoked";
+  if (invite.expiresAt && invite.expiresAt <= new Date()) return "expired";
+  if (invite.maxUses !== null && invite.useCount >= invite.maxUses) {
+    return "used_up";
+  }
+  return "active";
+}
+
+export function getInviteError(invite: WorkspaceInvite) {
+  const status = getInviteStatus(invite);
+  return status === "active" ? null : INVITE_STATUS_ERRORS[status];
+}
+
+// Add a new or reactivated member to the workspace's default public
+// channels, skipping archived ones, and return their ids. Guests only join the channels they're
+// later added to.
+export async function joinDefaultChannels(
+  tx: Transaction,
+  workspaceId: number,
+  userId: number,
+  role: WorkspaceRole,
+) {
+  if (!can(role, "accessPublicChannels")) return [];
+
+  const defaultChannels = await tx
+    .select({ id: channels.id })
+    .from(channels)
+    .leftJoin(
+      channelMembers,
+      and(
+        eq(channelMembers.channelId, channels.id),
+        eq(channelMembers.userId, userId),
+      ),
+    )
+    .where(
+      and(
+        eq(channels.workspaceId, workspaceId),
+        eq(channels.joinByDefault, true),
+        isNull(channels.archivedAt),
+        // Private channels are invite-only
+        or(isNull(channels.isPrivate), eq(channels.isPrivate, false)),
+        isNull(channelMembers.id),
+      ),
+    );
+
+  const channelIds = defaultChannels.map((channel) => channel.id);
+  if (channelIds.length > 0) {
+    await tx
+      .insert(channelMembers)
+      .values(channelIds.map((channelId) => ({ userId, channelId })));
+  }
+  return channelIds;
+}
+
+// An invite with the workspace it leads to, for the join page
+export async function findInvite(token: string) {
+  const [row] = await db
+    .select({
+      invite: workspaceInvites,
+      workspace: workspaces,
+      organization: organizations,
+    })
+    .from(workspaceInvites)
+    .innerJoin(workspaces, eq(workspaceInvites.workspaceId, workspaces.id))
+    .leftJoin(organizations, eq(workspaces.organizationId, organizations.id))
+    .where(eq(workspaceInvites.token, token))
+    .limit(1);
+
+  return row ?? null;
+}
+
+// Join the invite's workspace with the invite's role and its default
+// channels. Runs in the caller's transaction so a registration can be
+// rolled back when the invite turns out to be unusable.
+export async function acceptInvite(
+  tx: Transaction,
+  token: string,
+  userId: number,
+): Promise<InviteResult> {
+  // Lock the invite so concurrent accepts can't go over maxUses
+  const [invite] = await tx
+    .select()
+    .from(workspaceInvites)
+    .where(eq(workspaceInvites.token, token))
+    .limit(1)
+    .for("update");
+
+  if (!invite) {
+    return { success: false, status: 404, error: "Invite not found" };
+  }
+
+  const error = getInviteError(invite);
+  if (error) return { success: false, status: 410, error };
+
+  const [existing] = await tx
+    .select()
+    .from(workspaceMembers)
+    .where(
+      and(
+        eq(workspaceMembers.workspaceId, invite.workspaceId),
+        eq(workspaceMembers.userId, userId),
+      ),
+    )
+    .limit(1);
+
+  if (existing?.deactivatedAt) {
+    return {
+      success: false,
+      status: 403,
+      error: "Your account has been deactivated in this workspace",
+    };
+  }
+  if (existing) {
+    return {
+      success: true,
+      workspaceId: invite.workspaceId,
+      role: toWorkspaceRole(existing.role),
+      alreadyMember: true,
+      channelIds: [],
+    };
+  }
+
+  await tx.insert(workspaceMembers).values({
+    userId,
+    workspaceId: invite.workspaceId,
+    role: invite.role,
+  });
+
+  await tx
+    .update(workspaceInvites)
+    .set({ useCount: sql`${workspaceInvites.useCount} + 1` })
+    .where(eq(workspaceInvites.id, invite.id));
+
+  const channelIds = await joinDefaultChannels(
+    tx,
+    invite.workspaceId,
+    userId,
+    invite.role,
+  );
+
+  return {
+    success: true,
+    workspaceId: invite.workspaceId,
+    role: invite.role,
+    alreadyMember: false,
+    channelIds,
+  };
+}
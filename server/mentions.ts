@@ -0,0 +1,38 @@
+// Finds @mentions in message content:
+//   @alice   a workspace member, matched case-insensitively by username
+//   @channel everyone in the channel (or the other DM participant)
+//   @here    the same, limited to people who are currently online
+
+export type MentionType = "user" | "channel" | "here";
+
+export type ParsedMentions = {
+  // Lower-cased usernames
+  usernames: string[];
+  channel: boolean;
+  here: boolean;
+};
+
+// A mention starts the content or follows whitespace/punctuation, so email
+// addresses don't count. Trailing dots are sentence punctuation.
+const MENTION_PATTERN = /(^|[^\w@])@(\w[\w.-]*)/g;
+
+export function parseMentions(content: string): ParsedMentions {
+  const mentions: ParsedMentions = { usernames: [], channel: false, here: false };
+
+  for (const match of Array.from(content.matchAll(MENTION_PATTERN))) {
+    const name = match[2].replace(/[.-]+$/, "").toLowerCase();
+    if (name === "channel") {
+      mentions.channel = true;
+    } else if (name === "here") {
+      mentions.here = true;
+    } else if (name && !mentions.usernames.includes(name)) {
+      mentions.usernames.push(name);
+    }
+  }
+
+  return mentions;
+}
+
+export function hasMentions(mentions: ParsedMentions) {
+  return mentions.usernames.length > 0 || mentions.channel || mentions.here;
+}
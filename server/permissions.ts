@@ -0,0 +1,100 @@
+import { and, eq, isNull } from "drizzle-orm";
+import { db } from "@db";
+import {
+  workspaceMembers,
+  workspaceRoles,
+  type WorkspaceRole,
+} from "@db/schema";
+
+// What each workspace role may do. Routes check these through can() rather
+// than comparing roles, and the client gets the same table as
+// `capabilities` so it can hide actions the user can't take.
+const PERMISSIONS = {
+  // Read and join public channels without an invite. Guests only see the
+  // channels they were added to.
+  accessPublicChannels: ["owner", "admin", "member"],
+  createChannels: ["owner", "admin", "member"],
+  // Add people to channels the user is a member of
+  addChannelMembers: ["owner", "admin", "member"],
+  // Remove anyone from any channel the user can see. Channel creators can
+  // do this for their own channels regardless of role.
+  manageChannels: ["owner", "admin"],
+  deleteAnyMessage: ["owner", "admin"],
+  inviteMembers: ["owner", "admin"],
+  // Change roles of, deactivate and remove members ranked below the user
+  // (see canManageMember)
+  manageMembers: ["owner", "admin"],
+  transferOwnership: ["owner"],
+  renameWorkspace: ["owner", "admin"],
+} satisfies Record<string, readonly WorkspaceRole[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+export type Capabilities = Record<Permission, boolean>;
+
+// Memberships created before roles were enforced may hold no or unknown
+// roles; they keep the default member rights
+export function toWorkspaceRole(role: string | null | undefined): WorkspaceRole {
+  return workspaceRoles.find((known) => known === role) ?? "member";
+}
+
+export function can(
+  role: string | null | undefined,
+  permission: Permission,
+): boolean {
+  const allowed: readonly WorkspaceRole[] = PERMISSIONS[permission];
+  return allowed.includes(toWorkspaceRole(role));
+}
+
+export function getCapabilities(role: string | null | undefined): Capabilities {
+  return Object.fromEntries(
+    Object.keys(PERMISSIONS).map((permission) => [
+      permission,
+      can(role, permission as Permission),
+    ]),
+  ) as Capabilities;
+}
+
+// Whether the actor may change, deactivate or remove the target member:
+// only members ranked strictly below themselves, so admins can't act on
+// other admins or the owner
+export function canManageMember(
+  actorRole: string | null | undefined,
+  targetRole: string | null | undefined,
+) {
+  return (
+    can(actorRole, "manageMembers") &&
+    workspaceRoles.indexOf(toWorkspaceRole(actorRole)) <
+      workspaceRoles.indexOf(toWorkspaceRole(targetRole))
+  );
+}
+
+// Roles the actor may give a member. Ownership only moves by transfer.
+export function canAssignRole(
+  actorRole: string | null | undefined,
+  role: WorkspaceRole,
+) {
+  return (
+    role !== "owner" &&
+    can(actorRole, "manageMembers") &&
+    workspaceRoles.indexOf(toWorkspaceRole(actorRole)) <=
+      workspaceRoles.indexOf(role)
+  );
+}
+
+// The user's active membership of a workspace, or null. Deactivated
+// members count as non-members everywhere.
+export async function getWorkspaceMember(workspaceId: number, userId: number) {
+  const [member] = await db
+    .select()
+    .from(workspaceMembers)
+    .where(
+      and(
+        eq(workspaceMembers.workspaceId, workspaceId),
+        eq(workspaceMembers.userId, userId),
+        isNull(workspaceMembers.deactivatedAt),
+      ),
+    )
+    .limit(1);
+
+  return member ?? null;
+}
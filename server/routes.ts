@@ -1,6 +1,44 @@
-import type { Express } from "express";
+import type { Express, RequestHandler } from "express";
 import { createServer, type Server } from "http";
+import crypto from "crypto";
 import { setupWebSocket } from "./websocket";
+import { parseSearchQuery, hasSearchCriteria } from "./search";
+import { parseMentions, hasMentions, type MentionType } from "./mentions";
+import { storage, createStorageKey } from "./storage";
+import { createThumbnail, THUMBNAIL_CONTENT_TYPE } from "./thumbnails";
+import {
+  can,
+  canAssignRole,
+  canManageMember,
+  getCapabilities,
+  getWorkspaceMember,
+} from "./permissions";
+import {
+  acceptInvite,
+  createInviteToken,
+  findInvite,
+  getInviteError,
+  getInviteStatus,
+  INVITE_ROLES,
+  joinDefaultChannels,
+  type Transaction,
+} from "./invites";
+import {
+  findOrCreateConversation,
+  getDirectMessageAccess,
+  getLastMessages,
+  getParticipantIds,
+  getParticipants,
+  MAX_DM_PARTICIPANTS,
+} from "./direct-messages";
+import {
+  DEFAULT_ACTIVITY_PAGE_SIZE,
+  MAX_ACTIVITY_PAGE_SIZE,
+  getActivity,
+  getActivityUnreadCount,
+  getThreadParticipantIds,
+  parseActivityCursor,
+} from "./activity";
 import { db } from "@db";
 import {
   channels,
@@ -12,8 +50,29 @@ import {
   workspaceMembers,
   users,
   directMessages,
+  directMessageParticipants,
+  lastReads,
+  messageMentions,
+  attachments,
+  workspaceInvites,
+  workspaceRoles,
+  type Attachment,
+  type AttachmentFile,
 } from "@db/schema";
-import { eq, and, asc, desc, isNull, or, sql } from "drizzle-orm";
+import {
+  eq,
+  and,
+  asc,
+  desc,
+  inArray,
+  isNotNull,
+  isNull,
+  ne,
+  or,
+  sql,
+  TransactionRollbackError,
+  type InferInsertModel,
+} from "drizzle-orm";
 import multer from "multer";
 import type { InferModel } from "drizzle-orm";
 
@@ -24,26 +83,967 @@ type WorkspaceMember = InferModel<typeof workspaceMembers>;
 type Message = InferModel<typeof messages>;
 type Channel = InferModel<typeof channels>;
 type DirectMessage = InferModel<typeof directMessages>;
-
-// Keep existing multer configuration
+type MessageWithUser = Message & { user: User | null };
+type ReactionSummary = { emoji: string; count: number; userIds: number[] };
+type UnreadCounts = {
+  unreadCount: number;
+  mentionCount: number;
+  lastReadMessageId: number | null;
+};
+
+// Deleted messages stay visible as tombstones only while they still have
+// live replies, so threads keep their parent
+const isVisibleMessage = or(
+  isNull(messages.deletedAt),
+  sql`exists (select 1 from ${messages} r where r.parent_id = ${messages.id} and r.deleted_at is null)`,
+);
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+const SEARCH_RESULT_LIMIT = 20;
+
+const MAX_ATTACHMENTS = 10;
+const MAX_CHANNEL_NAME_LENGTH = 80;
+const MAX_CHANNEL_TOPIC_LENGTH = 250;
+const MAX_CHANNEL_DESCRIPTION_LENGTH = 1000;
+// Longest an invite link can stay valid
+const MAX_INVITE_EXPIRY_HOURS = 30 * 24;
+// Types shown in the browser; everything else is served as a download.
+// SVG and HTML are left out since they can run script.
+const INLINE_MIME_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "text/plain",
+];
+
+// Channel names are lowercase with dashes for spaces, e.g. "team-news".
+// A leading "#" is dropped.
+function parseChannelName(
+  value: unknown,
+): { name: string; error?: undefined } | { error: string } {
+  if (typeof value !== "string") {
+    return { error: "Channel name is required" };
+  }
+
+  const name = value
+    .trim()
+    .replace(/^#/, "")
+    .toLowerCase()
+    .replace(/\s+/g, "-");
+  if (!name) return { error: "Channel name is required" };
+  if (name.length > MAX_CHANNEL_NAME_LENGTH) {
+    return {
+      error: `Channel names can be at most ${MAX_CHANNEL_NAME_LENGTH} characters`,
+    };
+  }
+  if (!/^[a-z0-9_-]+$/.test(name)) {
+    return {
+      error: "Channel names can only contain letters, numbers, - and _",
+    };
+  }
+  return { name };
+}
+
+// Postgres unique_violation, e.g. two channels renamed to the same name at
+// once
+function isUniqueViolation(error: unknown) {
+  return (error as { code?: string } | null)?.code === "23505";
+}
+
+// Uploads are buffered in memory and handed to the configured storage
+// backend (see ./storage)
 const upload = multer({
-  storage: multer.diskStorage({
-    destination: "uploads/",
-    filename: (req, file, cb) => {
-      cb(null, `${Date.now()}-${file.originalname}`);
-    },
-  }),
+  storage: multer.memoryStorage(),
   limits: {
     fileSize: 5 * 1024 * 1024, // 5MB limit
   },
 });
 
-export function registerRoutes(app: Express): Server {
+// The summary stored in messages.attachments and returned by /api/upload
+function toAttachmentSummary(file: AttachmentFile): Attachment {
+  return {
+    id: file.id,
+    url: `/api/attachments/${file.id}`,
+    name: file.name,
+    mimeType: file.mimeType,
+    size: file.size,
+    width: file.width,
+    height: file.height,
+    thumbnailUrl: file.thumbnailKey
+      ? `/api/attachments/${file.id}/thumbnail`
+      : null,
+  };
+}
+
+type AttachmentClaimResult =
+  | { success: true; files: AttachmentFile[] }
+  | { success: false; error: string };
+
+// Resolve the upload ids sent with a new message: each must be an upload by
+// the sender, in the message's workspace, not yet sent with another message
+async function findClaimableAttachments(
+  userId: number,
+  workspaceId: number,
+  value: unknown,
+): Promise<AttachmentClaimResult> {
+  if (value === undefined || value === null) {
+    return { success: true, files: [] };
+  }
+  if (
+    !Array.isArray(value) ||
+    !value.every((id) => Number.isInteger(id)) ||
+    new Set(value).size !== value.length
+  ) {
+    return { success: false, error: "attachmentIds must be a list of upload IDs" };
+  }
+  if (value.length > MAX_ATTACHMENTS) {
+    return {
+      success: false,
+      error: `A message can have at most ${MAX_ATTACHMENTS} attachments`,
+    };
+  }
+  if (value.length === 0) return { success: true, files: [] };
+
+  const files = await db
+    .select()
+    .from(attachments)
+    .where(
+      and(
+        inArray(attachments.id, value),
+        eq(attachments.uploaderId, userId),
+        eq(attachments.workspaceId, workspaceId),
+        isNull(attachments.messageId),
+      ),
+    );
+
+  if (files.length !== value.length) {
+    return { success: false, error: "Unknown or already sent attachment" };
+  }
+
+  // Keep the order the files were attached in
+  files.sort((a, b) => value.indexOf(a.id) - value.indexOf(b.id));
+  return { success: true, files };
+}
+
+export function registerRoutes(
+  app: Express,
+  sessionParser: RequestHandler,
+): Server {
   // Create HTTP server first
   const httpServer = createServer(app);
 
   // Setup WebSocket after creating HTTP server but before registering routes
-  setupWebSocket(httpServer);
+  const broadcaster = setupWebSocket(httpServer, sessionParser);
+
+  // Send an event to everyone who can see the given message: channel
+  // members for channel messages, active participants for direct messages
+  async function publishToMessageAudience(
+    message: Pick<Message, "channelId" | "directMessageId">,
+    event: Record<string, unknown>,
+  ) {
+    if (message.channelId) {
+      await broadcaster.broadcastToChannel(message.channelId, event);
+      return;
+    }
+
+    if (message.directMessageId) {
+      broadcaster.broadcastToUsers(
+        await getParticipantIds(message.directMessageId),
+        event,
+      );
+    }
+  }
+
+  // Number of live (non-deleted) replies in a thread
+  async function countReplies(parentId: number) {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(messages)
+      .where(and(eq(messages.parentId, parentId), isNull(messages.deletedAt)));
+    return result.count;
+  }
+
+  // Live reply counts for a batch of thread parents in a single query
+  async function getReplyCounts(parentIds: number[]) {
+    const counts = new Map<number, number>();
+    if (parentIds.length === 0) return counts;
+
+    const rows = await db
+      .select({
+        parentId: messages.parentId,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(messages)
+      .where(
+        and(inArray(messages.parentId, parentIds), isNull(messages.deletedAt)),
+      )
+      .groupBy(messages.parentId);
+
+    for (const { parentId, count } of rows) {
+      if (parentId !== null) counts.set(parentId, count);
+    }
+    return counts;
+  }
+
+  // Aggregate reactions per message and emoji, in the order each emoji was
+  // first used
+  async function getReactionSummaries(messageIds: number[]) {
+    const summaries = new Map<number, ReactionSummary[]>();
+    if (messageIds.length === 0) return summaries;
+
+    const rows = await db
+      .select({
+        messageId: reactions.messageId,
+        emoji: reactions.emoji,
+        count: sql<number>`count(*)::int`,
+        userIds: sql<number[]>`array_agg(${reactions.userId} order by ${reactions.createdAt})`,
+      })
+      .from(reactions)
+      .where(inArray(reactions.messageId, messageIds))
+      .groupBy(reactions.messageId, reactions.emoji)
+      .orderBy(sql`min(${reactions.createdAt})`);
+
+    for (const { messageId, ...summary } of rows) {
+      if (messageId === null) continue;
+      const list = summaries.get(messageId) ?? [];
+      list.push(summary);
+      summaries.set(messageId, list);
+    }
+    return summaries;
+  }
+
+  // Publish a persisted message to everyone allowed to see it. Root messages
+  // go out as "message"/"dm_message", replies as "thread_message" together
+  // with the parent's fresh reply count. The workspace id, when given, lets
+  // clients tell which workspace's conversation lists a DM belongs in.
+  async function publishMessage(
+    message: MessageWithUser,
+    workspaceId?: number,
+  ) {
+    const replyCount = message.parentId
+      ? await countReplies(message.parentId)
+      : undefined;
+
+    let type = "message";
+    if (message.parentId) {
+      type = "thread_message";
+    } else if (message.directMessageId) {
+      type = "dm_message";
+    }
+
+    await publishToMessageAudience(message, {
+      type,
+      workspaceId,
+      channelId: message.channelId,
+      directMessageId: message.directMessageId,
+      parentId: message.parentId,
+      replyCount,
+      message,
+    });
+
+    // A new reply shows up in the activity feed of everyone in the thread
+    if (message.parentId && message.type !== "system") {
+      broadcaster.broadcastToUsers(
+        await getThreadParticipantIds(message.parentId, message.userId),
+        { type: "activity", kind: "reply", messageId: message.id },
+      );
+    }
+
+    // System messages quote user input (e.g. a topic) but never notify
+    if (message.type !== "system") await syncMentions(message);
+  }
+
+  // Work out who a message mentions. @user must be able to read the
+  // message; @channel and @here reach the channel's members (or the other
+  // DM participant), @here only those currently online.
+  async function resolveMentions(message: Message) {
+    const mentioned = new Map<number, MentionType>();
+    const parsed = parseMentions(message.content);
+    if (!hasMentions(parsed)) return mentioned;
+
+    let candidates: Array<{
+      id: number;
+      username: string;
+      status: string | null;
+      // Reached by @channel and @here
+      inAudience: boolean;
+      canRead: boolean;
+    }> = [];
+
+    if (message.channelId) {
+      const [channel] = await db
+        .select()
+        .from(channels)
+        .where(eq(channels.id, message.channelId))
+        .limit(1);
+      if (!channel) return mentioned;
+
+      const lowerUsername = sql<string>`lower(${users.username})`;
+      const rows = await db
+        .select({
+          id: users.id,
+          username: users.username,
+          status: users.status,
+          role: workspaceMembers.role,
+          channelMemberId: channelMembers.id,
+        })
+        .from(workspaceMembers)
+        .innerJoin(users, eq(workspaceMembers.userId, users.id))
+        .leftJoin(
+          channelMembers,
+          and(
+            eq(channelMembers.channelId, channel.id),
+            eq(channelMembers.userId, users.id),
+          ),
+        )
+        .where(
+          and(
+            eq(workspaceMembers.workspaceId, channel.workspaceId),
+            isNull(workspaceMembers.deactivatedAt),
+            // hasMentions() guarantees at least one of these applies
+            or(
+              parsed.channel || parsed.here
+                ? isNotNull(channelMembers.id)
+                : undefined,
+              parsed.usernames.length > 0
+                ? inArray(lowerUsername, parsed.usernames)
+                : undefined,
+            ),
+          ),
+        );
+
+      candidates = rows.map(({ channelMemberId, role, ...row }) => ({
+        ...row,
+        inAudience: channelMemberId !== null,
+        canRead:
+          channelMemberId !== null ||
+          (!channel.isPrivate && can(role, "accessPublicChannels")),
+      }));
+    } else if (message.directMessageId) {
+      const rows = await db
+        .select({ id: users.id, username: users.username, status: users.status })
+        .from(directMessageParticipants)
+        .innerJoin(users, eq(directMessageParticipants.userId, users.id))
+        .where(
+          eq(directMessageParticipants.directMessageId, message.directMessageId),
+        );
+
+      candidates = rows.map((row) => ({ ...row, inAudience: true, canRead: true }));
+    }
+
+    for (const candidate of candidates) {
+      if (candidate.id === message.userId) continue;
+
+      if (
+        candidate.canRead &&
+        parsed.usernames.includes(candidate.username.toLowerCase())
+      ) {
+        mentioned.set(candidate.id, "user");
+      } else if (candidate.inAudience && parsed.channel) {
+        mentioned.set(candidate.id, "channel");
+      } else if (
+        candidate.inAudience &&
+        parsed.here &&
+        candidate.status === "online"
+      ) {
+        mentioned.set(candidate.id, "here");
+      }
+    }
+    return mentioned;
+  }
+
+  // Store a new or edited message's mentions and notify the users it now
+  // mentions. Rows of users who stay mentioned across an edit are kept as
+  // they are, so they keep their place in the activity feed and aren't
+  // notified again.
+  async function syncMentions(message: MessageWithUser) {
+    if (message.deletedAt) return;
+
+    const mentioned = await resolveMentions(message);
+
+    const existing = await db
+      .select({
+        userId: messageMentions.mentionedUserId,
+        type: messageMentions.type,
+      })
+      .from(messageMentions)
+      .where(eq(messageMentions.messageId, message.id));
+
+    const removed = existing
+      .filter((row) => !mentioned.has(row.userId))
+      .map((row) => row.userId);
+    if (removed.length > 0) {
+      await db
+        .delete(messageMentions)
+        .where(
+          and(
+            eq(messageMentions.messageId, message.id),
+            inArray(messageMentions.mentionedUserId, removed),
+          ),
+        );
+    }
+
+    // An edit can turn an @here into a direct mention, or the reverse
+    for (const row of existing) {
+      const type = mentioned.get(row.userId);
+      if (type && type !== row.type) {
+        await db
+          .update(messageMentions)
+          .set({ type })
+          .where(
+            and(
+              eq(messageMentions.messageId, message.id),
+              eq(messageMentions.mentionedUserId, row.userId),
+            ),
+          );
+      }
+    }
+
+    const existingIds = new Set(existing.map((row) => row.userId));
+    const added = Array.from(mentioned).filter(
+      ([userId]) => !existingIds.has(userId),
+    );
+    if (added.length === 0) return;
+
+    // Only rows this call inserted are returned, so a concurrent edit can't
+    // notify the same user twice
+    const inserted = await db
+      .insert(messageMentions)
+      .values(
+        added.map(([mentionedUserId, type]) => ({
+          messageId: message.id,
+          mentionedUserId,
+          type,
+        })),
+      )
+      .onConflictDoNothing({
+        target: [messageMentions.messageId, messageMentions.mentionedUserId],
+      })
+      .returning({
+        userId: messageMentions.mentionedUserId,
+        type: messageMentions.type,
+      });
+
+    const recipients = new Map<MentionType, number[]>();
+    inserted.forEach(({ userId, type }) => {
+      recipients.set(type, [...(recipients.get(type) ?? []), userId]);
+    });
+
+    recipients.forEach((userIds, mentionType) => {
+      broadcaster.broadcastToUsers(userIds, {
+        type: "mention",
+        mentionType,
+        channelId: message.channelId,
+        directMessageId: message.directMessageId,
+        parentId: message.parentId,
+        message,
+      });
+    });
+  }
+
+  // Push a message's fresh reaction summary after a reaction was added or
+  // removed, and return it for the HTTP response
+  async function publishReactionChange(
+    message: Message,
+    type: "reaction_added" | "reaction_removed",
+    emoji: string,
+    userId: number,
+  ) {
+    const summaries = await getReactionSummaries([message.id]);
+    const result = {
+      messageId: message.id,
+      channelId: message.channelId,
+      directMessageId: message.directMessageId,
+      parentId: message.parentId,
+      emoji,
+      userId,
+      reactions: summaries.get(message.id) ?? [],
+    };
+
+    await publishToMessageAudience(message, { type, ...result });
+    return result;
+  }
+
+  // Load an attachment the user may download. Unsent uploads are visible to
+  // the uploader only; sent ones to everyone who can see the message.
+  async function getAttachmentForUser(attachmentId: number, userId: number) {
+    const [file] = await db
+      .select()
+      .from(attachments)
+      .where(eq(attachments.id, attachmentId))
+      .limit(1);
+
+    if (!file) return null;
+
+    if (file.messageId === null) {
+      return file.uploaderId === userId ? file : null;
+    }
+
+    // Checks workspace membership, DM participation and private channels
+    const access = await getMessageForUser(file.messageId, userId);
+    if (!access || access.message.deletedAt) return null;
+
+    return file;
+  }
+
+  // Create a message and link its uploads to it in one transaction. Returns
+  // null when an upload was sent with another message in the meantime.
+  async function insertMessage(
+    values: InferInsertModel<typeof messages>,
+    files: AttachmentFile[],
+  ) {
+    try {
+      return await db.transaction(async (tx) => {
+        const [created] = await tx
+          .insert(messages)
+          .values({
+            ...values,
+            attachments:
+              files.length > 0 ? files.map(toAttachmentSummary) : null,
+          })
+          .returning();
+
+        if (files.length > 0) {
+          const claimed = await tx
+            .update(attachments)
+            .set({
+              messageId: created.id,
+              channelId: created.channelId,
+              directMessageId: created.directMessageId,
+            })
+            .where(
+              and(
+                inArray(
+                  attachments.id,
+                  files.map((file) => file.id),
+                ),
+                isNull(attachments.messageId),
+              ),
+            )
+            .returning({ id: attachments.id });
+
+          if (claimed.length !== files.length) tx.rollback();
+        }
+        return created;
+      });
+    } catch (error) {
+      if (error instanceof TransactionRollbackError) return null;
+      throw error;
+    }
+  }
+
+  // Load a message with the workspace it belongs to and the requesting
+  // user's membership of that workspace. Returns null when the message does
+  // not exist or the user may not see it.
+  async function getMessageForUser(messageId: number, userId: number) {
+    const [row] = await db
+      .select({
+        message: messages,
+        channel: channels,
+        directMessage: directMessages,
+      })
+      .from(messages)
+      .leftJoin(channels, eq(messages.channelId, channels.id))
+      .leftJoin(directMessages, eq(messages.directMessageId, directMessages.id))
+      .where(eq(messages.id, messageId))
+      .limit(1);
+
+    if (!row) return null;
+
+    const workspaceId =
+      row.channel?.workspaceId ?? row.directMessage?.workspaceId;
+    if (!workspaceId) return null;
+
+    // DMs are limited to their participants
+    const membership = row.directMessage
+      ? (await getDirectMessageAccess(row.directMessage.id, userId))
+          ?.workspaceMember
+      : await getWorkspaceMember(workspaceId, userId);
+
+    if (!membership) return null;
+
+    // Private channels, and for guests every channel, need channel membership
+    if (
+      row.channel &&
+      (row.channel.isPrivate || !can(membership.role, "accessPublicChannels"))
+    ) {
+      const [channelMember] = await db
+        .select()
+        .from(channelMembers)
+        .where(
+          and(
+            eq(channelMembers.channelId, row.channel.id),
+            eq(channelMembers.userId, userId),
+          ),
+        )
+        .limit(1);
+
+      if (!channelMember) return null;
+    }
+
+    return {
+      message: row.message,
+      channel: row.channel,
+      workspaceId,
+      membership,
+    };
+  }
+
+  // Resolve a user's access to a channel. Workspace members can read public
+  // channels, except guests; private channels are limited to their members.
+  async function getChannelAccess(channelId: number, userId: number) {
+    const [channel] = await db
+      .select()
+      .from(channels)
+      .where(eq(channels.id, channelId))
+      .limit(1);
+
+    if (!channel) return null;
+
+    const [workspaceMember, [channelMember]] = await Promise.all([
+      getWorkspaceMember(channel.workspaceId, userId),
+      db
+        .select()
+        .from(channelMembers)
+        .where(
+          and(
+            eq(channelMembers.channelId, channelId),
+            eq(channelMembers.userId, userId),
+          ),
+        )
+        .limit(1),
+    ]);
+
+    return {
+      channel,
+      workspaceMember,
+      channelMember: channelMember ?? null,
+      canRead:
+        !!workspaceMember &&
+        (!!channelMember ||
+          (!channel.isPrivate &&
+            can(workspaceMember.role, "accessPublicChannels"))),
+    };
+  }
+
+  // Channel creators and workspace roles that manage channels can rename,
+  // archive and remove members from a channel
+  function canManageChannel(
+    channel: Channel,
+    member: { userId: number; role: string | null } | null,
+  ) {
+    return (
+      !!member &&
+      (channel.createdById === member.userId ||
+        can(member.role, "manageChannels"))
+    );
+  }
+
+  async function isChannelNameTaken(
+    workspaceId: number,
+    name: string,
+    exceptChannelId?: number,
+  ) {
+    const [existing] = await db
+      .select({ id: channels.id })
+      .from(channels)
+      .where(
+        and(
+          eq(channels.workspaceId, workspaceId),
+          sql`lower(${channels.name}) = ${name.toLowerCase()}`,
+          exceptChannelId ? ne(channels.id, exceptChannelId) : undefined,
+        ),
+      )
+      .limit(1);
+
+    return !!existing;
+  }
+
+  // Post a system message ("renamed the channel to #x") on behalf of the
+  // member who made the change and push it like any other message
+  async function postSystemMessage(
+    channelId: number,
+    userId: number,
+    content: string,
+  ) {
+    const created = await insertMessage(
+      { content, userId, channelId, type: "system" },
+      [],
+    );
+    if (!created) return;
+
+    const [author] = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    await publishMessage({ ...created, user: author ?? null });
+  }
+
+  // Tell everyone who can see a channel that its settings changed: the whole
+  // workspace for public channels, only the members for private ones
+  async function publishChannelUpdate(channel: Channel) {
+    const event = {
+      type: "channel_updated",
+      workspaceId: channel.workspaceId,
+      channelId: channel.id,
+      channel,
+    };
+
+    if (channel.isPrivate) {
+      await broadcaster.broadcastToChannel(channel.id, event);
+    } else {
+      await publishToWorkspace(channel.workspaceId, event);
+    }
+  }
+
+  // Add or remove a channel member, keep their live subscription in sync and
+  // tell them and the remaining members so channel lists and member lists
+  // refresh
+  async function setChannelMembership(
+    channel: Channel,
+    userId: number,
+    isMember: boolean,
+  ) {
+    if (isMember) {
+      const [existing] = await db
+        .select()
+        .from(channelMembers)
+        .where(
+          and(
+            eq(channelMembers.channelId, channel.id),
+            eq(channelMembers.userId, userId),
+          ),
+        )
+        .limit(1);
+
+      if (existing) return false;
+
+      await db
+        .insert(channelMembers)
+        .values({ channelId: channel.id, userId });
+    } else {
+      const removed = await db
+        .delete(channelMembers)
+        .where(
+          and(
+            eq(channelMembers.channelId, channel.id),
+            eq(channelMembers.userId, userId),
+          ),
+        )
+        .returning();
+
+      if (removed.length === 0) return false;
+    }
+
+    broadcaster.updateChannelSubscription(userId, channel.id, isMember);
+
+    const remaining = await db
+      .select({ userId: channelMembers.userId })
+      .from(channelMembers)
+      .where(eq(channelMembers.channelId, channel.id));
+
+    broadcaster.broadcastToUsers(
+      [userId, ...remaining.map((member) => member.userId)],
+      {
+        type: "channel_membership",
+        action: isMember ? "added" : "removed",
+        channelId: channel.id,
+        workspaceId: channel.workspaceId,
+        userId,
+      },
+    );
+    return true;
+  }
+
+  // Send an event to every active member of a workspace, plus any extra
+  // users (e.g. a member who was just removed)
+  async function publishToWorkspace(
+    workspaceId: number,
+    event: Record<string, unknown>,
+    extraUserIds: number[] = [],
+  ) {
+    const members = await db
+      .select({ userId: workspaceMembers.userId })
+      .from(workspaceMembers)
+      .where(
+        and(
+          eq(workspaceMembers.workspaceId, workspaceId),
+          isNull(workspaceMembers.deactivatedAt),
+        ),
+      );
+
+    broadcaster.broadcastToUsers(
+      [...members.map((member) => member.userId), ...extraUserIds],
+      event,
+    );
+  }
+
+  // Take a user out of every channel in a workspace when they're removed or
+  // deactivated, and return the channels' ids so the caller can drop them
+  // from the user's open sockets once the transaction commits
+  async function leaveWorkspaceChannels(
+    tx: Transaction,
+    workspaceId: number,
+    userId: number,
+  ) {
+    const removed = await tx
+      .delete(channelMembers)
+      .where(
+        and(
+          eq(channelMembers.userId, userId),
+          inArray(
+            channelMembers.channelId,
+            tx
+              .select({ id: channels.id })
+              .from(channels)
+              .where(eq(channels.workspaceId, workspaceId)),
+          ),
+        ),
+      )
+      .returning({ channelId: channelMembers.channelId });
+
+    return removed.map((row) => row.channelId);
+  }
+
+  // DM conversations as listed to a user: the other participants (the
+  // partner's id for one-to-one conversations) and unread counts
+  async function getConversationSummaries(
+    user: { id: number; username: string },
+    directMessageIds: number[],
+  ) {
+    const [participants, unreadCounts] = await Promise.all([
+      getParticipants(directMessageIds),
+      getUnreadCounts(user, "directMessageId", directMessageIds),
+    ]);
+
+    return directMessageIds.map((id) => {
+      const others = (participants.get(id) ?? []).filter(
+        (participant) => participant.id !== user.id,
+      );
+      return {
+        id,
+        participants: others,
+        otherUserId: others.length === 1 ? others[0].id : null,
+        ...(unreadCounts.get(id) ?? {
+          unreadCount: 0,
+          mentionCount: 0,
+          lastReadMessageId: null,
+        }),
+      };
+    });
+  }
+
+  // Unread root messages from other users since the user's read marker,
+  // per channel or DM conversation. Without a marker everything is unread.
+  async function getUnreadCounts(
+    user: { id: number; username: string },
+    scope: "channelId" | "directMessageId",
+    ids: number[],
+  ) {
+    const counts = new Map<number, UnreadCounts>();
+    if (ids.length === 0) return counts;
+
+    const messageScope = messages[scope];
+    const readScope = lastReads[scope];
+
+    const reads = await db
+      .select()
+      .from(lastReads)
+      .where(and(eq(lastReads.userId, user.id), inArray(readScope, ids)));
+
+    for (const id of ids) {
+      const read = reads.find((r) => r[scope] === id);
+      counts.set(id, {
+        unreadCount: 0,
+        mentionCount: 0,
+        lastReadMessageId: read?.lastReadMessageId ?? null,
+      });
+    }
+
+    const rows = await db
+      .select({
+        id: messageScope,
+        unreadCount: sql<number>`count(*)::int`,
+        mentionCount: sql<number>`(count(*) filter (where exists (select 1 from ${messageMentions} where ${messageMentions.messageId} = ${messages.id} and ${messageMentions.mentionedUserId} = ${user.id})))::int`,
+      })
+      .from(messages)
+      .leftJoin(
+        lastReads,
+        and(eq(lastReads.userId, user.id), eq(readScope, messageScope)),
+      )
+      .where(
+        and(
+          inArray(messageScope, ids),
+          isNull(messages.parentId),
+          isNull(messages.deletedAt),
+          sql`${messages.userId} is distinct from ${user.id}`,
+          or(
+            isNull(lastReads.lastReadMessageId),
+            sql`${messages.id} > ${lastReads.lastReadMessageId}`,
+          ),
+        ),
+      )
+      .groupBy(messageScope);
+
+    for (const { id, unreadCount, mentionCount } of rows) {
+      const existing = id !== null ? counts.get(id) : undefined;
+      if (existing) {
+        existing.unreadCount = unreadCount;
+        existing.mentionCount = mentionCount;
+      }
+    }
+    return counts;
+  }
+
+  // Move the user's read marker forward (never back) to the given message,
+  // or to the newest message when none is given, then sync the user's
+  // other sockets
+  async function markRead(
+    user: { id: number; username: string },
+    scope: "channelId" | "directMessageId",
+    id: number,
+    messageId?: number,
+  ) {
+    const [target] = await db
+      .select({ id: messages.id })
+      .from(messages)
+      .where(
+        and(
+          eq(messages[scope], id),
+          messageId !== undefined ? eq(messages.id, messageId) : undefined,
+        ),
+      )
+      .orderBy(desc(messages.id))
+      .limit(1);
+
+    if (messageId !== undefined && !target) return null;
+
+    if (target) {
+      await db
+        .insert(lastReads)
+        .values({ userId: user.id, [scope]: id, lastReadMessageId: target.id })
+        .onConflictDoUpdate({
+          target: [lastReads.userId, lastReads[scope]],
+          set: {
+            lastReadMessageId: sql`greatest(${lastReads.lastReadMessageId}, excluded.last_read_message_id)`,
+            updatedAt: new Date(),
+          },
+        });
+    }
+
+    const counts = (await getUnreadCounts(user, scope, [id])).get(id)!;
+    broadcaster.broadcastToUsers([user.id], {
+      type: "read_state",
+      [scope]: id,
+      ...counts,
+    });
+    return counts;
+  }
 
   // Middleware to ensure Content-Type is set for API responses
   app.use("/api", (req, res, next) => {
@@ -66,7 +1066,12 @@ export function registerRoutes(app: Express): Server {
           role: workspaceMembers.role,
         })
         .from(workspaceMembers)
-        .where(eq(workspaceMembers.userId, user.id))
+        .where(
+          and(
+            eq(workspaceMembers.userId, user.id),
+            isNull(workspaceMembers.deactivatedAt),
+          ),
+        )
         .innerJoin(workspaces, eq(workspaceMembers.workspaceId, workspaces.id))
         .leftJoin(
           organizations,
@@ -110,22 +1115,15 @@ export function registerRoutes(app: Express): Server {
       // If user is authenticated, check membership
       if (req.user) {
         const user = req.user;
-        const [member] = await db
-          .select()
-          .from(workspaceMembers)
-          .where(
-            and(
-              eq(workspaceMembers.workspaceId, workspaceId),
-              eq(workspaceMembers.userId, user.id),
-            ),
-          )
-          .limit(1);
+        const member = await getWorkspaceMember(workspaceId, user.id);
 
         if (member) {
-          // Return full workspace data for members
+          // Return full workspace data for members, with what their role
+          // allows them to do
           return res.json({
             ...workspaceResult,
             membership: member,
+            capabilities: getCapabilities(member.role),
           });
         }
       }
@@ -152,625 +1150,2414 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.get("/api/workspaces/:workspaceId/channels", async (req, res) => {
-    try {
-      const user = req.user;
-      if (!user) return res.status(401).json({ error: "Not authenticated" });
+  app.patch("/api/workspaces/:workspaceId", async (req, res) => {
+    const user = req.user;
+    if (!user) return res.status(401).json({ error: "Not authenticated" });
 
-      const workspaceId = parseInt(req.params.workspaceId);
-      if (isNaN(workspaceId)) {
-        return res.status(400).json({ error: "Invalid workspace ID" });
-      }
+    const workspaceId = parseInt(req.params.workspaceId);
+    if (isNaN(workspaceId)) {
+      return res.status(400).json({ error: "Invalid workspace ID" });
+    }
 
-      // Check workspace membership
-      const [member] = await db
-        .select()
-        .from(workspaceMembers)
-        .where(
-          and(
-            eq(workspaceMembers.workspaceId, workspaceId),
-            eq(workspaceMembers.userId, user.id),
-          ),
-        )
-        .limit(1);
+    const name = typeof req.body.name === "string" ? req.body.name.trim() : "";
+    if (!name) {
+      return res.status(400).json({ error: "Workspace name is required" });
+    }
+
+    try {
+      const member = await getWorkspaceMember(workspaceId, user.id);
 
       if (!member) {
         return res
           .status(403)
           .json({ error: "Not a member of this workspace" });
       }
+      if (!can(member.role, "renameWorkspace")) {
+        return res
+          .status(403)
+          .json({ error: "Not allowed to rename this workspace" });
+      }
 
-      const workspaceChannels = await db
-        .select()
-        .from(channels)
-        .where(eq(channels.workspaceId, workspaceId));
+      const [updated] = await db
+        .update(workspaces)
+        .set({ name })
+        .where(eq(workspaces.id, workspaceId))
+        .returning();
+
+      await publishToWorkspace(workspaceId, {
+        type: "workspace_updated",
+        workspaceId,
+        workspace: updated,
+      });
 
-      res.json(workspaceChannels);
+      res.json(updated);
     } catch (error) {
-      console.error("Error fetching workspace channels:", error);
+      console.error("Error renaming workspace:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.get("/api/workspaces/:workspaceId/users", async (req, res) => {
+  // Members with their roles, ordered by role. Deactivated members are only
+  // listed for those who can manage members.
+  app.get("/api/workspaces/:workspaceId/members", async (req, res) => {
+    const user = req.user;
+    if (!user) return res.status(401).json({ error: "Not authenticated" });
+
+    const workspaceId = parseInt(req.params.workspaceId);
+    if (isNaN(workspaceId)) {
+      return res.status(400).json({ error: "Invalid workspace ID" });
+    }
+
     try {
-      const user = req.user;
-      if (!user) {
-        return res.status(401).json({ error: "Not authenticated" });
+      const member = await getWorkspaceMember(workspaceId, user.id);
+      if (!member) {
+        return res
+          .status(403)
+          .json({ error: "Not a member of this workspace" });
       }
 
-      const workspaceId = parseInt(req.params.workspaceId);
-      if (isNaN(workspaceId)) {
-        return res.status(400).json({ error: "Invalid workspace ID" });
+      const members = await db
+        .select({
+          userId: users.id,
+          username: users.username,
+          avatar: users.avatar,
+          status: users.status,
+          role: workspaceMembers.role,
+          joinedAt: workspaceMembers.joinedAt,
+          deactivatedAt: workspaceMembers.deactivatedAt,
+        })
+        .from(workspaceMembers)
+        .innerJoin(users, eq(workspaceMembers.userId, users.id))
+        .where(
+          and(
+            eq(workspaceMembers.workspaceId, workspaceId),
+            can(member.role, "manageMembers")
+              ? undefined
+              : isNull(workspaceMembers.deactivatedAt),
+          ),
+        )
+        .orderBy(asc(users.username));
+
+      members.sort(
+        (a, b) =>
+          workspaceRoles.indexOf(a.role ?? "member") -
+          workspaceRoles.indexOf(b.role ?? "member"),
+      );
+
+      res.json(members);
+    } catch (error) {
+      console.error("Error fetching workspace members:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Change a member's role, or deactivate/reactivate them. Only members
+  // ranked below the current user can be changed.
+  app.patch(
+    "/api/workspaces/:workspaceId/members/:userId",
+    async (req, res) => {
+      const user = req.user;
+      if (!user) return res.status(401).json({ error: "Not authenticated" });
+
+      const workspaceId = parseInt(req.params.workspaceId);
+      const userId = parseInt(req.params.userId);
+      if (isNaN(workspaceId) || isNaN(userId)) {
+        return res.status(400).json({ error: "Invalid workspace or user ID" });
+      }
+
+      const { role, deactivated } = req.body;
+      if (role === undefined && deactivated === undefined) {
+        return res
+          .status(400)
+          .json({ error: "role or deactivated is required" });
+      }
+      if (role !== undefined && !workspaceRoles.includes(role)) {
+        return res
+          .status(400)
+          .json({ error: `role must be one of ${workspaceRoles.join(", ")}` });
+      }
+      if (deactivated !== undefined && typeof deactivated !== "boolean") {
+        return res.status(400).json({ error: "deactivated must be true or false" });
+      }
+
+      try {
+        const actor = await getWorkspaceMember(workspaceId, user.id);
+        if (!actor) {
+          return res
+            .status(403)
+            .json({ error: "Not a member of this workspace" });
+        }
+        if (userId === user.id) {
+          return res
+            .status(400)
+            .json({ error: "You can't change your own membership" });
+        }
+
+        const [target] = await db
+          .select()
+          .from(workspaceMembers)
+          .where(
+            and(
+              eq(workspaceMembers.workspaceId, workspaceId),
+              eq(workspaceMembers.userId, userId),
+            ),
+          )
+          .limit(1);
+
+        if (!target) {
+          return res.status(404).json({ error: "Member not found" });
+        }
+        if (!canManageMember(actor.role, target.role)) {
+          return res
+            .status(403)
+            .json({ error: "Not allowed to manage this member" });
+        }
+        if (role !== undefined && !canAssignRole(actor.role, role)) {
+          return res
+            .status(403)
+            .json({ error: `Not allowed to make members ${role}` });
+        }
+
+        const updated = await db.transaction(async (tx) => {
+          const [row] = await tx
+            .update(workspaceMembers)
+            .set({
+              role,
+              deactivatedAt:
+                deactivated === undefined
+                  ? undefined
+                  : deactivated
+                    ? target.deactivatedAt ?? new Date()
+                    : null,
+            })
+            .where(eq(workspaceMembers.id, target.id))
+            .returning();
+
+          // Reactivated members rejoin the default channels, deactivated
+          // ones leave all of them
+          const rejoined =
+            deactivated === false && target.deactivatedAt
+              ? await joinDefaultChannels(
+                  tx,
+                  workspaceId,
+                  userId,
+                  row.role ?? "member",
+                )
+              : [];
+          const left =
+            deactivated === true && !target.deactivatedAt
+              ? await leaveWorkspaceChannels(tx, workspaceId, userId)
+              : [];
+          return { row, rejoined, left };
+        });
+
+        for (const channelId of updated.rejoined) {
+          broadcaster.updateChannelSubscription(userId, channelId, true);
+        }
+        for (const channelId of updated.left) {
+          broadcaster.updateChannelSubscription(userId, channelId, false);
+        }
+
+        await publishToWorkspace(
+          workspaceId,
+          {
+            type: "workspace_member",
+            action: updated.row.deactivatedAt ? "deactivated" : "updated",
+            workspaceId,
+            userId,
+            role: updated.row.role,
+          },
+          [userId],
+        );
+
+        res.json(updated.row);
+      } catch (error) {
+        console.error("Error updating workspace member:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    },
+  );
+
+  // Remove a member from the workspace, or leave it. Owners can't leave
+  // without transferring ownership first.
+  app.delete(
+    "/api/workspaces/:workspaceId/members/:userId",
+    async (req, res) => {
+      const user = req.user;
+      if (!user) return res.status(401).json({ error: "Not authenticated" });
+
+      const workspaceId = parseInt(req.params.workspaceId);
+      const userId = parseInt(req.params.userId);
+      if (isNaN(workspaceId) || isNaN(userId)) {
+        return res.status(400).json({ error: "Invalid workspace or user ID" });
+      }
+
+      try {
+        const actor = await getWorkspaceMember(workspaceId, user.id);
+        if (!actor) {
+          return res
+            .status(403)
+            .json({ error: "Not a member of this workspace" });
+        }
+
+        const [target] = await db
+          .select()
+          .from(workspaceMembers)
+          .where(
+            and(
+              eq(workspaceMembers.workspaceId, workspaceId),
+              eq(workspaceMembers.userId, userId),
+            ),
+          )
+          .limit(1);
+
+        if (!target) {
+          return res.status(404).json({ error: "Member not found" });
+        }
+        if (userId === user.id) {
+          if (target.role === "owner") {
+            return res.status(400).json({
+              error: "Transfer ownership before leaving the workspace",
+            });
+          }
+        } else if (!canManageMember(actor.role, target.role)) {
+          return res
+            .status(403)
+            .json({ error: "Not allowed to remove this member" });
+        }
+
+        const left = await db.transaction(async (tx) => {
+          const channelIds = await leaveWorkspaceChannels(
+            tx,
+            workspaceId,
+            userId,
+          );
+          await tx
+            .delete(workspaceMembers)
+            .where(eq(workspaceMembers.id, target.id));
+          return channelIds;
+        });
+        for (const channelId of left) {
+          broadcaster.updateChannelSubscription(userId, channelId, false);
+        }
+
+        await publishToWorkspace(
+          workspaceId,
+          { type: "workspace_member", action: "removed", workspaceId, userId },
+          [userId],
+        );
+
+        res.json({ workspaceId, userId });
+      } catch (error) {
+        console.error("Error removing workspace member:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    },
+  );
+
+  // Hand the workspace to another active member. The previous owner stays
+  // on as an admin.
+  app.post(
+    "/api/workspaces/:workspaceId/transfer-ownership",
+    async (req, res) => {
+      const user = req.user;
+      if (!user) return res.status(401).json({ error: "Not authenticated" });
+
+      const workspaceId = parseInt(req.params.workspaceId);
+      const { userId } = req.body;
+      if (isNaN(workspaceId) || !Number.isInteger(userId)) {
+        return res.status(400).json({ error: "Invalid workspace or user ID" });
+      }
+
+      try {
+        const actor = await getWorkspaceMember(workspaceId, user.id);
+        if (!actor || !can(actor.role, "transferOwnership")) {
+          return res
+            .status(403)
+            .json({ error: "Only the owner can transfer ownership" });
+        }
+        if (userId === user.id) {
+          return res
+            .status(400)
+            .json({ error: "You already own this workspace" });
+        }
+
+        const target = await getWorkspaceMember(workspaceId, userId);
+        if (!target) {
+          return res.status(404).json({ error: "Member not found" });
+        }
+
+        await db.transaction(async (tx) => {
+          await tx
+            .update(workspaceMembers)
+            .set({ role: "owner" })
+            .where(eq(workspaceMembers.id, target.id));
+          await tx
+            .update(workspaceMembers)
+            .set({ role: "admin" })
+            .where(eq(workspaceMembers.id, actor.id));
+        });
+
+        for (const [memberId, role] of [
+          [userId, "owner"],
+          [user.id, "admin"],
+        ] as const) {
+          await publishToWorkspace(workspaceId, {
+            type: "workspace_member",
+            action: "updated",
+            workspaceId,
+            userId: memberId,
+            role,
+          });
+        }
+
+        res.json({ workspaceId, ownerId: userId });
+      } catch (error) {
+        console.error("Error transferring ownership:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    },
+  );
+
+  app.get("/api/workspaces/:workspaceId/invites", async (req, res) => {
+    const user = req.user;
+    if (!user) return res.status(401).json({ error: "Not authenticated" });
+
+    const workspaceId = parseInt(req.params.workspaceId);
+    if (isNaN(workspaceId)) {
+      return res.status(400).json({ error: "Invalid workspace ID" });
+    }
+
+    try {
+      const member = await getWorkspaceMember(workspaceId, user.id);
+
+      if (!member || !can(member.role, "inviteMembers")) {
+        return res
+          .status(403)
+          .json({ error: "Not allowed to manage invites for this workspace" });
+      }
+
+      const invites = await db
+        .select({
+          invite: workspaceInvites,
+          createdBy: { id: users.id, username: users.username },
+        })
+        .from(workspaceInvites)
+        .innerJoin(users, eq(workspaceInvites.createdById, users.id))
+        .where(eq(workspaceInvites.workspaceId, workspaceId))
+        .orderBy(desc(workspaceInvites.createdAt));
+
+      res.json(
+        invites.map(({ invite, createdBy }) => ({
+          ...invite,
+          status: getInviteStatus(invite),
+          createdBy,
+        })),
+      );
+    } catch (error) {
+      console.error("Error fetching invites:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Create an invite link. maxUses and expiresInHours are optional; leaving
+  // them out makes a link with unlimited uses that never expires.
+  app.post("/api/workspaces/:workspaceId/invites", async (req, res) => {
+    const user = req.user;
+    if (!user) return res.status(401).json({ error: "Not authenticated" });
+
+    const workspaceId = parseInt(req.params.workspaceId);
+    if (isNaN(workspaceId)) {
+      return res.status(400).json({ error: "Invalid workspace ID" });
+    }
+
+    const { role = "member", maxUses = null, expiresInHours = null } = req.body;
+    if (!INVITE_ROLES.includes(role)) {
+      return res
+        .status(400)
+        .json({ error: `role must be one of ${INVITE_ROLES.join(", ")}` });
+    }
+    if (maxUses !== null && !(Number.isInteger(maxUses) && maxUses > 0)) {
+      return res
+        .status(400)
+        .json({ error: "maxUses must be a positive whole number" });
+    }
+    if (
+      expiresInHours !== null &&
+      !(
+        typeof expiresInHours === "number" &&
+        expiresInHours > 0 &&
+        expiresInHours <= MAX_INVITE_EXPIRY_HOURS
+      )
+    ) {
+      return res.status(400).json({
+        error: `expiresInHours must be between 0 and ${MAX_INVITE_EXPIRY_HOURS}`,
+      });
+    }
+
+    try {
+      const member = await getWorkspaceMember(workspaceId, user.id);
+
+      if (!member || !can(member.role, "inviteMembers")) {
+        return res
+          .status(403)
+          .json({ error: "Not allowed to invite people to this workspace" });
+      }
+
+      const [invite] = await db
+        .insert(workspaceInvites)
+        .values({
+          token: createInviteToken(),
+          workspaceId,
+          role,
+          createdById: user.id,
+          maxUses,
+          expiresAt:
+            expiresInHours !== null
+              ? new Date(Date.now() + expiresInHours * 60 * 60 * 1000)
+              : null,
+        })
+        .returning();
+
+      res.json({
+        ...invite,
+        status: getInviteStatus(invite),
+        createdBy: { id: user.id, username: user.username },
+      });
+    } catch (error) {
+      console.error("Error creating invite:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete(
+    "/api/workspaces/:workspaceId/invites/:inviteId",
+    async (req, res) => {
+      const user = req.user;
+      if (!user) return res.status(401).json({ error: "Not authenticated" });
+
+      const workspaceId = parseInt(req.params.workspaceId);
+      const inviteId = parseInt(req.params.inviteId);
+      if (isNaN(workspaceId) || isNaN(inviteId)) {
+        return res.status(400).json({ error: "Invalid workspace or invite ID" });
+      }
+
+      try {
+        const member = await getWorkspaceMember(workspaceId, user.id);
+
+        if (!member || !can(member.role, "inviteMembers")) {
+          return res
+            .status(403)
+            .json({ error: "Not allowed to manage invites for this workspace" });
+        }
+
+        const [revoked] = await db
+          .update(workspaceInvites)
+          .set({ revokedAt: new Date() })
+          .where(
+            and(
+              eq(workspaceInvites.id, inviteId),
+              eq(workspaceInvites.workspaceId, workspaceId),
+              isNull(workspaceInvites.revokedAt),
+            ),
+          )
+          .returning();
+
+        if (!revoked) {
+          return res
+            .status(404)
+            .json({ error: "Invite not found or already revoked" });
+        }
+
+        res.json({ ...revoked, status: getInviteStatus(revoked) });
+      } catch (error) {
+        console.error("Error revoking invite:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    },
+  );
+
+  // What an invite link leads to, for the join page. Public, since the
+  // person following the link usually has no account yet.
+  app.get("/api/invites/:token", async (req, res) => {
+    try {
+      const found = await findInvite(req.params.token);
+      if (!found) return res.status(404).json({ error: "Invite not found" });
+
+      const error = getInviteError(found.invite);
+      if (error) return res.status(410).json({ error });
+
+      res.json({
+        role: found.invite.role,
+        expiresAt: found.invite.expiresAt,
+        workspace: {
+          id: found.workspace.id,
+          name: found.workspace.name,
+          organization: found.organization
+            ? { id: found.organization.id, name: found.organization.name }
+            : null,
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching invite:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Join a workspace as a signed-in user
+  app.post("/api/invites/:token/accept", async (req, res) => {
+    const user = req.user;
+    if (!user) return res.status(401).json({ error: "Not authenticated" });
+
+    try {
+      const joined = await db.transaction((tx) =>
+        acceptInvite(tx, req.params.token, user.id),
+      );
+      if (!joined.success) {
+        return res.status(joined.status).json({ error: joined.error });
+      }
+
+      for (const channelId of joined.channelIds) {
+        broadcaster.updateChannelSubscription(user.id, channelId, true);
+      }
+
+      res.json({
+        workspaceId: joined.workspaceId,
+        role: joined.role,
+        alreadyMember: joined.alreadyMember,
+      });
+    } catch (error) {
+      console.error("Error accepting invite:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/workspaces/:workspaceId/channels", async (req, res) => {
+    try {
+      const user = req.user;
+      if (!user) return res.status(401).json({ error: "Not authenticated" });
+
+      const workspaceId = parseInt(req.params.workspaceId);
+      if (isNaN(workspaceId)) {
+        return res.status(400).json({ error: "Invalid workspace ID" });
+      }
+
+      // Check workspace membership
+      const member = await getWorkspaceMember(workspaceId, user.id);
+
+      if (!member) {
+        return res
+          .status(403)
+          .json({ error: "Not a member of this workspace" });
+      }
+
+      // Public channels plus the private channels the user belongs to.
+      // Guests only see the channels they belong to.
+      const workspaceChannels = await db
+        .select({
+          channel: channels,
+          membershipId: channelMembers.id,
+        })
+        .from(channels)
+        .leftJoin(
+          channelMembers,
+          and(
+            eq(channelMembers.channelId, channels.id),
+            eq(channelMembers.userId, user.id),
+          ),
+        )
+        .where(
+          and(
+            eq(channels.workspaceId, workspaceId),
+            can(member.role, "accessPublicChannels")
+              ? or(
+                  isNull(channels.isPrivate),
+                  eq(channels.isPrivate, false),
+                  isNotNull(channelMembers.id),
+                )
+              : isNotNull(channelMembers.id),
+          ),
+        )
+        .orderBy(asc(channels.name));
+
+      const unreadCounts = await getUnreadCounts(
+        user,
+        "channelId",
+        workspaceChannels
+          .filter(({ membershipId }) => membershipId !== null)
+          .map(({ channel }) => channel.id),
+      );
+
+      res.json(
+        workspaceChannels.map(({ channel, membershipId }) => ({
+          ...channel,
+          isMember: membershipId !== null,
+          ...(unreadCounts.get(channel.id) ?? {
+            unreadCount: 0,
+            mentionCount: 0,
+            lastReadMessageId: null,
+          }),
+        })),
+      );
+    } catch (error) {
+      console.error("Error fetching workspace channels:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/workspaces/:workspaceId/users", async (req, res) => {
+    try {
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const workspaceId = parseInt(req.params.workspaceId);
+      if (isNaN(workspaceId)) {
+        return res.status(400).json({ error: "Invalid workspace ID" });
+      }
+
+      // Check workspace membership using proper typing
+      const member = await getWorkspaceMember(workspaceId, user.id);
+
+      if (!member) {
+        return res
+          .status(403)
+          .json({ error: "Not a member of this workspace" });
+      }
+
+      // Get all workspace users with proper typing
+      const workspaceUsers = await db
+        .select({
+          id: users.id,
+          username: users.username,
+        })
+        .from(workspaceMembers)
+        .where(
+          and(
+            eq(workspaceMembers.workspaceId, workspaceId),
+            isNull(workspaceMembers.deactivatedAt),
+          ),
+        )
+        .innerJoin(users, eq(workspaceMembers.userId, users.id));
+
+      res.json(workspaceUsers);
+    } catch (error) {
+      console.error("Error fetching workspace users:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/workspaces/:workspaceId/search", async (req, res) => {
+    const user = req.user;
+    if (!user) return res.status(401).json({ error: "Not authenticated" });
+
+    const workspaceId = parseInt(req.params.workspaceId);
+    if (isNaN(workspaceId)) {
+      return res.status(400).json({ error: "Invalid workspace ID" });
+    }
+
+    const parsed = parseSearchQuery(String(req.query.q ?? ""));
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const filters = parsed.filters;
+    if (!hasSearchCriteria(filters)) {
+      return res.status(400).json({ error: "Search query is required" });
+    }
+
+    try {
+      // Check workspace membership
+      const member = await getWorkspaceMember(workspaceId, user.id);
+
+      if (!member) {
+        return res
+          .status(403)
+          .json({ error: "Not a member of this workspace" });
+      }
+
+      // Only public channels, private channels the user belongs to, and the
+      // user's own DMs are searchable. Guests only search their channels.
+      const isChannelMember = sql`exists (select 1 from ${channelMembers} where ${channelMembers.channelId} = ${channels.id} and ${channelMembers.userId} = ${user.id})`;
+      const canSee = or(
+        and(
+          eq(channels.workspaceId, workspaceId),
+          can(member.role, "accessPublicChannels")
+            ? or(
+                isNull(channels.isPrivate),
+                eq(channels.isPrivate, false),
+                isChannelMember,
+              )
+            : isChannelMember,
+        ),
+        and(
+          eq(directMessages.workspaceId, workspaceId),
+          sql`exists (select 1 from ${directMessageParticipants} where ${directMessageParticipants.directMessageId} = ${directMessages.id} and ${directMessageParticipants.userId} = ${user.id})`,
+        ),
+      );
+
+      const searchVector = sql`to_tsvector('english', ${messages.content})`;
+      const searchQuery = sql`websearch_to_tsquery('english', ${filters.text})`;
+
+      let inDirectMessagesCondition;
+      if (filters.inDirectMessages.length > 0) {
+        const dmUsers = await db
+          .select({ id: users.id })
+          .from(users)
+          .where(
+            inArray(sql`lower(${users.username})`, filters.inDirectMessages),
+          );
+        const dmUserIds = dmUsers.map((u) => u.id);
+
+        // Conversations any of them take part in. Unknown users simply
+        // match nothing.
+        inDirectMessagesCondition =
+          dmUserIds.length > 0
+            ? sql`exists (select 1 from ${directMessageParticipants} where ${directMessageParticipants.directMessageId} = ${directMessages.id} and ${inArray(directMessageParticipants.userId, dmUserIds)} and ${directMessageParticipants.userId} <> ${user.id})`
+            : sql`false`;
+      }
+
+      const inCondition =
+        filters.inChannels.length > 0 || inDirectMessagesCondition
+          ? or(
+              filters.inChannels.length > 0
+                ? inArray(sql`lower(${channels.name})`, filters.inChannels)
+                : undefined,
+              inDirectMessagesCondition,
+            )
+          : undefined;
+
+      const results = await db
+        .select({
+          message: {
+            id: messages.id,
+            content: messages.content,
+            channelId: messages.channelId,
+            directMessageId: messages.directMessageId,
+            parentId: messages.parentId,
+            attachments: messages.attachments,
+            createdAt: messages.createdAt,
+          },
+          user: {
+            id: users.id,
+            username: users.username,
+            avatar: users.avatar,
+          },
+          channelName: channels.name,
+        })
+        .from(messages)
+        .leftJoin(users, eq(messages.userId, users.id))
+        .leftJoin(channels, eq(messages.channelId, channels.id))
+        .leftJoin(
+          directMessages,
+          eq(messages.directMessageId, directMessages.id),
+        )
+        .where(
+          and(
+            isNull(messages.deletedAt),
+            canSee,
+            filters.text ? sql`${searchVector} @@ ${searchQuery}` : undefined,
+            filters.from.length > 0
+              ? inArray(sql`lower(${users.username})`, filters.from)
+              : undefined,
+            inCondition,
+            filters.hasFile
+              ? sql`jsonb_array_length(coalesce(${messages.attachments}, '[]'::jsonb)) > 0`
+              : undefined,
+            filters.before
+              ? sql`${messages.createdAt} < ${filters.before.toISOString()}`
+              : undefined,
+            filters.after
+              ? sql`${messages.createdAt} >= ${filters.after.toISOString()}`
+              : undefined,
+          ),
+        )
+        .orderBy(
+          ...(filters.text
+            ? [desc(sql`ts_rank(${searchVector}, ${searchQuery})`)]
+            : []),
+          desc(messages.createdAt),
+        )
+        .limit(SEARCH_RESULT_LIMIT);
+
+      res.json(
+        results.map(({ message, user: author, channelName }) => ({
+          message,
+          user: author,
+          channel:
+            message.channelId && channelName
+              ? { id: message.channelId, name: channelName }
+              : null,
+          directMessage: message.directMessageId
+            ? { id: message.directMessageId }
+            : null,
+        })),
+      );
+    } catch (error) {
+      console.error("Error searching messages:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/workspaces/:workspaceId/channels", async (req, res) => {
+    const user = req.user;
+    if (!user) return res.status(401).json({ error: "Not authenticated" });
+
+    const workspaceId = parseInt(req.params.workspaceId);
+    if (isNaN(workspaceId)) {
+      return res.status(400).json({ error: "Invalid workspace ID" });
+    }
+
+    const { isPrivate, memberIds } = req.body;
+
+    const parsedName = parseChannelName(req.body.name);
+    if (parsedName.error !== undefined) {
+      return res.status(400).json({ error: parsedName.error });
+    }
+    const { name } = parsedName;
+    if (
+      memberIds !== undefined &&
+      (!Array.isArray(memberIds) ||
+        !memberIds.every((id: unknown) => Number.isInteger(id)))
+    ) {
+      return res.status(400).json({ error: "memberIds must be user IDs" });
+    }
+
+    try {
+      // Check workspace membership
+      const member = await getWorkspaceMember(workspaceId, user.id);
+
+      if (!member) {
+        return res
+          .status(403)
+          .json({ error: "Not a member of this workspace" });
+      }
+      if (!can(member.role, "createChannels")) {
+        return res
+          .status(403)
+          .json({ error: "Not allowed to create channels in this workspace" });
+      }
+      if (await isChannelNameTaken(workspaceId, name)) {
+        return res
+          .status(409)
+          .json({ error: `A channel named #${name} already exists` });
+      }
+
+      // Public channels include the whole workspace apart from guests; private
+      // channels only the creator and the invited workspace members
+      const candidates = await db
+        .select({
+          userId: workspaceMembers.userId,
+          role: workspaceMembers.role,
+        })
+        .from(workspaceMembers)
+        .where(
+          and(
+            eq(workspaceMembers.workspaceId, workspaceId),
+            isNull(workspaceMembers.deactivatedAt),
+            isPrivate
+              ? inArray(workspaceMembers.userId, [
+                  user.id,
+                  ...((memberIds as number[] | undefined) ?? []),
+                ])
+              : undefined,
+          ),
+        );
+      const members = isPrivate
+        ? candidates
+        : candidates.filter(({ role }) => can(role, "accessPublicChannels"));
+
+      let channel: Channel;
+      try {
+        [channel] = await db
+          .insert(channels)
+          .values({
+            name,
+            workspaceId,
+            isPrivate: isPrivate || false,
+            joinByDefault: !isPrivate,
+            createdById: user.id,
+          })
+          .returning();
+      } catch (error) {
+        if (isUniqueViolation(error)) {
+          return res
+            .status(409)
+            .json({ error: `A channel named #${name} already exists` });
+        }
+        throw error;
+      }
+
+      if (members.length > 0) {
+        await db.insert(channelMembers).values(
+          members.map((member) => ({
+            channelId: channel.id,
+            userId: member.userId,
+          })),
+        );
+      }
+
+      for (const member of members) {
+        broadcaster.updateChannelSubscription(member.userId, channel.id, true);
+      }
+      broadcaster.broadcastToUsers(
+        members.map((member) => member.userId),
+        {
+          type: "channel_membership",
+          action: "added",
+          channelId: channel.id,
+          workspaceId,
+        },
+      );
+
+      res.json({ ...channel, isMember: true });
+    } catch (error) {
+      console.error("Error creating channel:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/channels/:channelId/members", async (req, res) => {
+    const user = req.user;
+    if (!user) return res.status(401).json({ error: "Not authenticated" });
+
+    const channelId = parseInt(req.params.channelId);
+    if (isNaN(channelId)) {
+      return res.status(400).json({ error: "Invalid channel ID" });
+    }
+
+    try {
+      const access = await getChannelAccess(channelId, user.id);
+      if (!access) {
+        return res.status(404).json({ error: "Channel not found" });
+      }
+      if (!access.canRead) {
+        return res
+          .status(403)
+          .json({ error: "Not a member of this channel" });
+      }
+
+      const members = await db
+        .select({
+          id: users.id,
+          username: users.username,
+          avatar: users.avatar,
+          status: users.status,
+          joinedAt: channelMembers.joinedAt,
+        })
+        .from(channelMembers)
+        .innerJoin(users, eq(channelMembers.userId, users.id))
+        .where(eq(channelMembers.channelId, channelId))
+        .orderBy(asc(users.username));
+
+      res.json(members);
+    } catch (error) {
+      console.error("Error fetching channel members:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Invite a workspace member to the channel. Any channel member whose role
+  // allows it may invite.
+  app.post("/api/channels/:channelId/members", async (req, res) => {
+    const user = req.user;
+    if (!user) return res.status(401).json({ error: "Not authenticated" });
+
+    const channelId = parseInt(req.params.channelId);
+    const { userId } = req.body;
+    if (isNaN(channelId) || !Number.isInteger(userId)) {
+      return res.status(400).json({ error: "Invalid channel or user ID" });
+    }
+
+    try {
+      const access = await getChannelAccess(channelId, user.id);
+      if (!access) {
+        return res.status(404).json({ error: "Channel not found" });
+      }
+      if (!access.channelMember) {
+        return res
+          .status(403)
+          .json({ error: "Not a member of this channel" });
+      }
+      if (!can(access.workspaceMember?.role, "addChannelMembers")) {
+        return res
+          .status(403)
+          .json({ error: "Not allowed to add members to channels" });
+      }
+      if (access.channel.archivedAt) {
+        return res.status(403).json({ error: "This channel is archived" });
+      }
+
+      const invitee = await getWorkspaceMember(access.channel.workspaceId, userId);
+
+      if (!invitee) {
+        return res
+          .status(400)
+          .json({ error: "User is not a member of this workspace" });
+      }
+
+      const added = await setChannelMembership(access.channel, userId, true);
+      if (!added) {
+        return res
+          .status(409)
+          .json({ error: "User is already a member of this channel" });
+      }
+
+      res.json({ channelId, userId });
+    } catch (error) {
+      console.error("Error adding channel member:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Remove a member. The channel creator and workspace roles that manage
+  // channels may remove anyone; everyone else can only remove themselves.
+  app.delete("/api/channels/:channelId/members/:userId", async (req, res) => {
+    const user = req.user;
+    if (!user) return res.status(401).json({ error: "Not authenticated" });
+
+    const channelId = parseInt(req.params.channelId);
+    const userId = parseInt(req.params.userId);
+    if (isNaN(channelId) || isNaN(userId)) {
+      return res.status(400).json({ error: "Invalid channel or user ID" });
+    }
+
+    try {
+      const access = await getChannelAccess(channelId, user.id);
+      if (!access) {
+        return res.status(404).json({ error: "Channel not found" });
+      }
+
+      const canManage = canManageChannel(access.channel, access.workspaceMember);
+      if (userId !== user.id && !(canManage && access.canRead)) {
+        return res
+          .status(403)
+          .json({ error: "Not allowed to remove members from this channel" });
+      }
+
+      const removed = await setChannelMembership(access.channel, userId, false);
+      if (!removed) {
+        return res
+          .status(404)
+          .json({ error: "User is not a member of this channel" });
+      }
+
+      res.json({ channelId, userId });
+    } catch (error) {
+      console.error("Error removing channel member:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Update a channel's name, topic or description. Any member can set the
+  // topic; renaming and the description are for those who manage the
+  // channel. Each change is announced with a system message.
+  app.patch("/api/channels/:channelId", async (req, res) => {
+    const user = req.user;
+    if (!user) return res.status(401).json({ error: "Not authenticated" });
+
+    const channelId = parseInt(req.params.channelId);
+    if (isNaN(channelId)) {
+      return res.status(400).json({ error: "Invalid channel ID" });
+    }
+
+    const { topic, description } = req.body;
+    if (
+      req.body.name === undefined &&
+      topic === undefined &&
+      description === undefined
+    ) {
+      return res
+        .status(400)
+        .json({ error: "name, topic or description is required" });
+    }
+    if (
+      topic !== undefined &&
+      topic !== null &&
+      (typeof topic !== "string" || topic.length > MAX_CHANNEL_TOPIC_LENGTH)
+    ) {
+      return res.status(400).json({
+        error: `Topics can be at most ${MAX_CHANNEL_TOPIC_LENGTH} characters`,
+      });
+    }
+    if (
+      description !== undefined &&
+      description !== null &&
+      (typeof description !== "string" ||
+        description.length > MAX_CHANNEL_DESCRIPTION_LENGTH)
+    ) {
+      return res.status(400).json({
+        error: `Descriptions can be at most ${MAX_CHANNEL_DESCRIPTION_LENGTH} characters`,
+      });
+    }
+
+    let name: string | undefined;
+    if (req.body.name !== undefined) {
+      const parsedName = parseChannelName(req.body.name);
+      if (parsedName.error !== undefined) {
+        return res.status(400).json({ error: parsedName.error });
+      }
+      name = parsedName.name;
+    }
+
+    try {
+      const access = await getChannelAccess(channelId, user.id);
+      if (!access || !access.canRead) {
+        return res.status(404).json({ error: "Channel not found" });
+      }
+      if (!access.channelMember) {
+        return res
+          .status(403)
+          .json({ error: "Not a member of this channel" });
+      }
+
+      const { channel } = access;
+      if (channel.archivedAt) {
+        return res.status(403).json({ error: "This channel is archived" });
+      }
+      if (
+        (name !== undefined || description !== undefined) &&
+        !canManageChannel(channel, access.workspaceMember)
+      ) {
+        return res
+          .status(403)
+          .json({ error: "Not allowed to change this channel's settings" });
+      }
+
+      // Blank topics and descriptions clear the field
+      const changes = {
+        name: name !== channel.name ? name : undefined,
+        topic:
+          topic !== undefined && (topic?.trim() || null) !== channel.topic
+            ? topic?.trim() || null
+            : undefined,
+        description:
+          description !== undefined &&
+          (description?.trim() || null) !== channel.description
+            ? description?.trim() || null
+            : undefined,
+      };
+
+      if (
+        changes.name === undefined &&
+        changes.topic === undefined &&
+        changes.description === undefined
+      ) {
+        return res.json(channel);
+      }
+      if (
+        changes.name &&
+        (await isChannelNameTaken(channel.workspaceId, changes.name, channel.id))
+      ) {
+        return res
+          .status(409)
+          .json({ error: `A channel named #${changes.name} already exists` });
+      }
+
+      let updated: Channel;
+      try {
+        [updated] = await db
+          .update(channels)
+          .set(changes)
+          .where(eq(channels.id, channelId))
+          .returning();
+      } catch (error) {
+        if (isUniqueViolation(error)) {
+          return res
+            .status(409)
+            .json({ error: `A channel named #${changes.name} already exists` });
+        }
+        throw error;
+      }
+
+      if (changes.name !== undefined) {
+        await postSystemMessage(
+          channelId,
+          user.id,
+          `renamed the channel from #${channel.name} to #${updated.name}`,
+        );
+      }
+      if (changes.topic !== undefined) {
+        await postSystemMessage(
+          channelId,
+          user.id,
+          updated.topic
+            ? `set the channel topic: ${updated.topic}`
+            : "cleared the channel topic",
+        );
+      }
+      if (changes.description !== undefined) {
+        await postSystemMessage(
+          channelId,
+          user.id,
+          updated.description
+            ? "updated the channel description"
+            : "cleared the channel description",
+        );
+      }
+
+      await publishChannelUpdate(updated);
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating channel:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Archiving makes a channel read-only and hides it from the channel list.
+  // Its history stays readable and searchable, and it can be unarchived.
+  for (const action of ["archive", "unarchive"] as const) {
+    app.post(`/api/channels/:channelId/${action}`, async (req, res) => {
+      const user = req.user;
+      if (!user) return res.status(401).json({ error: "Not authenticated" });
+
+      const channelId = parseInt(req.params.channelId);
+      if (isNaN(channelId)) {
+        return res.status(400).json({ error: "Invalid channel ID" });
+      }
+
+      try {
+        const access = await getChannelAccess(channelId, user.id);
+        if (!access || !access.canRead) {
+          return res.status(404).json({ error: "Channel not found" });
+        }
+        if (!canManageChannel(access.channel, access.workspaceMember)) {
+          return res
+            .status(403)
+            .json({ error: `Not allowed to ${action} this channel` });
+        }
+
+        const archive = action === "archive";
+        if (!!access.channel.archivedAt === archive) {
+          return res.status(400).json({
+            error: archive
+              ? "This channel is already archived"
+              : "This channel isn't archived",
+          });
+        }
+
+        // Unarchive first so the announcement lands in a writable channel,
+        // and archive last for the same reason
+        const setArchived = async () => {
+          const [updated] = await db
+            .update(channels)
+            .set({ archivedAt: archive ? new Date() : null })
+            .where(eq(channels.id, channelId))
+            .returning();
+          return updated;
+        };
+
+        let updated: Channel;
+        if (archive) {
+          await postSystemMessage(channelId, user.id, "archived the channel");
+          updated = await setArchived();
+        } else {
+          updated = await setArchived();
+          await postSystemMessage(channelId, user.id, "unarchived the channel");
+        }
+
+        await publishChannelUpdate(updated);
+
+        res.json(updated);
+      } catch (error) {
+        console.error(`Error trying to ${action} channel:`, error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    });
+  }
+
+  // Public channels are open to every workspace member except guests
+  app.post("/api/channels/:channelId/join", async (req, res) => {
+    const user = req.user;
+    if (!user) return res.status(401).json({ error: "Not authenticated" });
+
+    const channelId = parseInt(req.params.channelId);
+    if (isNaN(channelId)) {
+      return res.status(400).json({ error: "Invalid channel ID" });
+    }
+
+    try {
+      const access = await getChannelAccess(channelId, user.id);
+      if (!access) {
+        return res.status(404).json({ error: "Channel not found" });
+      }
+      if (!access.workspaceMember) {
+        return res
+          .status(403)
+          .json({ error: "Not a member of this workspace" });
+      }
+      if (access.channel.isPrivate && !access.channelMember) {
+        return res
+          .status(403)
+          .json({ error: "Private channels require an invite" });
+      }
+      if (!access.canRead) {
+        return res
+          .status(403)
+          .json({ error: "Guests can only join channels they are invited to" });
+      }
+      if (access.channel.archivedAt) {
+        return res.status(403).json({ error: "This channel is archived" });
+      }
+
+      await setChannelMembership(access.channel, user.id, true);
+
+      res.json({ ...access.channel, isMember: true });
+    } catch (error) {
+      console.error("Error joining channel:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/channels/:channelId/leave", async (req, res) => {
+    const user = req.user;
+    if (!user) return res.status(401).json({ error: "Not authenticated" });
+
+    const channelId = parseInt(req.params.channelId);
+    if (isNaN(channelId)) {
+      return res.status(400).json({ error: "Invalid channel ID" });
+    }
+
+    try {
+      const access = await getChannelAccess(channelId, user.id);
+      if (!access) {
+        return res.status(404).json({ error: "Channel not found" });
+      }
+      if (!access.channelMember) {
+        return res
+          .status(400)
+          .json({ error: "Not a member of this channel" });
+      }
+
+      await setChannelMembership(access.channel, user.id, false);
+
+      res.json({ channelId });
+    } catch (error) {
+      console.error("Error leaving channel:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/channels/:channelId/read", async (req, res) => {
+    const user = req.user;
+    if (!user) return res.status(401).json({ error: "Not authenticated" });
+
+    const channelId = parseInt(req.params.channelId);
+    const { messageId } = req.body ?? {};
+    if (
+      isNaN(channelId) ||
+      (messageId !== undefined && !Number.isInteger(messageId))
+    ) {
+      return res.status(400).json({ error: "Invalid channel or message ID" });
+    }
+
+    try {
+      const access = await getChannelAccess(channelId, user.id);
+      if (!access) {
+        return res.status(404).json({ error: "Channel not found" });
+      }
+      if (!access.channelMember) {
+        return res
+          .status(403)
+          .json({ error: "Not a member of this channel" });
+      }
+
+      const counts = await markRead(user, "channelId", channelId, messageId);
+      if (!counts) {
+        return res
+          .status(400)
+          .json({ error: "Message not found in this channel" });
+      }
+
+      res.json(counts);
+    } catch (error) {
+      console.error("Error marking channel read:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/channels/:channelId/messages", async (req, res) => {
+    const user = req.user;
+    if (!user) return res.status(401).json({ error: "Not authenticated" });
+    const channelId = parseInt(req.params.channelId);
+    if (isNaN(channelId)) {
+      return res.status(400).json({ error: "Invalid channel ID" });
+    }
+
+    // Cursors are message ids: `before` pages back into older history,
+    // `after` catches up on newer messages
+    const before = req.query.before
+      ? parseInt(req.query.before as string)
+      : null;
+    const after = req.query.after ? parseInt(req.query.after as string) : null;
+    const limit = req.query.limit
+      ? parseInt(req.query.limit as string)
+      : DEFAULT_PAGE_SIZE;
+
+    if (
+      (before !== null && isNaN(before)) ||
+      (after !== null && isNaN(after)) ||
+      isNaN(limit) ||
+      limit < 1
+    ) {
+      return res.status(400).json({ error: "Invalid pagination parameters" });
+    }
+    if (before !== null && after !== null) {
+      return res
+        .status(400)
+        .json({ error: "Use either before or after, not both" });
+    }
+    const pageSize = Math.min(limit, MAX_PAGE_SIZE);
+
+    try {
+      const access = await getChannelAccess(channelId, user.id);
+      if (!access) {
+        return res.status(404).json({ error: "Channel not found" });
+      }
+      if (!access.workspaceMember) {
+        return res
+          .status(403)
+          .json({ error: "Not a member of this workspace" });
+      }
+      if (!access.canRead) {
+        return res
+          .status(403)
+          .json({ error: "Not a member of this channel" });
+      }
+
+      const cursorId = before ?? after;
+      if (cursorId !== null) {
+        const [cursor] = await db
+          .select({ id: messages.id })
+          .from(messages)
+          .where(
+            and(eq(messages.id, cursorId), eq(messages.channelId, channelId)),
+          )
+          .limit(1);
+
+        if (!cursor) {
+          return res.status(400).json({ error: "Invalid cursor" });
+        }
+      }
+
+      // Order by (createdAt, id) so messages sharing a timestamp page
+      // stably. The cursor row is compared in SQL to keep full precision.
+      const cursorRow = sql`(select c.created_at, c.id from ${messages} c where c.id = ${cursorId})`;
+      let cursorCondition;
+      if (after !== null) {
+        cursorCondition = sql`(${messages.createdAt}, ${messages.id}) > ${cursorRow}`;
+      } else if (before !== null) {
+        cursorCondition = sql`(${messages.createdAt}, ${messages.id}) < ${cursorRow}`;
+      }
+
+      // Get only root messages (not thread replies) with their authors, one
+      // extra to detect whether another page exists
+      const pageRows = await db
+        .select({ message: messages, user: users })
+        .from(messages)
+        .leftJoin(users, eq(messages.userId, users.id))
+        .where(
+          and(
+            eq(messages.channelId, channelId),
+            isNull(messages.parentId),
+            isVisibleMessage,
+            cursorCondition,
+          ),
+        )
+        .orderBy(
+          ...(after !== null
+            ? [asc(messages.createdAt), asc(messages.id)]
+            : [desc(messages.createdAt), desc(messages.id)]),
+        )
+        .limit(pageSize + 1);
+
+      const hasMore = pageRows.length > pageSize;
+      const pageMessages = pageRows.slice(0, pageSize);
+      const nextCursor = hasMore
+        ? pageMessages[pageMessages.length - 1].message.id
+        : null;
+
+      // Pages are always returned oldest first
+      const channelMessages =
+        after !== null ? pageMessages : pageMessages.reverse();
+
+      const messageIds = channelMessages.map((row) => row.message.id);
+      const [replyCounts, reactionSummaries] = await Promise.all([
+        getReplyCounts(messageIds),
+        getReactionSummaries(messageIds),
+      ]);
+
+      const messagesWithDetails = channelMessages.map(({ message, user }) => ({
+        ...message,
+        replyCount: replyCounts.get(message.id) ?? 0,
+        reactions: reactionSummaries.get(message.id) ?? [],
+        user,
+      }));
+
+      res.json({ messages: messagesWithDetails, nextCursor });
+    } catch (error) {
+      console.error("Error fetching messages:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/messages", async (req, res) => {
+    const user = req.user;
+    if (!user) return res.status(401).json({ error: "Not authenticated" });
+
+    const {
+      content = "",
+      channelId,
+      parentId,
+      directMessageId,
+      attachmentIds,
+    } = req.body;
+
+    if (typeof content !== "string") {
+      return res.status(400).json({ error: "Message content must be text" });
+    }
+
+    // A message belongs to exactly one conversation, and only that one's
+    // access check runs
+    if (channelId == null && directMessageId == null) {
+      return res
+        .status(400)
+        .json({ error: "Either channelId or directMessageId is required" });
+    }
+    if (channelId != null && directMessageId != null) {
+      return res
+        .status(400)
+        .json({ error: "Send either channelId or directMessageId, not both" });
+    }
+    if (channelId != null && !Number.isInteger(channelId)) {
+      return res.status(400).json({ error: "Invalid channel ID" });
+    }
+    if (parentId != null && !Number.isInteger(parentId)) {
+      return res.status(400).json({ error: "Invalid thread parent" });
+    }
+
+    try {
+      let workspaceId: number;
+
+      if (channelId != null) {
+        // Only channel members may post; non-members must join first
+        const access = await getChannelAccess(channelId, user.id);
+        if (!access) {
+          return res.status(404).json({ error: "Channel not found" });
+        }
+        if (!access.workspaceMember) {
+          return res
+            .status(403)
+            .json({ error: "Not a member of this workspace" });
+        }
+        if (!access.channelMember) {
+          return res
+            .status(403)
+            .json({ error: "Not a member of this channel" });
+        }
+        if (access.channel.archivedAt) {
+          return res.status(403).json({ error: "This channel is archived" });
+        }
+        workspaceId = access.channel.workspaceId;
+      } else {
+        // Only participants may post. Conversations the user isn't part of
+        // look the same as missing ones.
+        const access = Number.isInteger(directMessageId)
+          ? await getDirectMessageAccess(directMessageId, user.id)
+          : null;
+
+        if (!access) {
+          return res
+            .status(404)
+            .json({ error: "Direct message conversation not found" });
+        }
+        workspaceId = access.conversation.workspaceId;
+      }
+
+      // Replies must stay in the conversation they reply to
+      if (parentId) {
+        const [parent] = await db
+          .select()
+          .from(messages)
+          .where(eq(messages.id, parentId))
+          .limit(1);
+
+        if (
+          !parent ||
+          parent.parentId !== null ||
+          parent.channelId !== (channelId || null) ||
+          parent.directMessageId !== (directMessageId || null)
+        ) {
+          return res.status(400).json({ error: "Invalid thread parent" });
+        }
+      }
+
+      const claim = await findClaimableAttachments(
+        user.id,
+        workspaceId,
+        attachmentIds,
+      );
+      if (!claim.success) {
+        return res.status(400).json({ error: claim.error });
+      }
+      if (!content.trim() && claim.files.length === 0) {
+        return res
+          .status(400)
+          .json({ error: "Message content or an attachment is required" });
+      }
+
+      // Create the message
+      const newMessage = await insertMessage(
+        {
+          content,
+          userId: user.id,
+          channelId: channelId || null,
+          directMessageId: directMessageId || null,
+          parentId: parentId || null,
+        },
+        claim.files,
+      );
+      if (!newMessage) {
+        return res
+          .status(409)
+          .json({ error: "An attachment was already sent with another message" });
+      }
+
+      // Fetch the created message with user details
+      const [messageWithUser] = await db
+        .select({
+          id: messages.id,
+          content: messages.content,
+          userId: messages.userId,
+          channelId: messages.channelId,
+          directMessageId: messages.directMessageId,
+          parentId: messages.parentId,
+          type: messages.type,
+          attachments: messages.attachments,
+          createdAt: messages.createdAt,
+          updatedAt: messages.updatedAt,
+          deletedAt: messages.deletedAt,
+          user: users,
+        })
+        .from(messages)
+        .where(eq(messages.id, newMessage.id))
+        .leftJoin(users, eq(messages.userId, users.id))
+        .limit(1);
+
+      await publishMessage(messageWithUser, workspaceId);
+
+      res.json(messageWithUser);
+    } catch (error) {
+      console.error("Error creating message:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/messages/:messageId/thread", async (req, res) => {
+    const user = req.user;
+    if (!user) return res.status(401).json({ error: "Not authenticated" });
+
+    const messageId = parseInt(req.params.messageId);
+    if (isNaN(messageId)) {
+      return res.status(400).json({ error: "Invalid message ID" });
+    }
+
+    try {
+      // Checks workspace membership, DM participation and private channels
+      const access = await getMessageForUser(messageId, user.id);
+      if (!access) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+
+      const [parentUser] = access.message.userId
+        ? await db
+            .select()
+            .from(users)
+            .where(eq(users.id, access.message.userId))
+            .limit(1)
+        : [];
+
+      // Get the thread messages with user data
+      const threadMessages = await db
+        .select({
+          message: messages,
+          user: users,
+        })
+        .from(messages)
+        .leftJoin(users, eq(messages.userId, users.id))
+        .where(
+          and(eq(messages.parentId, messageId), isNull(messages.deletedAt)),
+        )
+        .orderBy(asc(messages.createdAt));
+
+      // Flatten the data structure
+      const allMessages = [
+        {
+          ...access.message,
+          user: parentUser ?? null,
+        },
+        ...threadMessages.map(({ message, user }) => ({
+          ...message,
+          user,
+        })),
+      ];
+
+      res.json(allMessages);
+    } catch (error) {
+      console.error("Error fetching thread:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/messages/:messageId", async (req, res) => {
+    const user = req.user;
+    if (!user) return res.status(401).json({ error: "Not authenticated" });
+
+    const messageId = parseInt(req.params.messageId);
+    if (isNaN(messageId)) {
+      return res.status(400).json({ error: "Invalid message ID" });
+    }
+
+    const { content } = req.body;
+    if (typeof content !== "string" || !content.trim()) {
+      return res.status(400).json({ error: "Message content is required" });
+    }
+
+    try {
+      const context = await getMessageForUser(messageId, user.id);
+      if (!context || context.message.deletedAt) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+
+      if (context.message.type === "system") {
+        return res
+          .status(400)
+          .json({ error: "System messages can't be edited" });
+      }
+      if (context.message.userId !== user.id) {
+        return res
+          .status(403)
+          .json({ error: "Only the author can edit this message" });
       }
+      if (context.channel?.archivedAt) {
+        return res.status(403).json({ error: "This channel is archived" });
+      }
+
+      const [updated] = await db
+        .update(messages)
+        .set({ content, updatedAt: new Date() })
+        .where(eq(messages.id, messageId))
+        .returning();
+
+      const [author] = await db
+        .select()
+        .from(users)
+        .where(eq(users.id, user.id))
+        .limit(1);
+
+      const messageWithUser = { ...updated, user: author ?? null };
+
+      await publishToMessageAudience(updated, {
+        type: "message_updated",
+        channelId: updated.channelId,
+        directMessageId: updated.directMessageId,
+        parentId: updated.parentId,
+        message: messageWithUser,
+      });
+
+      await syncMentions(messageWithUser);
+
+      res.json(messageWithUser);
+    } catch (error) {
+      console.error("Error updating message:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/messages/:messageId", async (req, res) => {
+    const user = req.user;
+    if (!user) return res.status(401).json({ error: "Not authenticated" });
+
+    const messageId = parseInt(req.params.messageId);
+    if (isNaN(messageId)) {
+      return res.status(400).json({ error: "Invalid message ID" });
+    }
 
-      // Check workspace membership using proper typing
-      const [member] = await db
-        .select()
-        .from(workspaceMembers)
-        .where(
-          and(
-            eq(workspaceMembers.workspaceId, workspaceId),
-            eq(workspaceMembers.userId, user.id),
-          ),
-        )
-        .limit(1);
+    try {
+      const context = await getMessageForUser(messageId, user.id);
+      if (!context || context.message.deletedAt) {
+        return res.status(404).json({ error: "Message not found" });
+      }
 
-      if (!member) {
+      // Authors can delete their own messages; owners and admins can
+      // delete anyone's
+      const isAuthor = context.message.userId === user.id;
+      if (!isAuthor && !can(context.membership.role, "deleteAnyMessage")) {
         return res
           .status(403)
-          .json({ error: "Not a member of this workspace" });
+          .json({ error: "Not allowed to delete this message" });
+      }
+      if (context.channel?.archivedAt) {
+        return res.status(403).json({ error: "This channel is archived" });
       }
 
-      // Get all workspace users with proper typing
-      const workspaceUsers = await db
-        .select({
-          id: users.id,
-          username: users.username,
-        })
-        .from(workspaceMembers)
-        .where(eq(workspaceMembers.workspaceId, workspaceId))
-        .innerJoin(users, eq(workspaceMembers.userId, users.id));
+      // Soft delete: keep the row as a tombstone so replies keep their parent
+      const [tombstone] = await db
+        .update(messages)
+        .set({ content: "", attachments: null, deletedAt: new Date() })
+        .where(eq(messages.id, messageId))
+        .returning();
+
+      const replyCount = tombstone.parentId
+        ? await countReplies(tombstone.parentId)
+        : undefined;
+
+      const result = {
+        message: tombstone,
+        channelId: tombstone.channelId,
+        directMessageId: tombstone.directMessageId,
+        parentId: tombstone.parentId,
+        replyCount,
+      };
 
-      res.json(workspaceUsers);
+      await publishToMessageAudience(tombstone, {
+        type: "message_deleted",
+        ...result,
+      });
+
+      res.json(result);
     } catch (error) {
-      console.error("Error fetching workspace users:", error);
+      console.error("Error deleting message:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.post("/api/workspaces/:workspaceId/channels", async (req, res) => {
+  // Toggle the current user's reaction: adds it, or removes it if present
+  app.post("/api/messages/:messageId/reactions", async (req, res) => {
     const user = req.user;
     if (!user) return res.status(401).json({ error: "Not authenticated" });
 
-    const workspaceId = parseInt(req.params.workspaceId);
-    if (isNaN(workspaceId)) {
-      return res.status(400).json({ error: "Invalid workspace ID" });
+    const messageId = parseInt(req.params.messageId);
+    if (isNaN(messageId)) {
+      return res.status(400).json({ error: "Invalid message ID" });
     }
 
-    const { name, isPrivate } = req.body;
-
-    // Check workspace membership
-    const [member] = await db
-      .select()
-      .from(workspaceMembers)
-      .where(
-        and(
-          eq(workspaceMembers.workspaceId, workspaceId),
-          eq(workspaceMembers.userId, user.id),
-        ),
-      )
-      .limit(1);
-
-    if (!member) {
-      return res.status(403).json({ error: "Not a member of this workspace" });
+    const emoji =
+      typeof req.body.emoji === "string" ? req.body.emoji.trim() : "";
+    if (!emoji || emoji.length > 32) {
+      return res.status(400).json({ error: "A valid emoji is required" });
     }
 
-    const [channel] = await db
-      .insert(channels)
-      .values({
-        name,
-        workspaceId,
-        isPrivate: isPrivate || false,
-        joinByDefault: true,
-        createdById: user.id,
-      })
-      .returning();
+    try {
+      const context = await getMessageForUser(messageId, user.id);
+      if (!context || context.message.deletedAt) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+      if (context.channel?.archivedAt) {
+        return res.status(403).json({ error: "This channel is archived" });
+      }
 
-    // Get all workspace members
-    const members = await db
-      .select()
-      .from(workspaceMembers)
-      .where(eq(workspaceMembers.workspaceId, workspaceId));
+      const removed = await db
+        .delete(reactions)
+        .where(
+          and(
+            eq(reactions.messageId, messageId),
+            eq(reactions.userId, user.id),
+            eq(reactions.emoji, emoji),
+          ),
+        )
+        .returning();
 
-    // Add all workspace members to the channel
-    if (members.length > 0) {
-      await db.insert(channelMembers).values(
-        members.map((member) => ({
-          channelId: channel.id,
-          userId: member.userId,
-        })),
+      if (removed.length === 0) {
+        await db
+          .insert(reactions)
+          .values({ messageId, userId: user.id, emoji })
+          .onConflictDoNothing();
+      }
+
+      const result = await publishReactionChange(
+        context.message,
+        removed.length === 0 ? "reaction_added" : "reaction_removed",
+        emoji,
+        user.id,
       );
-    }
 
-    res.json(channel);
+      // Reactions from others show up in the author's activity feed
+      const authorId = context.message.userId;
+      if (removed.length === 0 && authorId && authorId !== user.id) {
+        broadcaster.broadcastToUsers([authorId], {
+          type: "activity",
+          kind: "reaction",
+          messageId,
+        });
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error("Error toggling reaction:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
   });
 
-  app.get("/api/channels/:channelId/messages", async (req, res) => {
+  app.delete("/api/messages/:messageId/reactions/:emoji", async (req, res) => {
     const user = req.user;
     if (!user) return res.status(401).json({ error: "Not authenticated" });
-    const channelId = parseInt(req.params.channelId);
-    if (isNaN(channelId)) {
-      return res.status(400).json({ error: "Invalid channel ID" });
+
+    const messageId = parseInt(req.params.messageId);
+    if (isNaN(messageId)) {
+      return res.status(400).json({ error: "Invalid message ID" });
     }
 
-    try {
-      // Get channel and verify workspace membership
-      const [channel] = await db
-        .select({
-          id: channels.id,
-          name: channels.name,
-          workspaceId: channels.workspaceId,
-          workspace: workspaces,
-        })
-        .from(channels)
-        .leftJoin(workspaces, eq(channels.workspaceId, workspaces.id))
-        .where(eq(channels.id, channelId))
-        .limit(1);
+    const { emoji } = req.params;
 
-      if (!channel || !channel.workspace) {
-        return res.status(404).json({ error: "Channel not found" });
+    try {
+      const context = await getMessageForUser(messageId, user.id);
+      if (!context || context.message.deletedAt) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+      if (context.channel?.archivedAt) {
+        return res.status(403).json({ error: "This channel is archived" });
       }
 
-      // Verify workspace membership
-      const [workspaceMember] = await db
-        .select()
-        .from(workspaceMembers)
+      const removed = await db
+        .delete(reactions)
         .where(
           and(
-            eq(workspaceMembers.workspaceId, channel.workspaceId),
-            eq(workspaceMembers.userId, user.id),
+            eq(reactions.messageId, messageId),
+            eq(reactions.userId, user.id),
+            eq(reactions.emoji, emoji),
           ),
         )
-        .limit(1);
+        .returning();
 
-      if (!workspaceMember) {
-        return res
-          .status(403)
-          .json({ error: "Not a member of this workspace" });
+      if (removed.length === 0) {
+        return res.status(404).json({ error: "Reaction not found" });
       }
 
-      // Get only root messages (not thread replies)
-      const channelMessages = await db
-        .select()
-        .from(messages)
-        .where(
-          and(eq(messages.channelId, channelId), isNull(messages.parentId)),
-        )
-        .orderBy(desc(messages.createdAt))
-        .limit(50);
-
-      const messagesWithDetails = await Promise.all(
-        channelMessages.map(async (message) => {
-          // Get reply count for this message
-          const [{ count }] = await db
-            .select({ count: sql`count(*)::int` })
-            .from(messages)
-            .where(eq(messages.parentId, message.id));
-
-          const messageReactions = await db
-            .select({
-              reaction: reactions,
-              user: users,
-            })
-            .from(reactions)
-            .leftJoin(users, eq(reactions.userId, users.id))
-            .where(eq(reactions.messageId, message.id));
-
-          const [messageUser] = await db
-            .select()
-            .from(users)
-            .where(eq(users.id, message.userId!))
-            .limit(1);
-
-          return {
-            ...message,
-            replyCount: count,
-            reactions: messageReactions,
-            user: messageUser,
-          };
-        }),
+      const result = await publishReactionChange(
+        context.message,
+        "reaction_removed",
+        emoji,
+        user.id,
       );
 
-      res.json(messagesWithDetails);
+      res.json(result);
     } catch (error) {
-      console.error("Error fetching messages:", error);
+      console.error("Error removing reaction:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.post("/api/messages", async (req, res) => {
+  // Add file upload endpoint. The upload is kept private to the uploader
+  // until it is sent with a message.
+  app.post(
+    "/api/upload",
+    (req, res, next) => {
+      // Reject before multer reads the body
+      if (!req.user) return res.status(401).json({ error: "Not authenticated" });
+      next();
+    },
+    upload.single("file"),
+    async (req, res) => {
+      const user = req.user!;
+      const file = req.file;
+      if (!file) return res.status(400).json({ error: "No file uploaded" });
+
+      const workspaceId = parseInt(req.body.workspaceId);
+      if (isNaN(workspaceId)) {
+        return res.status(400).json({ error: "Invalid workspace ID" });
+      }
+
+      const storageKey = createStorageKey();
+      const mimeType = file.mimetype || "application/octet-stream";
+
+      try {
+        const member = await getWorkspaceMember(workspaceId, user.id);
+
+        if (!member) {
+          return res
+            .status(403)
+            .json({ error: "Not a member of this workspace" });
+        }
+
+        const image = await createThumbnail(file.buffer, mimeType);
+        const thumbnailKey = image ? `${storageKey}-thumbnail` : null;
+
+        await storage.put(storageKey, file.buffer, mimeType);
+        if (image && thumbnailKey) {
+          await storage.put(thumbnailKey, image.thumbnail, THUMBNAIL_CONTENT_TYPE);
+        }
+
+        const [stored] = await db
+          .insert(attachments)
+          .values({
+            storageKey,
+            uploaderId: user.id,
+            workspaceId,
+            name: file.originalname,
+            mimeType,
+            size: file.size,
+            sha256: crypto.createHash("sha256").update(file.buffer).digest("hex"),
+            width: image?.width ?? null,
+            height: image?.height ?? null,
+            thumbnailKey,
+          })
+          .returning()
+          .catch(async (error) => {
+            await Promise.all(
+              [storageKey, thumbnailKey].map(
+                (key) => key && storage.delete(key).catch(() => {}),
+              ),
+            );
+            throw error;
+          });
+
+        res.json(toAttachmentSummary(stored));
+      } catch (error) {
+        console.error("Error storing upload:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    },
+  );
+
+  // The local storage backend serves its own signed download links
+  if (storage.downloadRoute) {
+    app.get(storage.downloadRoute.path, storage.downloadRoute.handler);
+  }
+
+  // Download an attachment, or its thumbnail, by redirecting to a signed
+  // storage URL. The redirect itself must not be cached past the link's
+  // lifetime.
+  app.get("/api/attachments/:attachmentId", async (req, res) => {
     const user = req.user;
     if (!user) return res.status(401).json({ error: "Not authenticated" });
 
-    const { content, channelId, parentId, directMessageId } = req.body;
+    const attachmentId = parseInt(req.params.attachmentId);
+    if (isNaN(attachmentId)) {
+      return res.status(400).json({ error: "Invalid attachment ID" });
+    }
 
-    if (!content) {
-      return res.status(400).json({ error: "Message content is required" });
+    try {
+      const file = await getAttachmentForUser(attachmentId, user.id);
+      if (!file) {
+        return res.status(404).json({ error: "Attachment not found" });
+      }
+
+      const url = await storage.getDownloadUrl(file.storageKey, {
+        fileName: file.name,
+        contentType: file.mimeType,
+        inline: INLINE_MIME_TYPES.includes(file.mimeType),
+      });
+      res.setHeader("Cache-Control", "no-store");
+      res.redirect(url);
+    } catch (error) {
+      console.error("Error fetching attachment:", error);
+      res.status(500).json({ error: "Internal server error" });
     }
+  });
 
-    if (!channelId && !directMessageId) {
-      return res
-        .status(400)
-        .json({ error: "Either channelId or directMessageId is required" });
+  app.get("/api/attachments/:attachmentId/thumbnail", async (req, res) => {
+    const user = req.user;
+    if (!user) return res.status(401).json({ error: "Not authenticated" });
+
+    const attachmentId = parseInt(req.params.attachmentId);
+    if (isNaN(attachmentId)) {
+      return res.status(400).json({ error: "Invalid attachment ID" });
     }
 
     try {
-      let workspaceId: number;
+      const file = await getAttachmentForUser(attachmentId, user.id);
+      if (!file?.thumbnailKey) {
+        return res.status(404).json({ error: "Thumbnail not found" });
+      }
 
-      if (channelId) {
-        // Verify channel membership through workspace
-        const [channel] = await db
-          .select({
-            id: channels.id,
-            workspaceId: channels.workspaceId,
-          })
-          .from(channels)
-          .where(eq(channels.id, channelId))
-          .limit(1);
+      const url = await storage.getDownloadUrl(file.thumbnailKey, {
+        fileName: file.name.replace(/\.[^.]*$/, "") + ".webp",
+        contentType: THUMBNAIL_CONTENT_TYPE,
+        inline: true,
+      });
+      res.setHeader("Cache-Control", "no-store");
+      res.redirect(url);
+    } catch (error) {
+      console.error("Error fetching thumbnail:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
 
-        if (!channel) {
-          return res.status(404).json({ error: "Channel not found" });
-        }
+  // Add endpoint to update user's current workspace
+  app.post("/api/user/workspace", async (req, res) => {
+    if (!req.user) return res.status(401).json({ error: "Not authenticated" });
 
-        workspaceId = channel.workspaceId;
-      } else if (directMessageId) {
-        // Verify direct message membership through workspace
-        const [dm] = await db
-          .select({
-            id: directMessages.id,
-            workspaceId: directMessages.workspaceId,
-          })
-          .from(directMessages)
-          .where(eq(directMessages.id, directMessageId))
-          .limit(1);
+    const workspaceId = req.body.workspaceId;
+    if (!workspaceId) {
+      return res.status(400).json({ error: "Workspace ID is required" });
+    }
 
-        if (!dm) {
-          return res
-            .status(404)
-            .json({ error: "Direct message conversation not found" });
-        }
+    try {
+      // Verify workspace membership
+      const member = await getWorkspaceMember(workspaceId, req.user.id);
 
-        workspaceId = dm.workspaceId;
-      } else {
-        return res.status(400).json({ error: "Invalid request" });
+      if (!member) {
+        return res
+          .status(403)
+          .json({ error: "Not a member of this workspace" });
       }
 
-      // Verify workspace membership
-      const [workspaceMember] = await db
-        .select()
-        .from(workspaceMembers)
-        .where(
-          and(
-            eq(workspaceMembers.workspaceId, workspaceId),
-            eq(workspaceMembers.userId, user.id),
-          ),
-        )
-        .limit(1);
+      // Update the session with new workspace ID after null check
+      req.user.workspaceId = workspaceId;
+
+      return res.json({
+        message: "Workspace updated successfully",
+        user: {
+          id: req.user.id,
+          username: req.user.username,
+          workspaceId,
+        },
+      });
+    } catch (error) {
+      console.error("Error updating workspace:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // The user's DM conversations in a workspace, with the other participants
+  // and unread counts
+  app.get("/api/workspaces/:workspaceId/direct-messages", async (req, res) => {
+    const user = req.user;
+    if (!user) return res.status(401).json({ error: "Not authenticated" });
+
+    const workspaceId = parseInt(req.params.workspaceId);
+    if (isNaN(workspaceId)) {
+      return res.status(400).json({ error: "Invalid workspace ID" });
+    }
 
-      if (!workspaceMember) {
+    try {
+      // Removed or deactivated members keep their participant rows but lose
+      // access to the conversations
+      const member = await getWorkspaceMember(workspaceId, user.id);
+      if (!member) {
         return res
           .status(403)
           .json({ error: "Not a member of this workspace" });
       }
 
-      // Create the message
-      const [newMessage] = await db
-        .insert(messages)
-        .values({
-          content,
-          userId: user.id,
-          channelId: channelId || null,
-          directMessageId: directMessageId || null,
-          parentId: parentId || null,
-        })
-        .returning() as Message[];
-
-      // Fetch the created message with user details
-      const [messageWithUser] = await db
-        .select({
-          id: messages.id,
-          content: messages.content,
-          userId: messages.userId,
-          channelId: messages.channelId,
-          directMessageId: messages.directMessageId,
-          parentId: messages.parentId,
-          attachments: messages.attachments,
-          createdAt: messages.createdAt,
-          updatedAt: messages.updatedAt,
-          user: users,
-        })
-        .from(messages)
-        .where(eq(messages.id, newMessage.id))
-        .leftJoin(users, eq(messages.userId, users.id))
-        .limit(1);
+      const conversations = await db
+        .select({ id: directMessages.id })
+        .from(directMessages)
+        .innerJoin(
+          directMessageParticipants,
+          and(
+            eq(directMessageParticipants.directMessageId, directMessages.id),
+            eq(directMessageParticipants.userId, user.id),
+          ),
+        )
+        .where(eq(directMessages.workspaceId, workspaceId));
 
-      res.json(messageWithUser);
+      res.json(
+        await getConversationSummaries(
+          user,
+          conversations.map((conversation) => conversation.id),
+        ),
+      );
     } catch (error) {
-      console.error("Error creating message:", error);
+      console.error("Error fetching direct message conversations:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.get("/api/messages/:messageId/thread", async (req, res) => {
+  // The user's DM conversations, most recently active first, with a preview
+  // of the last message. Participants carry their presence in `status`.
+  app.get("/api/workspaces/:workspaceId/conversations", async (req, res) => {
     const user = req.user;
     if (!user) return res.status(401).json({ error: "Not authenticated" });
 
-    const messageId = parseInt(req.params.messageId);
-    if (isNaN(messageId)) {
-      return res.status(400).json({ error: "Invalid message ID" });
+    const workspaceId = parseInt(req.params.workspaceId);
+    if (isNaN(workspaceId)) {
+      return res.status(400).json({ error: "Invalid workspace ID" });
     }
 
     try {
-      // First get the parent message and try to find workspace through both channels and direct messages
-      const [parentMessageData] = await db
-        .select({
-          message: messages,
-          channel: channels,
-          directMessage: directMessages,
-          workspace: workspaces,
-          user: users,
-        })
-        .from(messages)
-        .leftJoin(channels, eq(messages.channelId, channels.id))
-        .leftJoin(
-          directMessages,
-          eq(messages.directMessageId, directMessages.id),
-        )
-        .leftJoin(
-          workspaces,
-          or(
-            eq(channels.workspaceId, workspaces.id),
-            eq(directMessages.workspaceId, workspaces.id),
-          ),
-        )
-        .leftJoin(users, eq(messages.userId, users.id))
-        .where(eq(messages.id, messageId))
-        .limit(1);
-
-      if (!parentMessageData || !parentMessageData.workspace) {
+      const member = await getWorkspaceMember(workspaceId, user.id);
+      if (!member) {
         return res
-          .status(404)
-          .json({ error: "Message or workspace not found" });
+          .status(403)
+          .json({ error: "Not a member of this workspace" });
       }
 
-      // Verify workspace membership
-      const [workspaceMember] = await db
-        .select()
-        .from(workspaceMembers)
-        .where(
+      const conversations = await db
+        .select({ id: directMessages.id, createdAt: directMessages.createdAt })
+        .from(directMessages)
+        .innerJoin(
+          directMessageParticipants,
           and(
-            eq(workspaceMembers.workspaceId, parentMessageData.workspace.id),
-            eq(workspaceMembers.userId, user.id),
+            eq(directMessageParticipants.directMessageId, directMessages.id),
+            eq(directMessageParticipants.userId, user.id),
           ),
         )
-        .limit(1);
-
-      if (!workspaceMember) {
-        return res
-          .status(403)
-          .json({ error: "Not a member of this workspace" });
-      }
-
-      // Get the thread messages with user data
-      const threadMessages = await db
-        .select({
-          message: messages,
-          user: users,
-        })
-        .from(messages)
-        .leftJoin(users, eq(messages.userId, users.id))
-        .where(eq(messages.parentId, messageId))
-        .orderBy(asc(messages.createdAt));
+        .where(eq(directMessages.workspaceId, workspaceId));
+
+      const ids = conversations.map((conversation) => conversation.id);
+      const [summaries, lastMessages] = await Promise.all([
+        getConversationSummaries(user, ids),
+        getLastMessages(ids),
+      ]);
+
+      // Conversations without messages count as active when opened
+      const openedAt = new Map(
+        conversations.map((conversation) => [
+          conversation.id,
+          conversation.createdAt,
+        ]),
+      );
+      const withActivity = summaries.map((summary) => {
+        const lastMessage = lastMessages.get(summary.id) ?? null;
+        return {
+          ...summary,
+          lastMessage,
+          lastActivityAt: lastMessage?.createdAt ?? openedAt.get(summary.id),
+        };
+      });
 
-      // Flatten the data structure
-      const allMessages = [
-        {
-          ...parentMessageData.message,
-          user: parentMessageData.user,
-        },
-        ...threadMessages.map(({ message, user }) => ({
-          ...message,
-          user,
-        })),
-      ];
+      withActivity.sort(
+        (a, b) =>
+          (b.lastActivityAt?.getTime() ?? 0) -
+            (a.lastActivityAt?.getTime() ?? 0) || b.id - a.id,
+      );
 
-      res.json(allMessages);
+      res.json(withActivity);
     } catch (error) {
-      console.error("Error fetching thread:", error);
+      console.error("Error fetching conversations:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Add file upload endpoint
-  app.post("/api/upload", upload.single("file"), async (req, res) => {
+  // Open the conversation between the current user and a set of other
+  // workspace members, reusing the existing one for the same people
+  app.post("/api/workspaces/:workspaceId/direct-messages", async (req, res) => {
     const user = req.user;
     if (!user) return res.status(401).json({ error: "Not authenticated" });
-    if (!req.file) return res.status(400).json({ error: "No file uploaded" });
 
-    const fileUrl = `/uploads/${req.file.filename}`;
-    res.json({ url: fileUrl, name: req.file.originalname });
-  });
+    const workspaceId = parseInt(req.params.workspaceId);
+    if (isNaN(workspaceId)) {
+      return res.status(400).json({ error: "Invalid workspace ID" });
+    }
 
-  // Add endpoint to update user's current workspace
-  app.post("/api/user/workspace", async (req, res) => {
-    if (!req.user) return res.status(401).json({ error: "Not authenticated" });
+    const { userIds } = req.body;
+    if (
+      !Array.isArray(userIds) ||
+      !userIds.every((id: unknown) => Number.isInteger(id))
+    ) {
+      return res.status(400).json({ error: "userIds must be user IDs" });
+    }
 
-    const workspaceId = req.body.workspaceId;
-    if (!workspaceId) {
-      return res.status(400).json({ error: "Workspace ID is required" });
+    const participantIds = Array.from(new Set([user.id, ...userIds]));
+    if (participantIds.length < 2) {
+      return res
+        .status(400)
+        .json({ error: "Pick at least one person to message" });
+    }
+    if (participantIds.length > MAX_DM_PARTICIPANTS) {
+      return res.status(400).json({
+        error: `Direct messages can include at most ${MAX_DM_PARTICIPANTS} people`,
+      });
     }
 
     try {
-      // Verify workspace membership
-      const [member] = await db
-        .select()
+      const members = await db
+        .select({ userId: workspaceMembers.userId })
         .from(workspaceMembers)
         .where(
           and(
-            eq(workspaceMembers.userId, req.user.id),
             eq(workspaceMembers.workspaceId, workspaceId),
+            inArray(workspaceMembers.userId, participantIds),
+            isNull(workspaceMembers.deactivatedAt),
           ),
-        )
-        .limit(1);
+        );
 
-      if (!member) {
+      if (!members.some((member) => member.userId === user.id)) {
         return res
           .status(403)
           .json({ error: "Not a member of this workspace" });
       }
+      if (members.length !== participantIds.length) {
+        return res
+          .status(400)
+          .json({ error: "Everyone must be a member of this workspace" });
+      }
 
-      // Update the session with new workspace ID after null check
-      req.user.workspaceId = workspaceId;
+      const conversation = await findOrCreateConversation(
+        workspaceId,
+        participantIds,
+      );
+      const [summary] = await getConversationSummaries(user, [
+        conversation.id,
+      ]);
 
-      return res.json({
-        message: "Workspace updated successfully",
-        user: {
-          id: req.user.id,
-          username: req.user.username,
-          workspaceId,
-        },
-      });
+      res.json(summary);
     } catch (error) {
-      console.error("Error updating workspace:", error);
+      console.error("Error opening direct message conversation:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Add new direct message endpoints
+  // A conversation's messages: its root messages, or one thread's replies
+  // with ?parentId
   app.get(
-    "/api/workspaces/:workspaceId/direct-messages/:userId",
+    "/api/direct-messages/:directMessageId/messages",
     async (req, res) => {
-      const user = req.user as User | undefined;
+      const user = req.user;
       if (!user) return res.status(401).json({ error: "Not authenticated" });
 
-      const workspaceId = parseInt(req.params.workspaceId);
-      const otherUserId = parseInt(req.params.userId);
-      const { parentId } = req.query;
-
-      if (isNaN(workspaceId) || isNaN(otherUserId)) {
-        return res.status(400).json({ error: "Invalid workspace or user ID" });
+      const directMessageId = parseInt(req.params.directMessageId);
+      const parentId = req.query.parentId
+        ? parseInt(req.query.parentId as string)
+        : null;
+      if (isNaN(directMessageId) || (parentId !== null && isNaN(parentId))) {
+        return res
+          .status(400)
+          .json({ error: "Invalid conversation or parent ID" });
       }
 
       try {
-        // Verify workspace membership for both users
-        const [currentUserMember, otherUserMember] = await Promise.all([
-          db
-            .select()
-            .from(workspaceMembers)
-            .where(
-              and(
-                eq(workspaceMembers.workspaceId, workspaceId),
-                eq(workspaceMembers.userId, user.id),
-              ),
-            )
-            .limit(1),
-          db
-            .select()
-            .from(workspaceMembers)
-            .where(
-              and(
-                eq(workspaceMembers.workspaceId, workspaceId),
-                eq(workspaceMembers.userId, otherUserId),
-              ),
-            )
-            .limit(1),
-        ]);
-
-        if (
-          !currentUserMember ||
-          !otherUserMember ||
-          !currentUserMember[0] ||
-          !otherUserMember[0]
-        ) {
+        const access = await getDirectMessageAccess(directMessageId, user.id);
+        if (!access) {
           return res
-            .status(403)
-            .json({
-              error: "One or both users are not members of this workspace",
-            });
+            .status(404)
+            .json({ error: "Direct message conversation not found" });
         }
 
-        // Get or create direct message conversation
-        let conversation = await db
-          .select()
-          .from(directMessages)
+        const conversationMessages = await db
+          .select({
+            message: messages,
+            user: users,
+          })
+          .from(messages)
           .where(
             and(
-              eq(directMessages.workspaceId, workspaceId),
-              or(
-                and(
-                  eq(directMessages.user1Id, user.id),
-                  eq(directMessages.user2Id, otherUserId),
-                ),
-                and(
-                  eq(directMessages.user1Id, otherUserId),
-                  eq(directMessages.user2Id, user.id),
-                ),
-              ),
+              eq(messages.directMessageId, directMessageId),
+              parentId !== null
+                ? eq(messages.parentId, parentId)
+                : isNull(messages.parentId),
+              isVisibleMessage,
             ),
           )
-          .limit(1)
-          .then((rows) => rows[0]);
-
-        if (!conversation) {
-          // Create new direct message conversation
-          const inserted = await db
-            .insert(directMessages)
-            .values({
-              workspaceId,
-              user1Id: user.id,
-              user2Id: otherUserId,
-            })
-            .returning();
-          conversation = inserted[0];
-        }
+          .leftJoin(users, eq(messages.userId, users.id))
+          .orderBy(asc(messages.createdAt));
 
-        // Get messages for this direct message conversation with reply counts
-        const messageResults = await Promise.all(
-          (await db
-            .select({
-              message: messages,
-              user: users,
-            })
-            .from(messages)
-            .where(
-              and(
-                eq(messages.directMessageId, conversation.id),
-                parentId
-                  ? eq(messages.parentId, parseInt(parentId as string))
-                  : isNull(messages.parentId),
-              ),
-            )
-            .leftJoin(users, eq(messages.userId, users.id))
-            .orderBy(asc(messages.createdAt)))
-            .map(async (result: { message: Message; user: User }) => {
-              // Get reply count for this message
-              const [{ count }] = await db
-                .select({ count: sql`count(*)::int` })
-                .from(messages)
-                .where(eq(messages.parentId, result.message.id));
-
-              return {
-                message: {
-                  ...result.message,
-                  replyCount: count,
-                },
-                user: result.user,
-              };
-            })
+        const replyCounts = await getReplyCounts(
+          conversationMessages.map((result) => result.message.id),
         );
 
-        res.json(messageResults);
+        res.json(
+          conversationMessages.map((result) => ({
+            message: {
+              ...result.message,
+              replyCount: replyCounts.get(result.message.id) ?? 0,
+            },
+            user: result.user,
+          })),
+        );
       } catch (error) {
         console.error("Error fetching direct messages:", error);
         res.status(500).json({ error: "Internal server error" });
@@ -778,126 +3565,138 @@ export function registerRoutes(app: Express): Server {
     },
   );
 
-  app.post(
-    "/api/workspaces/:workspaceId/direct-messages/:userId",
-    async (req, res) => {
-      const user = req.user as User | undefined;
-      if (!user) return res.status(401).json({ error: "Not authenticated" });
+  app.post("/api/direct-messages/:directMessageId/read", async (req, res) => {
+    const user = req.user;
+    if (!user) return res.status(401).json({ error: "Not authenticated" });
 
-      const workspaceId = parseInt(req.params.workspaceId);
-      const otherUserId = parseInt(req.params.userId);
-      const { content, parentId } = req.body;
+    const directMessageId = parseInt(req.params.directMessageId);
+    const { messageId } = req.body ?? {};
+    if (
+      isNaN(directMessageId) ||
+      (messageId !== undefined && !Number.isInteger(messageId))
+    ) {
+      return res
+        .status(400)
+        .json({ error: "Invalid conversation or message ID" });
+    }
+
+    try {
+      const access = await getDirectMessageAccess(directMessageId, user.id);
 
-      if (!content) {
-        return res.status(400).json({ error: "Message content is required" });
+      if (!access) {
+        return res
+          .status(404)
+          .json({ error: "Direct message conversation not found" });
       }
 
-      if (isNaN(workspaceId) || isNaN(otherUserId)) {
-        return res.status(400).json({ error: "Invalid workspace or user ID" });
+      const counts = await markRead(
+        user,
+        "directMessageId",
+        directMessageId,
+        messageId,
+      );
+      if (!counts) {
+        return res
+          .status(400)
+          .json({ error: "Message not found in this conversation" });
       }
 
-      try {
-        // Verify workspace membership for both users
-        const [currentUserMember, otherUserMember] = await Promise.all([
-          db
-            .select()
-            .from(workspaceMembers)
-            .where(
-              and(
-                eq(workspaceMembers.workspaceId, workspaceId),
-                eq(workspaceMembers.userId, user.id),
-              ),
-            )
-            .limit(1),
-          db
-            .select()
-            .from(workspaceMembers)
-            .where(
-              and(
-                eq(workspaceMembers.workspaceId, workspaceId),
-                eq(workspaceMembers.userId, otherUserId),
-              ),
-            )
-            .limit(1),
-        ]);
+      res.json(counts);
+    } catch (error) {
+      console.error("Error marking direct messages read:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
 
-        if (
-          !currentUserMember ||
-          !otherUserMember ||
-          !currentUserMember[0] ||
-          !otherUserMember[0]
-        ) {
-          return res
-            .status(403)
-            .json({
-              error: "One or both users are not members of this workspace",
-            });
-        }
+  // The user's activity feed: mentions, replies in their threads and
+  // reactions to their messages, newest first. `before` is the nextCursor
+  // of the previous page.
+  app.get("/api/workspaces/:workspaceId/activity", async (req, res) => {
+    const user = req.user;
+    if (!user) return res.status(401).json({ error: "Not authenticated" });
 
-        // Get or create direct message conversation
-        let conversation = await db
-          .select()
-          .from(directMessages)
-          .where(
-            and(
-              eq(directMessages.workspaceId, workspaceId),
-              or(
-                and(
-                  eq(directMessages.user1Id, user.id),
-                  eq(directMessages.user2Id, otherUserId),
-                ),
-                and(
-                  eq(directMessages.user1Id, otherUserId),
-                  eq(directMessages.user2Id, user.id),
-                ),
-              ),
-            ),
-          )
-          .limit(1)
-          .then((rows) => rows[0]);
-
-        if (!conversation) {
-          // Create new direct message conversation
-          const inserted = await db
-            .insert(directMessages)
-            .values({
-              workspaceId,
-              user1Id: user.id,
-              user2Id: otherUserId,
-            })
-            .returning();
-          conversation = inserted[0];
-        }
+    const workspaceId = parseInt(req.params.workspaceId);
+    if (isNaN(workspaceId)) {
+      return res.status(400).json({ error: "Invalid workspace ID" });
+    }
 
-        // Create the message
-        const [newMessage] = await db
-          .insert(messages)
-          .values({
-            content,
-            userId: user.id,
-            directMessageId: conversation.id,
-            parentId: parentId ? parseInt(parentId) : null,
-          })
-          .returning();
+    const before = req.query.before
+      ? parseActivityCursor(req.query.before as string)
+      : null;
+    const limit = req.query.limit
+      ? parseInt(req.query.limit as string)
+      : DEFAULT_ACTIVITY_PAGE_SIZE;
 
-        // Fetch the created message with user details
-        const [messageWithUser] = await db
-          .select({
-            message: messages,
-            user: users,
-          })
-          .from(messages)
-          .where(eq(messages.id, newMessage.id))
-          .leftJoin(users, eq(messages.userId, users.id))
-          .limit(1);
+    if ((req.query.before && !before) || isNaN(limit) || limit < 1) {
+      return res.status(400).json({ error: "Invalid pagination parameters" });
+    }
 
-        res.json(messageWithUser);
-      } catch (error) {
-        console.error("Error creating direct message:", error);
-        res.status(500).json({ error: "Internal server error" });
+    try {
+      const member = await getWorkspaceMember(workspaceId, user.id);
+      if (!member) {
+        return res
+          .status(403)
+          .json({ error: "Not a member of this workspace" });
       }
-    },
-  );
+
+      const viewer = {
+        userId: user.id,
+        workspaceId,
+        canAccessPublicChannels: can(member.role, "accessPublicChannels"),
+      };
+      const [page, unreadCount] = await Promise.all([
+        getActivity(viewer, {
+          before,
+          limit: Math.min(limit, MAX_ACTIVITY_PAGE_SIZE),
+          readAt: member.activityReadAt,
+        }),
+        getActivityUnreadCount(viewer, member.activityReadAt),
+      ]);
+
+      res.json({ ...page, unreadCount });
+    } catch (error) {
+      console.error("Error fetching activity:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Mark everything in the activity feed read
+  app.post("/api/workspaces/:workspaceId/activity/read", async (req, res) => {
+    const user = req.user;
+    if (!user) return res.status(401).json({ error: "Not authenticated" });
+
+    const workspaceId = parseInt(req.params.workspaceId);
+    if (isNaN(workspaceId)) {
+      return res.status(400).json({ error: "Invalid workspace ID" });
+    }
+
+    try {
+      const member = await getWorkspaceMember(workspaceId, user.id);
+      if (!member) {
+        return res
+          .status(403)
+          .json({ error: "Not a member of this workspace" });
+      }
+
+      const [updated] = await db
+        .update(workspaceMembers)
+        .set({ activityReadAt: new Date() })
+        .where(eq(workspaceMembers.id, member.id))
+        .returning();
+
+      // The user's other tabs clear their badge too
+      broadcaster.broadcastToUsers([user.id], {
+        type: "activity_read",
+        workspaceId,
+        activityReadAt: updated.activityReadAt,
+      });
+
+      res.json({ activityReadAt: updated.activityReadAt, unreadCount: 0 });
+    } catch (error) {
+      console.error("Error marking activity read:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
 
   return httpServer;
 }
\ No newline at end of file
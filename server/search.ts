@@ -0,0 +1,114 @@
+// Parses message search queries such as
+//   deploy failed from:@alice in:#ops has:file after:2024-01-01
+// into free text for PostgreSQL full-text search plus structured filters.
+// Usernames and channel names are lowercased and matched case-insensitively.
+
+export type SearchFilters = {
+  // Free text, passed to websearch_to_tsquery (supports "phrases" and -terms)
+  text: string;
+  // Usernames from `from:@user`
+  from: string[];
+  // Channel names from `in:#channel`
+  inChannels: string[];
+  // Usernames from `in:@user`, meaning the DM with that user
+  inDirectMessages: string[];
+  hasFile: boolean;
+  // Only messages created before the start of this day
+  before: Date | null;
+  // Only messages created after the end of this day
+  after: Date | null;
+};
+
+export type SearchParseResult =
+  | { success: true; filters: SearchFilters }
+  | { success: false; error: string };
+
+const FILTER_PATTERN = /^(from|in|has|before|after):(.+)$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDay(value: string) {
+  if (!DATE_PATTERN.test(value)) return null;
+  const date = new Date(`${value}T00:00:00Z`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export function parseSearchQuery(query: string): SearchParseResult {
+  const filters: SearchFilters = {
+    text: "",
+    from: [],
+    inChannels: [],
+    inDirectMessages: [],
+    hasFile: false,
+    before: null,
+    after: null,
+  };
+  const textParts: string[] = [];
+
+  // Split on whitespace, keeping quoted phrases together for the text search
+  const tokens = query.match(/"[^"]*"|\S+/g) ?? [];
+
+  for (const token of tokens) {
+    const match = token.match(FILTER_PATTERN);
+    if (!match) {
+      textParts.push(token);
+      continue;
+    }
+
+    const key = match[1].toLowerCase();
+    const value = match[2];
+    const name = value.toLowerCase();
+
+    switch (key) {
+      case "from":
+        filters.from.push(name.replace(/^@/, ""));
+        break;
+      case "in":
+        if (name.startsWith("@")) {
+          filters.inDirectMessages.push(name.slice(1));
+        } else {
+          filters.inChannels.push(name.replace(/^#/, ""));
+        }
+        break;
+      case "has":
+        if (value.toLowerCase() !== "file") {
+          return { success: false, error: `Unsupported filter has:${value}` };
+        }
+        filters.hasFile = true;
+        break;
+      case "before":
+      case "after": {
+        const day = parseDay(value);
+        if (!day) {
+          return {
+            success: false,
+            error: `${key}: expects a date like 2024-01-31`,
+          };
+        }
+        if (key === "before") {
+          filters.before = day;
+        } else {
+          filters.after = new Date(day.getTime() + DAY_MS);
+        }
+        break;
+      }
+    }
+  }
+
+  filters.text = textParts.join(" ").trim();
+  return { success: true, filters };
+}
+
+// Whether the query narrows results at all; an empty search is rejected
+// rather than returning the whole workspace
+export function hasSearchCriteria(filters: SearchFilters) {
+  return (
+    filters.text.length > 0 ||
+    filters.from.length > 0 ||
+    filters.inChannels.length > 0 ||
+    filters.inDirectMessages.length > 0 ||
+    filters.hasFile ||
+    filters.before !== null ||
+    filters.after !== null
+  );
+}
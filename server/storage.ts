@@ -0,0 +1,219 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import type { RequestHandler } from "express";
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+
+// Where uploaded files live, chosen by STORAGE_DRIVER:
+//   local (default)  files under UPLOAD_DIR (default "uploads") on this
+//                    instance, only suitable for a single instance. Download
+//                    links are signed with FILE_URL_SECRET; without it each
+//                    process signs with a random key, so links don't survive
+//                    a restart.
+//   s3               an S3-compatible bucket (S3_BUCKET, S3_REGION). Set
+//                    S3_ENDPOINT and S3_FORCE_PATH_STYLE=true for MinIO and
+//                    similar. Credentials come from S3_ACCESS_KEY_ID and
+//                    S3_SECRET_ACCESS_KEY, or the default AWS chain.
+
+export type DownloadOptions = {
+  fileName: string;
+  contentType: string;
+  // Show in the browser rather than download
+  inline: boolean;
+};
+
+export type FileStorage = {
+  driver: "local" | "s3";
+  put: (key: string, body: Buffer, contentType: string) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+  // Short-lived URL the browser can fetch the file from. Access must be
+  // checked before handing it out.
+  getDownloadUrl: (key: string, options: DownloadOptions) => Promise<string>;
+  // Serves getDownloadUrl's URLs when the backend can't serve them itself
+  downloadRoute?: { path: string; handler: RequestHandler };
+};
+
+const DOWNLOAD_URL_TTL_SECONDS = 5 * 60;
+
+function contentDisposition({ fileName, inline }: DownloadOptions) {
+  return `${inline ? "inline" : "attachment"}; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+// Random key for a new upload; user-provided names never reach storage
+export function createStorageKey() {
+  return crypto.randomBytes(16).toString("hex");
+}
+
+// Files on local disk, downloaded through HMAC-signed, expiring URLs served
+// by this app
+export function createLocalStorage(dir: string, secret: string): FileStorage {
+  const filePath = (key: string) => path.join(dir, path.basename(key));
+
+  type SignedParams = {
+    expires: string;
+    name: string;
+    type: string;
+    inline: string;
+  };
+
+  const sign = (key: string, params: SignedParams) =>
+    crypto
+      .createHmac("sha256", secret)
+      .update(
+        [key, params.expires, params.name, params.type, params.inline].join("\n"),
+      )
+      .digest("hex");
+
+  const handler: RequestHandler = (req, res) => {
+    const { signature, ...query } = req.query as SignedParams & {
+      signature?: string;
+    };
+    const expected = Buffer.from(sign(req.params.key, query));
+    const actual = Buffer.from(String(signature ?? ""));
+
+    if (
+      actual.length !== expected.length ||
+      !crypto.timingSafeEqual(actual, expected) ||
+      Number(query.expires) < Date.now() / 1000
+    ) {
+      return res.status(403).json({ error: "Invalid or expired download link" });
+    }
+
+    res.type(query.type);
+    res.setHeader(
+      "Content-Disposition",
+      contentDisposition({
+        fileName: query.name,
+        contentType: query.type,
+        inline: query.inline === "1",
+      }),
+    );
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    res.setHeader("Content-Security-Policy", "sandbox");
+    res.setHeader("Cache-Control", `private, max-age=${DOWNLOAD_URL_TTL_SECONDS}`);
+
+    res.sendFile(path.resolve(filePath(req.params.key)), (error) => {
+      if (error && !res.headersSent) {
+        res.status(404).json({ error: "File not found" });
+      }
+    });
+  };
+
+  return {
+    driver: "local",
+    async put(key, body) {
+      await fs.promises.mkdir(dir, { recursive: true });
+      await fs.promises.writeFile(filePath(key), body);
+    },
+    async delete(key) {
+      await fs.promises.unlink(filePath(key)).catch((error) => {
+        if (error.code !== "ENOENT") throw error;
+      });
+    },
+    async getDownloadUrl(key, options) {
+      const params: SignedParams = {
+        expires: String(Math.floor(Date.now() / 1000) + DOWNLOAD_URL_TTL_SECONDS),
+        name: options.fileName,
+        type: options.contentType,
+        inline: options.inline ? "1" : "0",
+      };
+      const query = new URLSearchParams({ ...params, signature: sign(key, params) });
+      return `/api/files/${key}?${query}`;
+    },
+    downloadRoute: { path: "/api/files/:key", handler },
+  };
+}
+
+type S3StorageConfig = {
+  bucket: string;
+  region: string;
+  endpoint?: string;
+  forcePathStyle?: boolean;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+};
+
+// Files in an S3-compatible bucket, downloaded straight from the bucket
+// through presigned URLs
+export function createS3Storage(config: S3StorageConfig): FileStorage {
+  const client = new S3Client({
+    region: config.region,
+    endpoint: config.endpoint,
+    forcePathStyle: config.forcePathStyle,
+    credentials:
+      config.accessKeyId && config.secretAccessKey
+        ? {
+            accessKeyId: config.accessKeyId,
+            secretAccessKey: config.secretAccessKey,
+          }
+        : undefined,
+  });
+
+  return {
+    driver: "s3",
+    async put(key, body, contentType) {
+      await client.send(
+        new PutObjectCommand({
+          Bucket: config.bucket,
+          Key: key,
+          Body: body,
+          ContentType: contentType,
+        }),
+      );
+    },
+    async delete(key) {
+      await client.send(
+        new DeleteObjectCommand({ Bucket: config.bucket, Key: key }),
+      );
+    },
+    getDownloadUrl(key, options) {
+      return getSignedUrl(
+        client,
+        new GetObjectCommand({
+          Bucket: config.bucket,
+          Key: key,
+          ResponseContentType: options.contentType,
+          ResponseContentDisposition: contentDisposition(options),
+        }),
+        { expiresIn: DOWNLOAD_URL_TTL_SECONDS },
+      );
+    },
+  };
+}
+
+function createStorageFromEnv(): FileStorage {
+  const driver = process.env.STORAGE_DRIVER || "local";
+
+  if (driver === "local") {
+    return createLocalStorage(
+      process.env.UPLOAD_DIR || "uploads",
+      process.env.FILE_URL_SECRET ||
+        process.env.REPL_ID ||
+        crypto.randomBytes(32).toString("hex"),
+    );
+  }
+
+  if (driver === "s3") {
+    if (!process.env.S3_BUCKET) {
+      throw new Error("S3_BUCKET must be set when STORAGE_DRIVER is s3");
+    }
+    return createS3Storage({
+      bucket: process.env.S3_BUCKET,
+      region: process.env.S3_REGION || "us-east-1",
+      endpoint: process.env.S3_ENDPOINT,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+    });
+  }
+
+  throw new Error(`Unknown STORAGE_DRIVER "${driver}", expected local or s3`);
+}
+
+export const storage = createStorageFromEnv();
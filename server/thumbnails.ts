@@ -0,0 +1,47 @@
+import sharp from "sharp";
+
+// Raster formats we can decode and preview. SVG is left out on purpose: it
+// is served as a download only (see INLINE_MIME_TYPES in routes.ts).
+const THUMBNAIL_MIME_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+// Longest edge of a thumbnail, in pixels. Previews render at up to half of
+// this, so thumbnails stay sharp on high-DPI screens.
+const THUMBNAIL_SIZE = 640;
+
+export const THUMBNAIL_CONTENT_TYPE = "image/webp";
+
+export type ImageInfo = {
+  // Dimensions of the original, as displayed (EXIF orientation applied)
+  width: number;
+  height: number;
+  thumbnail: Buffer;
+};
+
+// Read an uploaded image's dimensions and render a WebP thumbnail. Returns
+// null for files that aren't images we can preview, including uploads whose
+// declared type doesn't match their contents.
+export async function createThumbnail(
+  buffer: Buffer,
+  mimeType: string,
+): Promise<ImageInfo | null> {
+  if (!THUMBNAIL_MIME_TYPES.includes(mimeType)) return null;
+
+  try {
+    const metadata = await sharp(buffer).metadata();
+    const { width, height } = metadata.autoOrient ?? metadata;
+    if (!width || !height) return null;
+
+    const thumbnail = await sharp(buffer)
+      .rotate()
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, {
+        fit: "inside",
+        withoutEnlargement: true,
+      })
+      .webp({ quality: 80 })
+      .toBuffer();
+
+    return { width, height, thumbnail };
+  } catch (error) {
+    console.error("Error creating thumbnail:", error);
+    return null;
+  }
+}
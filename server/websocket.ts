@@ -1,4 +1,5 @@
-import { Server as HttpServer } from "http";
+import { Server as HttpServer, type IncomingMessage } from "http";
+import type { Request, Response, RequestHandler } from "express";
 import { WebSocket, WebSocketServer } from "ws";
 import { db } from "@db";
 import { users, channelMembers } from "@db/schema";
@@ -10,7 +11,27 @@ interface Client extends WebSocket {
   isAlive?: boolean;
 }
 
-export function setupWebSocket(server: HttpServer) {
+// Server-side fan-out used by the HTTP routes to publish persisted changes
+export type Broadcaster = {
+  broadcastToChannel: (channelId: number, message: any) => Promise<void>;
+  broadcastToUsers: (userIds: number[], message: any) => void;
+  // Keep open sockets' channel subscriptions in step with channel_members
+  updateChannelSubscription: (
+    userId: number,
+    channelId: number,
+    subscribed: boolean,
+  ) => void;
+};
+
+// Shape of the data Passport stores in the session (see serializeUser)
+type PassportSession = {
+  passport?: { user?: { id: number; workspaceId?: number } };
+};
+
+export function setupWebSocket(
+  server: HttpServer,
+  sessionParser: RequestHandler,
+): Broadcaster {
   const wss = new WebSocketServer({
     noServer: true,
     clientTracking: true,
@@ -18,8 +39,35 @@ export function setupWebSocket(server: HttpServer) {
 
   let isInitialized = false;
 
+  // Resolve the logged-in user from the express-session cookie on the upgrade
+  // request, the same way passport.session() does for HTTP requests
+  function authenticateUpgrade(request: IncomingMessage) {
+    return new Promise<number | null>((resolve) => {
+      sessionParser(request as Request, {} as Response, async () => {
+        try {
+          const session = (request as Request).session as
+            | PassportSession
+            | undefined;
+          const sessionUserId = session?.passport?.user?.id;
+          if (!sessionUserId) return resolve(null);
+
+          const [user] = await db
+            .select({ id: users.id })
+            .from(users)
+            .where(eq(users.id, sessionUserId))
+            .limit(1);
+
+          resolve(user?.id ?? null);
+        } catch (error) {
+          console.error("WebSocket session lookup error:", error);
+          resolve(null);
+        }
+      });
+    });
+  }
+
   // Handle upgrade events
-  server.on("upgrade", (request, socket, head) => {
+  server.on("upgrade", async (request, socket, head) => {
     try {
       // Skip handling Vite HMR requests
       if (request.headers["sec-websocket-protocol"] === "vite-hmr") {
@@ -33,8 +81,15 @@ export function setupWebSocket(server: HttpServer) {
         return;
       }
 
+      const userId = await authenticateUpgrade(request);
+      if (!userId) {
+        socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+        socket.destroy();
+        return;
+      }
+
       wss.handleUpgrade(request, socket, head, (ws) => {
-        wss.emit("connection", ws, request);
+        wss.emit("connection", ws, request, userId);
       });
     } catch (error) {
       console.error("WebSocket upgrade error:", error);
@@ -42,15 +97,25 @@ export function setupWebSocket(server: HttpServer) {
     }
   });
 
-  const clients = new Map<number, Client>();
+  // Every open socket per user; a user is online while any of them is open
+  const clients = new Map<number, Set<Client>>();
+
+  function sendToUser(userId: number, data: string) {
+    clients.get(userId)?.forEach((client) => {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(data);
+      }
+    });
+  }
 
   function heartbeat(this: Client) {
     this.isAlive = true;
   }
 
-  wss.on("connection", (ws: Client) => {
-    console.log("New WebSocket connection established");
+  wss.on("connection", (ws: Client, _request: IncomingMessage, userId: number) => {
+    console.log(`User ${userId} connected via WebSocket`);
     ws.isAlive = true;
+    ws.userId = userId;
     ws.channels = new Set();
     ws.on("pong", heartbeat);
 
@@ -60,59 +125,8 @@ export function setupWebSocket(server: HttpServer) {
         console.log("WebSocket received message:", data);
 
         switch (data.type) {
-          case "auth":
-            ws.userId = data.userId;
-            clients.set(data.userId, ws);
-            console.log(`User ${data.userId} authenticated via WebSocket`);
-
-            // Update user status
-            await db
-              .update(users)
-              .set({ status: "online", lastSeen: new Date() })
-              .where(eq(users.id, data.userId));
-
-            // Get user's channels
-            const userChannels = await db
-              .select({ channelId: channelMembers.channelId })
-              .from(channelMembers)
-              .where(eq(channelMembers.userId, data.userId));
-
-            userChannels.forEach(({ channelId }) => {
-              ws.channels?.add(channelId);
-            });
-
-            // Send confirmation back to client
-            ws.send(
-              JSON.stringify({
-                type: "auth_success",
-                userId: data.userId,
-              })
-            );
-
-            broadcastUserStatus(data.userId, "online");
-            break;
-
-          case "message":
-          case "thread_message":
-            if (!ws.userId || !data.channelId) break;
-            console.log(`Broadcasting ${data.type}:`, data);
-
-            // Broadcast the message to all clients in the channel
-            broadcastToChannel(data.channelId, data);
-
-            // Send confirmation back to sender
-            ws.send(
-              JSON.stringify({
-                type: "message_sent",
-                channelId: data.channelId,
-                messageId: data.messageId || data.newMessage?.id,
-                parentId: data.parentId,
-              })
-            );
-            break;
-
           case "typing":
-            if (!ws.userId || !data.channelId) break;
+            if (!ws.userId || !ws.channels?.has(data.channelId)) break;
             broadcastToChannel(data.channelId, {
               type: "typing",
               userId: ws.userId,
@@ -132,24 +146,75 @@ export function setupWebSocket(server: HttpServer) {
     });
 
     ws.on("close", async () => {
-      if (ws.userId) {
-        clients.delete(ws.userId);
+      if (!ws.userId) return;
+
+      const userSockets = clients.get(ws.userId);
+      userSockets?.delete(ws);
+      if (userSockets && userSockets.size > 0) return;
 
-        // Update user status
+      // Last socket for this user closed
+      clients.delete(ws.userId);
+
+      try {
         await db
           .update(users)
           .set({ status: "offline", lastSeen: new Date() })
           .where(eq(users.id, ws.userId));
 
         broadcastUserStatus(ws.userId, "offline");
+      } catch (error) {
+        console.error("Error updating user status:", error);
       }
     });
 
     ws.on("error", (error) => {
       console.error("WebSocket client error:", error);
     });
+
+    registerClient(ws, userId).catch((error) => {
+      console.error("WebSocket registration error:", error);
+    });
   });
 
+  // Track the authenticated socket, subscribe it to the user's channels and
+  // announce the user as online if this is their first open socket
+  async function registerClient(ws: Client, userId: number) {
+    let userSockets = clients.get(userId);
+    const cameOnline = !userSockets || userSockets.size === 0;
+    if (!userSockets) {
+      userSockets = new Set();
+      clients.set(userId, userSockets);
+    }
+    userSockets.add(ws);
+
+    if (cameOnline) {
+      await db
+        .update(users)
+        .set({ status: "online", lastSeen: new Date() })
+        .where(eq(users.id, userId));
+    }
+
+    const userChannels = await db
+      .select({ channelId: channelMembers.channelId })
+      .from(channelMembers)
+      .where(eq(channelMembers.userId, userId));
+
+    userChannels.forEach(({ channelId }) => {
+      ws.channels?.add(channelId);
+    });
+
+    ws.send(
+      JSON.stringify({
+        type: "auth_success",
+        userId,
+      })
+    );
+
+    if (cameOnline) {
+      broadcastUserStatus(userId, "online");
+    }
+  }
+
   // Heartbeat interval
   const interval = setInterval(() => {
     wss.clients.forEach((ws: Client) => {
@@ -177,16 +242,33 @@ export function setupWebSocket(server: HttpServer) {
       const data = JSON.stringify(message);
 
       for (const { userId } of channelMemberIds) {
-        const client = clients.get(userId);
-        if (client?.readyState === WebSocket.OPEN) {
-          client.send(data);
-        }
+        sendToUser(userId, data);
       }
     } catch (error) {
       console.error("Error broadcasting to channel:", error);
     }
   }
 
+  function broadcastToUsers(userIds: number[], message: any) {
+    const data = JSON.stringify(message);
+
+    new Set(userIds).forEach((userId) => sendToUser(userId, data));
+  }
+
+  function updateChannelSubscription(
+    userId: number,
+    channelId: number,
+    subscribed: boolean,
+  ) {
+    clients.get(userId)?.forEach((client) => {
+      if (subscribed) {
+        client.channels?.add(channelId);
+      } else {
+        client.channels?.delete(channelId);
+      }
+    });
+  }
+
   function broadcastUserStatus(userId: number, status: string) {
     const message = JSON.stringify({
       type: "userStatus",
@@ -194,14 +276,18 @@ export function setupWebSocket(server: HttpServer) {
       status,
     });
 
-    clients.forEach((client) => {
-      if (client.readyState === WebSocket.OPEN) {
-        client.send(message);
-      }
+    clients.forEach((_sockets, connectedUserId) => {
+      sendToUser(connectedUserId, message);
     });
   }
 
   // Mark WebSocket server as initialized
   isInitialized = true;
   console.log("WebSocket server initialized successfully");
+
+  return {
+    broadcastToChannel,
+    broadcastToUsers,
+    updateChannelSubscription,
+  };
 }
\ No newline at end of file
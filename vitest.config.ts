@@ -0,0 +1,24 @@
+import { defineConfig } from "vitest/config";
+import path, { dirname } from "path";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@db": path.resolve(__dirname, "db"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts"],
+    environment: "node",
+    // Integration tests write to the database, so they only ever run against
+    // TEST_DATABASE_URL and never the development DATABASE_URL
+    env: { DATABASE_URL: process.env.TEST_DATABASE_URL ?? "" },
+    // Suites share one database; run them one at a time
+    fileParallelism: false,
+    testTimeout: 30000,
+    hookTimeout: 60000,
+  },
+});